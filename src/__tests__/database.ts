@@ -0,0 +1,128 @@
+import { PGlite, types } from "@electric-sql/pglite";
+import { PoolClient } from "pg";
+import { Writable } from "stream";
+
+/**
+ * pg 드라이버의 파라미터 변환 함수 (타입 선언이 없어 require로 가져옵니다)
+ * Date는 로컬 시간대 문자열, 배열은 PostgreSQL 배열 리터럴로 바꾸는 등 실제 드라이버와 같은 값을 보냅니다
+ */
+const { prepareValue } = require("pg/lib/utils") as { prepareValue(value: unknown): unknown };
+
+/**
+ * 테스트용 연결 팩토리 (getConnection 대신 호출)
+ */
+export type TestConnectionFactory = () => Promise<PoolClient | null>;
+
+/**
+ * 테스트 파일마다 하나씩 만드는 메모리 내 PostgreSQL
+ */
+let database: PGlite | null = null;
+
+/**
+ * 테스트 연결이 실행한 SQL 목록
+ */
+export const executedQueries: string[] = [];
+
+let connectionFactory: TestConnectionFactory | null = null;
+
+/**
+ * 메모리 내 PostgreSQL 인스턴스를 반환합니다 (없으면 생성)
+ */
+export function getTestDatabase(): PGlite {
+    if (!database) {
+        // pg 드라이버처럼 BIGINT(COUNT, SUM 등)를 문자열로 반환합니다
+        database = new PGlite({ parsers: { [types.INT8]: (value: string) => value } });
+    }
+    return database;
+}
+
+/**
+ * 테스트 연결 옵션
+ */
+export interface TestClientOptions {
+    /**
+     * 각 쿼리를 실행하기 직전에 호출 (특정 쿼리를 붙잡아 두는 등 실행 순서 제어용)
+     */
+    beforeQuery?: (sql: string) => Promise<void>;
+}
+
+/**
+ * PGlite 위에서 동작하는 PoolClient를 만듭니다
+ * pg Client처럼 쿼리를 순서대로 하나씩 실행하고 { rows, rowCount } 형태로 결과를 반환합니다
+ * COPY ... FROM STDIN 스트림(pg-copy-streams)은 받은 데이터를 모아 PGlite의 /dev/blob COPY로 실행합니다
+ */
+export function createTestClient(options: TestClientOptions = {}): PoolClient {
+    let pending: Promise<unknown> = Promise.resolve();
+
+    const run = async (text: string, params: any[], blob?: Blob) => {
+        await options.beforeQuery?.(text);
+        executedQueries.push(text);
+        const result = blob
+            ? await getTestDatabase().query<any>(text.replace(/FROM STDIN/i, "FROM '/dev/blob'"), params, { blob })
+            : await getTestDatabase().query<any>(text, params.map(prepareValue));
+        return { rows: result.rows, rowCount: result.affectedRows || result.rows.length, fields: result.fields };
+    };
+
+    const enqueue = (text: string, params: any[], blob?: Blob) => {
+        const result = pending.then(() => run(text, params, blob));
+        pending = result.catch(() => undefined);
+        return result;
+    };
+
+    const copyFromStdin = (text: string) => {
+        const chunks: Buffer[] = [];
+        const stream: Writable & { rowCount?: number } = new Writable({
+            write(chunk, _encoding, callback) {
+                chunks.push(Buffer.from(chunk));
+                callback();
+            },
+            final(callback) {
+                enqueue(text, [], new Blob(chunks)).then((result) => {
+                    stream.rowCount = result.rowCount;
+                    callback();
+                }, callback);
+            },
+        });
+        return stream;
+    };
+
+    const client = {
+        query(textOrConfig: any, values?: any[]) {
+            if (typeof textOrConfig?.submit === "function") {
+                return copyFromStdin(textOrConfig.text);
+            }
+            const text = typeof textOrConfig === "string" ? textOrConfig : textOrConfig.text;
+            const params = typeof textOrConfig === "string" ? values : textOrConfig.values;
+            return enqueue(text, params ?? []);
+        },
+        release() {},
+        on() {
+            return client;
+        },
+        removeListener() {
+            return client;
+        },
+    };
+    return client as unknown as PoolClient;
+}
+
+/**
+ * 테스트 설정에서 대체한 getConnection
+ */
+export async function getTestConnection(): Promise<PoolClient | null> {
+    return connectionFactory ? await connectionFactory() : createTestClient();
+}
+
+/**
+ * getConnection이 반환할 연결을 바꿉니다 (생략하면 PGlite 연결로 복원)
+ */
+export function setTestConnectionFactory(factory?: TestConnectionFactory): void {
+    connectionFactory = factory ?? null;
+}
+
+/**
+ * 실행한 SQL 기록을 비웁니다
+ */
+export function clearExecutedQueries(): void {
+    executedQueries.length = 0;
+}
@@ -0,0 +1,14 @@
+import { afterEach, vi } from "vitest";
+import { clearExecutedQueries, setTestConnectionFactory } from "./database";
+
+// 모든 테스트에서 풀 대신 메모리 내 PostgreSQL(PGlite) 연결을 사용합니다
+vi.mock("../utils/connection", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("../utils/connection")>();
+    const { getTestConnection } = await import("./database");
+    return { ...actual, getConnection: getTestConnection };
+});
+
+afterEach(() => {
+    setTestConnectionFactory();
+    clearExecutedQueries();
+});
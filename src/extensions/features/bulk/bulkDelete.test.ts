@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../../repository/createRepository";
+
+const users = createRepository<any>({ tableName: "bulk_delete_users", keys: ["id"] });
+const lines = createRepository<any>({ tableName: "bulk_delete_lines", keys: ["order_id", "product_id"] });
+
+async function remaining(table: string): Promise<any[]> {
+    const { rows } = await getTestDatabase().query(`SELECT * FROM ${table} ORDER BY 1, 2`);
+    return rows;
+}
+
+beforeEach(async () => {
+    await getTestDatabase().exec(`
+        DROP TABLE IF EXISTS bulk_delete_users, bulk_delete_lines;
+        CREATE TABLE bulk_delete_users (id INT PRIMARY KEY, name TEXT NOT NULL);
+        INSERT INTO bulk_delete_users SELECT i, 'user ' || i FROM generate_series(1, 5) AS i;
+        CREATE TABLE bulk_delete_lines (order_id INT, product_id INT, PRIMARY KEY (order_id, product_id));
+        INSERT INTO bulk_delete_lines VALUES (1, 1), (1, 2), (2, 1), (2, 2);
+    `);
+});
+
+describe("repository.bulkDelete", () => {
+    it("단일 키는 배열 파라미터 하나로 = ANY($1) 삭제 후 삭제된 행 수 반환", async () => {
+        const deleted = await users.bulkDelete([1, { id: 3 }, 99]);
+
+        expect(deleted).toBe(2);
+        expect(executedQueries).toContain('DELETE FROM "bulk_delete_users" WHERE "id" = ANY($1)');
+        expect((await remaining("bulk_delete_users")).map((row) => row.id)).toEqual([2, 4, 5]);
+    });
+
+    it("복합 키는 행 값 IN으로 삭제", async () => {
+        const deleted = await lines.bulkDelete([
+            { order_id: 1, product_id: 2 },
+            { order_id: 2, product_id: 1 },
+        ]);
+
+        expect(deleted).toBe(2);
+        expect(executedQueries).toContain('DELETE FROM "bulk_delete_lines" WHERE ("order_id", "product_id") IN (($1, $2), ($3, $4))');
+        expect(await remaining("bulk_delete_lines")).toEqual([
+            { order_id: 1, product_id: 1 },
+            { order_id: 2, product_id: 2 },
+        ]);
+    });
+
+    it("청크 경계마다 문장을 나누고 진행 상황을 보고", async () => {
+        const progress: any[] = [];
+
+        const single = await users.bulkDelete([1, 2, 3, 4, 5], { chunkSize: 2, onProgress: (p) => progress.push(p) });
+        const composite = await lines.bulkDelete(
+            [
+                { order_id: 1, product_id: 1 },
+                { order_id: 1, product_id: 2 },
+                { order_id: 2, product_id: 1 },
+            ],
+            { chunkSize: 2 }
+        );
+
+        expect([single, composite]).toEqual([5, 3]);
+        expect(progress.map((p) => [p.processed, p.total, p.chunk, p.chunks])).toEqual([
+            [2, 5, 1, 3],
+            [4, 5, 2, 3],
+            [5, 5, 3, 3],
+        ]);
+        expect(executedQueries.filter((sql) => sql.startsWith("DELETE"))).toEqual([
+            'DELETE FROM "bulk_delete_users" WHERE "id" = ANY($1)',
+            'DELETE FROM "bulk_delete_users" WHERE "id" = ANY($1)',
+            'DELETE FROM "bulk_delete_users" WHERE "id" = ANY($1)',
+            'DELETE FROM "bulk_delete_lines" WHERE ("order_id", "product_id") IN (($1, $2), ($3, $4))',
+            'DELETE FROM "bulk_delete_lines" WHERE ("order_id", "product_id") IN (($1, $2))',
+        ]);
+    });
+
+    it("returning을 설정하면 행 수 대신 삭제된 행 목록을 반환", async () => {
+        const deleted = await users.bulkDelete([2, 4], { chunkSize: 1, returning: ["id", "name"] });
+
+        expect(deleted).toEqual([
+            { id: 2, name: "user 2" },
+            { id: 4, name: "user 4" },
+        ]);
+        expect(await users.bulkDelete([], { returning: ["id"] })).toEqual([]);
+        expect(await users.bulkDelete([])).toBe(0);
+    });
+
+    it("키 값이 기준 컬럼과 맞지 않으면 실행 전에 에러", async () => {
+        await expect(lines.bulkDelete([1])).rejects.toThrow("Composite key (order_id, product_id) requires object key values.");
+        await expect(lines.bulkDelete([{ order_id: 1 }])).rejects.toThrow('Bulk delete key is missing column "product_id".');
+        await expect(users.bulkDelete([1], { chunkSize: 0 })).rejects.toThrow("Invalid chunkSize: 0.");
+        expect(executedQueries).toEqual([]);
+    });
+});
@@ -0,0 +1,155 @@
+import { PoolClient, QueryResultRow } from "pg";
+import { handler } from "../../../utils/transaction";
+import { HandlerOption } from "../../../interfaces/HandlerOption";
+import { Logger } from "../../../utils/logger";
+import { ColumnQuoter, quoteColumn, quoteQualifiedName } from "../../../utils/identifier";
+import { BulkProgress, chunkArray, resolveChunkSize } from "./chunk";
+
+/**
+ * 단일 키 삭제 기본 청크 크기 (배열 파라미터 하나로 전달)
+ */
+const DEFAULT_ARRAY_CHUNK_SIZE = 10000;
+
+/**
+ * 벌크 DELETE 옵션
+ */
+export interface BulkDeleteOptions {
+    /**
+     * 행을 찾을 기준 컬럼 목록
+     * @default Repository keys
+     */
+    by?: string[];
+
+    /**
+     * 청크당 키 개수
+     * @default 단일 키: 10000, 복합 키: 파라미터 제한 / 키 컬럼 수
+     */
+    chunkSize?: number;
+
+    /**
+     * RETURNING 컬럼 (설정하면 삭제된 행 목록 반환)
+     */
+    returning?: string[];
+
+    /**
+     * 청크 처리 후 호출되는 진행 상황 콜백
+     */
+    onProgress?: (progress: BulkProgress) => void;
+}
+
+/**
+ * 삭제할 키 값
+ * - 단일 키: 값 자체 또는 { id: 1 } 형태
+ * - 복합 키: { order_id: 1, product_id: 2 } 형태
+ */
+export type BulkDeleteKey = Record<string, any> | string | number | bigint;
+
+/**
+ * 키 값에서 기준 컬럼 값 목록을 추출합니다
+ */
+function extractKeyValues(keyValue: BulkDeleteKey, by: string[]): any[] {
+    if (keyValue !== null && typeof keyValue === "object" && !(keyValue instanceof Date)) {
+        return by.map((column) => {
+            if (!(column in keyValue)) {
+                throw new Error(`Bulk delete key is missing column "${column}".`);
+            }
+            return (keyValue as Record<string, any>)[column];
+        });
+    }
+    if (by.length > 1) {
+        throw new Error(`Composite key (${by.join(", ")}) requires object key values.`);
+    }
+    return [keyValue];
+}
+
+/**
+ * 벌크 DELETE 함수 타입
+ */
+export type BulkDeleteFunction<TEntity extends QueryResultRow = any> = (
+    keyValues: BulkDeleteKey[],
+    bulkOptions?: BulkDeleteOptions,
+    options?: HandlerOption
+) => Promise<TEntity[] | number | null>;
+
+/**
+ * 벌크 DELETE 함수를 생성합니다
+ * - 단일 키: WHERE id = ANY($1) (배열 파라미터 하나로 문장 캐시 가능)
+ * - 복합 키: WHERE (a, b) IN (($1, $2), ...)
+ * 모든 청크는 하나의 트랜잭션 안에서 실행됩니다
+ */
+export function createBulkDeleteFunction<TEntity extends QueryResultRow = any>(
+    tableName: string,
+    logger: Logger,
+    keys: string[] = [],
+    quote: ColumnQuoter = quoteColumn
+): BulkDeleteFunction<TEntity> {
+    return async function bulkDelete(
+        keyValues: BulkDeleteKey[],
+        bulkOptions: BulkDeleteOptions = {},
+        options?: HandlerOption
+    ): Promise<TEntity[] | number | null> {
+        const by = bulkOptions.by || keys;
+        const hasReturning = bulkOptions.returning !== undefined && bulkOptions.returning.length > 0;
+
+        if (by.length === 0) {
+            throw new Error("Bulk delete requires key columns. Set repository keys or the 'by' option.");
+        }
+        if (keyValues.length === 0) {
+            return hasReturning ? [] : 0;
+        }
+
+        const tuples = keyValues.map((keyValue) => extractKeyValues(keyValue, by));
+        const isSingleKey = by.length === 1;
+        const chunkSize = isSingleKey
+            ? bulkOptions.chunkSize ?? DEFAULT_ARRAY_CHUNK_SIZE
+            : resolveChunkSize(by.length, bulkOptions.chunkSize);
+        if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+            throw new Error(`Invalid chunkSize: ${chunkSize}. Chunk size must be a positive integer.`);
+        }
+        const chunks = chunkArray(tuples, chunkSize);
+        const table = quoteQualifiedName(tableName);
+        const keyColumns = by.map((column) => quote(column));
+        const returningClause = hasReturning
+            ? ` RETURNING ${bulkOptions.returning!.map((column) => quote(column)).join(", ")}`
+            : "";
+
+        return await handler(
+            async (connection: PoolClient) => {
+                const deletedRows: TEntity[] = [];
+                let deletedCount = 0;
+                let processed = 0;
+
+                for (let i = 0; i < chunks.length; i++) {
+                    let query: string;
+                    let params: any[];
+
+                    if (isSingleKey) {
+                        query = `DELETE FROM ${table} WHERE ${keyColumns[0]} = ANY($1)${returningClause}`;
+                        params = [chunks[i].map((tuple) => tuple[0])];
+                    } else {
+                        let paramIndex = 1;
+                        const groups = chunks[i].map(
+                            (tuple) => `(${tuple.map(() => `$${paramIndex++}`).join(", ")})`
+                        );
+                        query = `DELETE FROM ${table} WHERE (${keyColumns.join(", ")}) IN (${groups.join(", ")})${returningClause}`;
+                        params = chunks[i].flat();
+                    }
+
+                    logger.debug(`Executing bulk DELETE chunk ${i + 1}/${chunks.length} (${chunks[i].length} keys)`);
+
+                    const result = await connection.query<TEntity>(query, params);
+                    if (hasReturning) {
+                        deletedRows.push(...result.rows);
+                    }
+                    deletedCount += result.rowCount ?? 0;
+                    processed += chunks[i].length;
+
+                    bulkOptions.onProgress?.({ processed, total: tuples.length, chunk: i + 1, chunks: chunks.length });
+                }
+
+                return hasReturning ? deletedRows : deletedCount;
+            },
+            { useTransaction: true, ...options }
+        );
+    };
+}
@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../../repository/createRepository";
+
+const items = createRepository<any>({ tableName: "bulk_insert_items", keys: ["id"] });
+
+/**
+ * 줄바꿈, 탭, 역슬래시, 따옴표와 NULL, 배열, JSON, bytea를 포함한 행
+ */
+const tricky = [
+    { id: 1, name: 'tab\there "quoted" \\ back', tags: ["a", 'b"c', null], meta: { n: 1 }, flag: true, data: Buffer.from([0, 255]) },
+    { id: 2, name: "line\nbreak\r", tags: [], meta: null, flag: false, data: null },
+    { id: 3, name: null, tags: null, meta: { list: [1, "x"] }, flag: null, data: Buffer.from("hi") },
+];
+
+async function selectAll(): Promise<any[]> {
+    const { rows } = await getTestDatabase().query("SELECT * FROM bulk_insert_items ORDER BY id");
+    return rows;
+}
+
+beforeEach(async () => {
+    await getTestDatabase().exec(`
+        DROP TABLE IF EXISTS bulk_insert_items;
+        CREATE TABLE bulk_insert_items (id INT PRIMARY KEY, name TEXT, tags TEXT[], meta JSONB, flag BOOLEAN, data BYTEA);
+    `);
+});
+
+afterEach(() => {
+    delete process.env.TZ;
+});
+
+describe("repository.bulkInsert", () => {
+    it("values 모드는 청크마다 INSERT하고 진행 상황을 보고", async () => {
+        const progress: any[] = [];
+        const rows = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, name: `item ${i + 1}` }));
+
+        const inserted = await items.bulkInsert(rows, { chunkSize: 2, onProgress: (p) => progress.push(p) });
+
+        expect(inserted).toBe(5);
+        expect(executedQueries.filter((sql) => sql.startsWith("INSERT"))).toHaveLength(3);
+        expect(progress.map((p) => [p.processed, p.chunk, p.chunks])).toEqual([
+            [2, 1, 3],
+            [4, 2, 3],
+            [5, 3, 3],
+        ]);
+        expect((await selectAll()).map((row) => row.name)).toEqual(rows.map((row) => row.name));
+    });
+
+    it("returning을 설정하면 삽입된 행 목록을 반환", async () => {
+        const inserted = await items.bulkInsert([{ id: 1, name: "a" }, { id: 2, name: "b" }], { chunkSize: 1, returning: ["id"] });
+
+        expect(inserted).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it.each(["text", "csv"] as const)("copy 모드(%s)는 특수 문자와 NULL을 values 모드와 같게 저장", async (format) => {
+        await items.bulkInsert(tricky, { mode: "values" });
+        const expected = await selectAll();
+        await getTestDatabase().exec("TRUNCATE bulk_insert_items");
+
+        const copied = await items.bulkInsert(tricky, { mode: "copy", format, chunkSize: 2 }, { throwError: true });
+
+        expect(copied).toBe(3);
+        expect(executedQueries).toContain(
+            `COPY "bulk_insert_items" ("id", "name", "tags", "meta", "flag", "data") FROM STDIN WITH (FORMAT ${format})`
+        );
+        expect(await selectAll()).toEqual(expected);
+    });
+
+    it.each(["text", "csv"] as const)("copy 모드(%s)는 Date를 values 모드와 같은 시간대로 저장", async (format) => {
+        // UTC가 아닌 시간대에서만 toISOString()과 드라이버의 로컬 시간 문자열이 다른 날짜/시각이 됩니다
+        process.env.TZ = "Asia/Seoul";
+        await getTestDatabase().exec(`
+            DROP TABLE IF EXISTS bulk_insert_dates;
+            CREATE TABLE bulk_insert_dates (id INT PRIMARY KEY, day DATE, at TIMESTAMP, at_tz TIMESTAMPTZ, history TIMESTAMP[]);
+        `);
+        const dates = createRepository<any>({ tableName: "bulk_insert_dates", keys: ["id"] });
+        const midnight = new Date(2024, 0, 1);
+        const rows = [{ id: 1, day: midnight, at: midnight, at_tz: midnight, history: [midnight, null] }];
+        const selectDates = async () =>
+            (await getTestDatabase().query("SELECT id, day::text, at::text, at_tz, history::text FROM bulk_insert_dates")).rows;
+
+        await dates.bulkInsert(rows, { mode: "values" });
+        const expected = await selectDates();
+        await getTestDatabase().exec("TRUNCATE bulk_insert_dates");
+        await dates.bulkInsert(rows, { mode: "copy", format }, { throwError: true });
+
+        expect(expected).toEqual([
+            { id: 1, day: "2024-01-01", at: "2024-01-01 00:00:00", at_tz: midnight, history: '{"2024-01-01 00:00:00",NULL}' },
+        ]);
+        expect(await selectDates()).toEqual(expected);
+    });
+
+    it("copy 모드에서 returning은 에러, 빈 목록은 0", async () => {
+        await expect(items.bulkInsert([{ id: 1 }], { mode: "copy", returning: ["id"] })).rejects.toThrow(
+            "RETURNING is not supported in copy mode."
+        );
+        expect(await items.bulkInsert([])).toBe(0);
+        expect(await items.bulkInsert([], { returning: ["id"] })).toEqual([]);
+    });
+});
@@ -0,0 +1,257 @@
+import { PoolClient, QueryResultRow } from "pg";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { from as copyFrom } from "pg-copy-streams";
+import { handler } from "../../../utils/transaction";
+import { HandlerOption } from "../../../interfaces/HandlerOption";
+import { Logger } from "../../../utils/logger";
+import { ColumnQuoter, quoteColumn, quoteQualifiedName } from "../../../utils/identifier";
+import { BulkProgress, chunkArray, resolveChunkSize } from "./chunk";
+
+/**
+ * pg 드라이버의 파라미터 변환 함수 (타입 선언이 없어 require로 가져옵니다)
+ * Date를 values 모드와 같은 문자열 (로컬 시간대 오프셋 포함, parseInputDatesAsUTC 설정 반영)로 바꾸는 데 사용합니다
+ */
+const { prepareValue } = require("pg/lib/utils") as { prepareValue(value: unknown): unknown };
+
+/**
+ * COPY 기본 청크 크기 (진행 상황 보고 단위)
+ */
+const DEFAULT_COPY_CHUNK_SIZE = 5000;
+
+/**
+ * 벌크 INSERT 옵션
+ */
+export interface BulkInsertOptions {
+    /**
+     * 청크당 행 수
+     * values 모드에서는 파라미터 제한(65535)을 넘지 않도록 자동으로 줄어듭니다
+     * @default values: 65535 / 컬럼 수, copy: 5000
+     */
+    chunkSize?: number;
+
+    /**
+     * 삽입 방식
+     * - "values": 청크별 다중 행 INSERT ... VALUES
+     * - "copy": COPY ... FROM STDIN 스트림 (RETURNING 불가)
+     * @default "values"
+     */
+    mode?: "values" | "copy";
+
+    /**
+     * COPY 데이터 형식 (copy 모드 전용)
+     * @default "text"
+     */
+    format?: "text" | "csv";
+
+    /**
+     * RETURNING 컬럼 (values 모드 전용, 설정하면 삽입된 행 목록 반환)
+     */
+    returning?: string[];
+
+    /**
+     * 청크 처리 후 호출되는 진행 상황 콜백
+     */
+    onProgress?: (progress: BulkProgress) => void;
+}
+
+/**
+ * COPY 데이터용 문자열로 값을 변환합니다 (NULL은 null 반환)
+ */
+function serializeCopyValue(value: any): string | null {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    if (value instanceof Date) {
+        return prepareValue(value) as string;
+    }
+    if (Buffer.isBuffer(value)) {
+        return `\\x${value.toString("hex")}`;
+    }
+    if (Array.isArray(value)) {
+        const elements = value.map((element) => {
+            const serialized = serializeCopyValue(element);
+            return serialized === null ? "NULL" : `"${serialized.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+        });
+        return `{${elements.join(",")}}`;
+    }
+    if (typeof value === "boolean") {
+        return value ? "t" : "f";
+    }
+    if (typeof value === "object") {
+        return JSON.stringify(value);
+    }
+    return String(value);
+}
+
+/**
+ * 한 행을 COPY text 형식으로 변환합니다
+ */
+function toCopyTextLine(values: any[]): string {
+    return (
+        values
+            .map((value) => {
+                const serialized = serializeCopyValue(value);
+                if (serialized === null) {
+                    return "\\N";
+                }
+                return serialized
+                    .replace(/\\/g, "\\\\")
+                    .replace(/\t/g, "\\t")
+                    .replace(/\n/g, "\\n")
+                    .replace(/\r/g, "\\r");
+            })
+            .join("\t") + "\n"
+    );
+}
+
+/**
+ * 한 행을 COPY CSV 형식으로 변환합니다 (NULL은 따옴표 없는 빈 값)
+ */
+function toCopyCsvLine(values: any[]): string {
+    return (
+        values
+            .map((value) => {
+                const serialized = serializeCopyValue(value);
+                return serialized === null ? "" : `"${serialized.replace(/"/g, '""')}"`;
+            })
+            .join(",") + "\n"
+    );
+}
+
+/**
+ * 벌크 INSERT 함수 타입
+ */
+export type BulkInsertFunction<TEntity extends QueryResultRow = any, TInsert = Partial<TEntity>> = (
+    rows: TInsert[],
+    bulkOptions?: BulkInsertOptions,
+    options?: HandlerOption
+) => Promise<TEntity[] | number | null>;
+
+/**
+ * 벌크 INSERT 함수를 생성합니다
+ * 모든 청크는 하나의 트랜잭션 안에서 실행됩니다
+ * - returning을 설정한 경우: 삽입된 행 목록 반환
+ * - 설정하지 않은 경우: 삽입된 행 수 반환
+ */
+export function createBulkInsertFunction<TEntity extends QueryResultRow = any, TInsert = Partial<TEntity>>(
+    tableName: string,
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
+): BulkInsertFunction<TEntity, TInsert> {
+    return async function bulkInsert(
+        rows: TInsert[],
+        bulkOptions: BulkInsertOptions = {},
+        options?: HandlerOption
+    ): Promise<TEntity[] | number | null> {
+        const mode = bulkOptions.mode || "values";
+        const hasReturning = bulkOptions.returning !== undefined && bulkOptions.returning.length > 0;
+
+        if (mode === "copy" && hasReturning) {
+            throw new Error("RETURNING is not supported in copy mode.");
+        }
+        if (rows.length === 0) {
+            return hasReturning ? [] : 0;
+        }
+
+        const columns = Object.keys(rows[0] as Record<string, any>);
+        if (columns.length === 0) {
+            throw new Error("No columns to insert.");
+        }
+
+        const table = quoteQualifiedName(tableName);
+        const columnList = columns.map((column) => quote(column)).join(", ");
+        const returningClause = hasReturning
+            ? ` RETURNING ${bulkOptions.returning!.map((column) => quote(column)).join(", ")}`
+            : "";
+
+        const chunkSize =
+            mode === "copy"
+                ? resolveChunkSize(0, bulkOptions.chunkSize ?? DEFAULT_COPY_CHUNK_SIZE)
+                : resolveChunkSize(columns.length, bulkOptions.chunkSize);
+        const chunks = chunkArray(rows, chunkSize);
+
+        return await handler(
+            async (connection: PoolClient) => {
+                if (mode === "copy") {
+                    return await copyRows(
+                        connection,
+                        `${table} (${columnList})`,
+                        logger,
+                        columns,
+                        chunks,
+                        rows.length,
+                        bulkOptions
+                    );
+                }
+
+                const insertedRows: TEntity[] = [];
+                let insertedCount = 0;
+                let processed = 0;
+
+                for (let i = 0; i < chunks.length; i++) {
+                    const values: any[] = [];
+                    const valueGroups: string[] = [];
+                    let paramIndex = 1;
+
+                    for (const row of chunks[i]) {
+                        const record = row as Record<string, any>;
+                        const rowValues = columns.map((column) => record[column]);
+                        valueGroups.push(`(${rowValues.map(() => `$${paramIndex++}`).join(", ")})`);
+                        values.push(...rowValues);
+                    }
+
+                    const query = `INSERT INTO ${table} (${columnList}) VALUES ${valueGroups.join(", ")}${returningClause}`;
+
+                    logger.debug(`Executing bulk INSERT chunk ${i + 1}/${chunks.length} (${chunks[i].length} rows)`);
+
+                    const result = await connection.query<TEntity>(query, values);
+                    if (hasReturning) {
+                        insertedRows.push(...result.rows);
+                    }
+                    insertedCount += result.rowCount ?? 0;
+                    processed += chunks[i].length;
+
+                    bulkOptions.onProgress?.({ processed, total: rows.length, chunk: i + 1, chunks: chunks.length });
+                }
+
+                return hasReturning ? insertedRows : insertedCount;
+            },
+            { useTransaction: true, ...options }
+        );
+    };
+}
+
+/**
+ * COPY ... FROM STDIN으로 행을 스트리밍합니다
+ * @param target 인용된 대상 테이블과 컬럼 목록 (예: "users" ("id", "name"))
+ */
+async function copyRows(
+    connection: PoolClient,
+    target: string,
+    logger: Logger,
+    columns: string[],
+    chunks: any[][],
+    total: number,
+    bulkOptions: BulkInsertOptions
+): Promise<number> {
+    const format = bulkOptions.format || "text";
+    const toLine = format === "csv" ? toCopyCsvLine : toCopyTextLine;
+    const query = `COPY ${target} FROM STDIN WITH (FORMAT ${format})`;
+
+    logger.debug(`Executing bulk COPY: ${query} (${total} rows)`);
+
+    async function* generateChunks(): AsyncGenerator<string> {
+        let processed = 0;
+        for (let i = 0; i < chunks.length; i++) {
+            yield chunks[i].map((row) => toLine(columns.map((column) => row[column]))).join("");
+            processed += chunks[i].length;
+            bulkOptions.onProgress?.({ processed, total, chunk: i + 1, chunks: chunks.length });
+        }
+    }
+
+    const copyStream = connection.query(copyFrom(query));
+    await pipeline(Readable.from(generateChunks()), copyStream);
+
+    return copyStream.rowCount ?? total;
+}
@@ -0,0 +1,77 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../../repository/createRepository";
+
+interface Product {
+    id: number;
+    name: string;
+    price: string;
+}
+
+const products = createRepository<Product>({ tableName: "bulk_update_products", keys: ["id"] });
+const stocks = createRepository<any>({ tableName: "bulk_update_stocks" });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE bulk_update_products (id INT PRIMARY KEY, name TEXT NOT NULL, price NUMERIC(10, 2) NOT NULL);
+        INSERT INTO bulk_update_products VALUES (1, 'a', 1), (2, 'b', 2);
+        CREATE TABLE bulk_update_stocks (shop INT, sku TEXT, qty INT, PRIMARY KEY (shop, sku));
+        INSERT INTO bulk_update_stocks VALUES (1, 'x', 0), (1, 'y', 0), (2, 'x', 0);
+    `);
+});
+
+describe("bulkUpdate", () => {
+    it("행마다 다른 값을 한 문장으로 갱신", async () => {
+        const updated = await products.bulkUpdate(
+            [
+                { id: 1, price: "10.50" },
+                { id: 2, price: "20.25" },
+            ],
+            { types: { price: "numeric(10,2)" }, returning: ["id", "price"] }
+        );
+
+        expect(updated).toEqual([
+            { id: 1, price: "10.50" },
+            { id: 2, price: "20.25" },
+        ]);
+    });
+
+    it("by 복합 키와 테이블에서 조회한 컬럼 타입으로 청크마다 갱신", async () => {
+        const updated = await stocks.bulkUpdate(
+            [
+                { shop: 1, sku: "x", qty: 5 },
+                { shop: 2, sku: "x", qty: null },
+                { shop: 9, sku: "x", qty: 1 },
+            ],
+            { by: ["shop", "sku"], chunkSize: 2 }
+        );
+
+        expect(updated).toBe(2);
+        expect(executedQueries.filter((sql) => sql.startsWith("UPDATE"))).toEqual([
+            'UPDATE "bulk_update_stocks" AS t SET "qty" = v."qty" FROM (VALUES ($1::integer, $2::text, $3::integer), ($4::integer, $5::text, $6::integer)) AS v("shop", "sku", "qty") WHERE t."shop" = v."shop" AND t."sku" = v."sku"',
+            'UPDATE "bulk_update_stocks" AS t SET "qty" = v."qty" FROM (VALUES ($1::integer, $2::text, $3::integer)) AS v("shop", "sku", "qty") WHERE t."shop" = v."shop" AND t."sku" = v."sku"',
+        ]);
+        const { rows } = await getTestDatabase().query("SELECT shop, sku, qty FROM bulk_update_stocks ORDER BY shop, sku");
+        expect(rows).toEqual([
+            { shop: 1, sku: "x", qty: 5 },
+            { shop: 1, sku: "y", qty: 0 },
+            { shop: 2, sku: "x", qty: null },
+        ]);
+    });
+
+    it("키 컬럼이 없거나 갱신할 컬럼이 없으면 에러", async () => {
+        await expect(stocks.bulkUpdate([{ shop: 1, qty: 1 }])).rejects.toThrow("Bulk update requires key columns.");
+        await expect(products.bulkUpdate([{ name: "x" }])).rejects.toThrow('Bulk update rows must include key column "id".');
+        await expect(products.bulkUpdate([{ id: 1 }])).rejects.toThrow("No columns to update.");
+    });
+
+    it("타입 이름이 아닌 types 값은 실행 전에 거부", async () => {
+        await expect(
+            products.bulkUpdate([{ id: 1, name: "x" }], { types: { name: "text) AS v(id, name); DROP TABLE bulk_update_products; --" } })
+        ).rejects.toThrow("Invalid cast type");
+
+        expect(executedQueries).toEqual([]);
+        const { rows } = await getTestDatabase().query("SELECT name FROM bulk_update_products WHERE id = 1");
+        expect(rows).toEqual([{ name: "a" }]);
+    });
+});
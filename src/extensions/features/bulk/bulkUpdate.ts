@@ -0,0 +1,210 @@
+import { PoolClient, QueryResultRow } from "pg";
+import { handler } from "../../../utils/transaction";
+import { HandlerOption } from "../../../interfaces/HandlerOption";
+import { Logger } from "../../../utils/logger";
+import { assertCastType, ColumnQuoter, quoteColumn, quoteQualifiedName } from "../../../utils/identifier";
+import { BulkProgress, chunkArray, resolveChunkSize } from "./chunk";
+
+/**
+ * 대상 테이블 / VALUES 목록 별칭
+ */
+const TARGET_ALIAS = "t";
+const VALUES_ALIAS = "v";
+
+/**
+ * 테이블별 컬럼 타입 캐시
+ */
+const columnTypeCache = new Map<string, Record<string, string>>();
+
+/**
+ * 벌크 UPDATE 옵션
+ */
+export interface BulkUpdateOptions {
+    /**
+     * 행을 찾을 기준 컬럼 목록
+     * @default Repository keys
+     */
+    by?: string[];
+
+    /**
+     * 컬럼별 SQL 타입 (예: { id: "integer", price: "numeric(10,2)" })
+     * 지정하지 않은 컬럼은 pg_attribute에서 조회한 타입으로 캐스팅합니다
+     * 타입 이름 형식이 아니면 (예: "int; DROP TABLE x") 에러를 던집니다
+     */
+    types?: Record<string, string>;
+
+    /**
+     * 청크당 행 수 (파라미터 제한을 넘지 않도록 자동으로 줄어듭니다)
+     */
+    chunkSize?: number;
+
+    /**
+     * RETURNING 컬럼 (설정하면 갱신된 행 목록 반환)
+     */
+    returning?: string[];
+
+    /**
+     * 청크 처리 후 호출되는 진행 상황 콜백
+     */
+    onProgress?: (progress: BulkProgress) => void;
+}
+
+/**
+ * 테이블의 컬럼 타입을 조회합니다 (format_type 결과, 캐시 사용)
+ */
+async function getColumnTypes(connection: PoolClient, tableName: string): Promise<Record<string, string>> {
+    const cached = columnTypeCache.get(tableName);
+    if (cached) {
+        return cached;
+    }
+
+    const result = await connection.query<{ name: string; type: string }>(
+        `SELECT attname AS name, format_type(atttypid, atttypmod) AS type
+         FROM pg_attribute
+         WHERE attrelid = $1::regclass AND attnum > 0 AND NOT attisdropped`,
+        [quoteQualifiedName(tableName)]
+    );
+
+    const types: Record<string, string> = {};
+    for (const row of result.rows) {
+        types[row.name] = row.type;
+    }
+    columnTypeCache.set(tableName, types);
+    return types;
+}
+
+/**
+ * 컬럼 타입 캐시를 초기화합니다 (스키마 변경 후 사용)
+ */
+export function clearColumnTypeCache(tableName?: string): void {
+    if (tableName) {
+        columnTypeCache.delete(tableName);
+    } else {
+        columnTypeCache.clear();
+    }
+}
+
+/**
+ * RETURNING 컬럼을 대상 테이블 별칭으로 한정합니다
+ * 대상 테이블과 VALUES 목록의 별칭은 모두 기본 허용 목록으로 검사합니다
+ */
+function qualifyReturning(columns: string[], quote: ColumnQuoter): string {
+    const scoped = quote.withQualifiers([TARGET_ALIAS, VALUES_ALIAS]);
+    return columns
+        .map((column) => scoped(column.includes(".") ? column : `${TARGET_ALIAS}.${column}`))
+        .join(", ");
+}
+
+/**
+ * 벌크 UPDATE 함수 타입
+ */
+export type BulkUpdateFunction<TEntity extends QueryResultRow = any> = (
+    rows: Partial<TEntity>[],
+    bulkOptions?: BulkUpdateOptions,
+    options?: HandlerOption
+) => Promise<TEntity[] | number | null>;
+
+/**
+ * 벌크 UPDATE 함수를 생성합니다
+ * 행마다 다른 값을 UPDATE ... FROM (VALUES ...) 한 문장으로 갱신하며,
+ * 모든 청크는 하나의 트랜잭션 안에서 실행됩니다
+ * - returning을 설정한 경우: 갱신된 행 목록 반환
+ * - 설정하지 않은 경우: 갱신된 행 수 반환
+ */
+export function createBulkUpdateFunction<TEntity extends QueryResultRow = any>(
+    tableName: string,
+    logger: Logger,
+    keys: string[] = [],
+    quote: ColumnQuoter = quoteColumn
+): BulkUpdateFunction<TEntity> {
+    return async function bulkUpdate(
+        rows: Partial<TEntity>[],
+        bulkOptions: BulkUpdateOptions = {},
+        options?: HandlerOption
+    ): Promise<TEntity[] | number | null> {
+        const by = bulkOptions.by || keys;
+        const hasReturning = bulkOptions.returning !== undefined && bulkOptions.returning.length > 0;
+
+        if (by.length === 0) {
+            throw new Error("Bulk update requires key columns. Set repository keys or the 'by' option.");
+        }
+        if (rows.length === 0) {
+            return hasReturning ? [] : 0;
+        }
+
+        const columns = Object.keys(rows[0]);
+        const setColumns = columns.filter((column) => !by.includes(column));
+
+        for (const key of by) {
+            if (!columns.includes(key)) {
+                throw new Error(`Bulk update rows must include key column "${key}".`);
+            }
+        }
+        if (setColumns.length === 0) {
+            throw new Error("No columns to update.");
+        }
+
+        const chunks = chunkArray(rows, resolveChunkSize(columns.length, bulkOptions.chunkSize));
+
+        // 식별자 오류는 연결을 얻기 전에 던집니다
+        const setSql = setColumns.map((column) => `${quote(column)} = ${VALUES_ALIAS}.${quote(column)}`).join(", ");
+        const joinSql = by
+            .map((key) => `${TARGET_ALIAS}.${quote(key)} = ${VALUES_ALIAS}.${quote(key)}`)
+            .join(" AND ");
+        const valuesColumnList = columns.map((column) => quote(column)).join(", ");
+        const returningClause = hasReturning ? ` RETURNING ${qualifyReturning(bulkOptions.returning!, quote)}` : "";
+        // 지정한 타입은 SQL에 그대로 삽입되므로 검증합니다
+        for (const type of Object.values(bulkOptions.types ?? {})) {
+            assertCastType(type);
+        }
+
+        return await handler(
+            async (connection: PoolClient) => {
+                const tableTypes = await getColumnTypes(connection, tableName);
+                const types = { ...tableTypes, ...bulkOptions.types };
+
+                for (const column of columns) {
+                    if (!types[column]) {
+                        throw new Error(`Unknown column type for "${column}" in ${tableName}.`);
+                    }
+                }
+
+                const updatedRows: TEntity[] = [];
+                let updatedCount = 0;
+                let processed = 0;
+
+                for (let i = 0; i < chunks.length; i++) {
+                    const values: any[] = [];
+                    const valueGroups: string[] = [];
+                    let paramIndex = 1;
+
+                    for (const row of chunks[i]) {
+                        const record = row as Record<string, any>;
+                        const placeholders = columns.map((column) => `$${paramIndex++}::${types[column]}`);
+                        valueGroups.push(`(${placeholders.join(", ")})`);
+                        values.push(...columns.map((column) => record[column]));
+                    }
+
+                    const query =
+                        `UPDATE ${quoteQualifiedName(tableName)} AS ${TARGET_ALIAS} SET ${setSql}` +
+                        ` FROM (VALUES ${valueGroups.join(", ")}) AS ${VALUES_ALIAS}(${valuesColumnList})` +
+                        ` WHERE ${joinSql}${returningClause}`;
+
+                    logger.debug(`Executing bulk UPDATE chunk ${i + 1}/${chunks.length} (${chunks[i].length} rows)`);
+
+                    const result = await connection.query<TEntity>(query, values);
+                    if (hasReturning) {
+                        updatedRows.push(...result.rows);
+                    }
+                    updatedCount += result.rowCount ?? 0;
+                    processed += chunks[i].length;
+
+                    bulkOptions.onProgress?.({ processed, total: rows.length, chunk: i + 1, chunks: chunks.length });
+                }
+
+                return hasReturning ? updatedRows : updatedCount;
+            },
+            { useTransaction: true, ...options }
+        );
+    };
+}
@@ -0,0 +1,57 @@
+/**
+ * PostgreSQL 한 문장에서 사용할 수 있는 최대 바인드 파라미터 수
+ */
+export const MAX_QUERY_PARAMETERS = 65535;
+
+/**
+ * 벌크 작업 진행 상황
+ */
+export interface BulkProgress {
+    /**
+     * 지금까지 처리한 행 수
+     */
+    processed: number;
+
+    /**
+     * 전체 행 수
+     */
+    total: number;
+
+    /**
+     * 현재 청크 번호 (1부터 시작)
+     */
+    chunk: number;
+
+    /**
+     * 전체 청크 수
+     */
+    chunks: number;
+}
+
+/**
+ * 행당 파라미터 수를 고려하여 청크 크기를 결정합니다
+ * 요청한 크기가 파라미터 제한을 넘으면 제한 이내로 줄입니다
+ * @param paramsPerRow 행당 바인드 파라미터 수
+ * @param requested 요청한 청크 크기 (선택사항)
+ */
+export function resolveChunkSize(paramsPerRow: number, requested?: number): number {
+    const maxRows = Math.max(1, Math.floor(MAX_QUERY_PARAMETERS / Math.max(1, paramsPerRow)));
+    if (requested === undefined) {
+        return maxRows;
+    }
+    if (!Number.isInteger(requested) || requested < 1) {
+        throw new Error(`Invalid chunkSize: ${requested}. Chunk size must be a positive integer.`);
+    }
+    return Math.min(requested, maxRows);
+}
+
+/**
+ * 배열을 지정한 크기의 청크로 나눕니다
+ */
+export function chunkArray<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
@@ -0,0 +1,4 @@
+export * from "./chunk";
+export * from "./bulkInsert";
+export * from "./bulkUpdate";
+export * from "./bulkDelete";
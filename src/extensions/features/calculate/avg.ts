@@ -0,0 +1,26 @@
+import { QueryResultRow } from "pg";
+import { Logger } from "../../../utils/logger";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+import { ColumnRef } from "../../../repository/select/select";
+import { CalculateBuilder, ICalculateBuilder } from "./calculate";
+
+/**
+ * AVG 함수 타입
+ */
+export type AvgFunction<TEntity extends QueryResultRow = any> = (
+    column: ColumnRef<TEntity>
+) => ICalculateBuilder<TEntity, number>;
+
+/**
+ * AVG 집계 함수를 생성합니다
+ * 결과는 기본적으로 number로 파싱됩니다
+ */
+export function createAvgFunction<TEntity extends QueryResultRow = any>(
+    tableName: string,
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
+): AvgFunction<TEntity> {
+    return function avg(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, number> {
+        return new CalculateBuilder<TEntity, number>(tableName, logger, "AVG", column, {}, quote);
+    };
+}
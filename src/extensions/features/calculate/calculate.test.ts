@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../../repository/createRepository";
+import { gt } from "../../../repository/select/where/operators";
+
+const orders = createRepository<any>({ tableName: "calculate_orders", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE calculate_orders (id INT PRIMARY KEY, status TEXT NOT NULL, user_id INT NOT NULL, amount NUMERIC NOT NULL, big BIGINT NOT NULL, created_on DATE NOT NULL);
+        INSERT INTO calculate_orders VALUES
+            (1, 'paid', 1, 10.5, 9007199254740993, '2024-01-03'),
+            (2, 'paid', 2, 20, 1, '2024-01-01'),
+            (3, 'new', 1, 5, 1, '2024-02-01');
+    `);
+});
+
+describe("repository 집계 빌더", () => {
+    it("sum/avg는 기본적으로 number로 파싱", async () => {
+        expect(await orders.sum("amount").execute()).toBe(35.5);
+        expect(await orders.avg("amount").where({ status: "paid" }).execute()).toBe(15.25);
+        expect(executedQueries[1]).toBe('SELECT AVG("amount") AS "value" FROM "calculate_orders" WHERE "status" = $1');
+    });
+
+    it("parse 모드: bigint, string, raw, 커스텀 함수", async () => {
+        expect(await orders.sum("big").parse("bigint").execute()).toBe(9007199254740995n);
+        expect(await orders.sum("amount").parse("string").execute()).toBe("35.5");
+        expect(await orders.sum("amount").parse((value) => `${value}원`).execute()).toBe("35.5원");
+        expect(await orders.min("created_on").execute()).toEqual(new Date(2024, 0, 1));
+        expect(await orders.max("created_on").parse("raw").execute()).toEqual(new Date(2024, 1, 1));
+    });
+
+    it("대상 행이 없으면 null, countDistinct는 0", async () => {
+        expect(await orders.sum("amount").where({ status: "none" }).execute()).toBeNull();
+        expect(await orders.countDistinct("user_id").where({ status: "none" }).execute()).toBe(0);
+        expect(await orders.countDistinct("user_id").execute()).toBe(2);
+    });
+
+    it("groupBy는 { key, value }[]를 key 순서로 반환", async () => {
+        const byStatus = await orders.sum("amount").groupBy<string>("status").execute();
+        const byUser = await orders.sum("amount").where(gt("amount", 6)).groupBy("user_id").orderBy("value", "DESC").execute();
+
+        expect(byStatus).toEqual([
+            { key: "new", value: 5 },
+            { key: "paid", value: 30.5 },
+        ]);
+        expect(byUser).toEqual([
+            { key: 2, value: 20 },
+            { key: 1, value: 10.5 },
+        ]);
+        expect(executedQueries[1]).toBe(
+            'SELECT "user_id" AS "key", SUM("amount") AS "value" FROM "calculate_orders" WHERE "amount" > $1 GROUP BY "user_id" ORDER BY "value" DESC'
+        );
+    });
+});
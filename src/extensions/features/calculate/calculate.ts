@@ -0,0 +1,147 @@
+import { PoolClient, QueryResultRow } from "pg";
+import { handler } from "../../../utils/transaction";
+import { HandlerOption } from "../../../interfaces/HandlerOption";
+import { Logger } from "../../../utils/logger";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+import { ColumnRef, SelectBuilder } from "../../../repository/select/select";
+import { AggregateExpression, AggregateFunction } from "../../../repository/select/aggregate/aggregate";
+import { mergeWhereInput, WhereInput } from "../../../repository/select/where/where";
+import { GroupedCalculateBuilder, IGroupedCalculateBuilder } from "./groupBy";
+
+/**
+ * 집계 결과 파싱 방식
+ * PostgreSQL은 numeric/bigint 결과를 문자열로 반환하므로 변환 방식을 지정합니다
+ * - "number": Number로 변환 (정밀도 손실 가능)
+ * - "bigint": BigInt로 변환 (정수 결과에만 사용)
+ * - "string": 문자열 그대로 반환
+ * - "raw": pg 드라이버가 반환한 값을 그대로 반환 (MIN/MAX 날짜 등)
+ * - 함수: 커스텀 파서
+ */
+export type NumericParseMode = "number" | "bigint" | "string" | "raw" | ((value: any) => any);
+
+/**
+ * 집계 결과 값을 파싱합니다 (NULL은 그대로 null 반환)
+ */
+export function parseAggregateValue(value: any, mode: NumericParseMode): any {
+    if (value === null || value === undefined) {
+        return null;
+    }
+    if (typeof mode === "function") {
+        return mode(value);
+    }
+    switch (mode) {
+        case "number":
+            return Number(value);
+        case "bigint":
+            return BigInt(value);
+        case "string":
+            return String(value);
+        default:
+            return value;
+    }
+}
+
+/**
+ * 집계 빌더 인터페이스
+ * TValue: 파싱된 결과 값 타입
+ */
+export interface ICalculateBuilder<TEntity extends QueryResultRow = any, TValue = number> {
+    /**
+     * WHERE 조건 추가 (객체 또는 ConditionNode)
+     */
+    where(conditions: WhereInput<TEntity>): ICalculateBuilder<TEntity, TValue>;
+
+    /**
+     * 결과 파싱 방식 설정
+     */
+    parse(mode: "number"): ICalculateBuilder<TEntity, number>;
+    parse(mode: "bigint"): ICalculateBuilder<TEntity, bigint>;
+    parse(mode: "string"): ICalculateBuilder<TEntity, string>;
+    parse(mode: "raw"): ICalculateBuilder<TEntity, any>;
+    parse<TParsed>(parser: (value: any) => TParsed): ICalculateBuilder<TEntity, TParsed>;
+
+    /**
+     * 컬럼별로 그룹화하여 { key, value }[] 형태로 집계
+     */
+    groupBy<TKey = any>(column: ColumnRef<TEntity>): IGroupedCalculateBuilder<TEntity, TKey, TValue>;
+
+    /**
+     * 쿼리 실행 (대상 행이 없으면 SUM/AVG/MIN/MAX는 null)
+     */
+    execute(options?: HandlerOption): Promise<TValue | null>;
+}
+
+/**
+ * 집계 빌더 구현체
+ * 내부적으로 SelectBuilder를 사용하여 SQL을 구성합니다
+ */
+export class CalculateBuilder<TEntity extends QueryResultRow = any, TValue = number>
+    implements ICalculateBuilder<TEntity, TValue>
+{
+    private tableName: string;
+    private logger: Logger;
+    private quote: ColumnQuoter;
+    private expression: AggregateExpression<"value", any>;
+    private whereConditions: WhereInput = null;
+    private parseMode: NumericParseMode;
+
+    constructor(
+        tableName: string,
+        logger: Logger,
+        fn: AggregateFunction,
+        column: string,
+        options: { distinct?: boolean; parse?: NumericParseMode } = {},
+        quote: ColumnQuoter = quoteColumn
+    ) {
+        this.tableName = tableName;
+        this.logger = logger;
+        this.quote = quote;
+        this.expression = new AggregateExpression(fn, column, "value", options.distinct ?? false);
+        this.parseMode = options.parse ?? "number";
+    }
+
+    where(conditions: WhereInput<TEntity>): ICalculateBuilder<TEntity, TValue> {
+        this.whereConditions = mergeWhereInput(this.whereConditions, conditions);
+        return this;
+    }
+
+    parse(mode: NumericParseMode): ICalculateBuilder<TEntity, any> {
+        this.parseMode = mode;
+        return this;
+    }
+
+    groupBy<TKey = any>(column: ColumnRef<TEntity>): IGroupedCalculateBuilder<TEntity, TKey, TValue> {
+        return new GroupedCalculateBuilder<TEntity, TKey, TValue>(
+            this.tableName,
+            this.logger,
+            this.expression,
+            column,
+            this.whereConditions,
+            this.parseMode,
+            this.quote
+        );
+    }
+
+    /**
+     * 집계 쿼리를 SQL과 파라미터로 변환
+     */
+    buildQuery(startIndex: number = 1): { sql: string; params: any[] } {
+        const builder = new SelectBuilder(this.tableName, this.logger, [this.expression], [], this.quote);
+        builder.where(this.whereConditions);
+        return builder.buildQuery(startIndex);
+    }
+
+    async execute(options?: HandlerOption): Promise<TValue | null> {
+        const { sql: query, params } = this.buildQuery();
+
+        return await handler(
+            async (connection: PoolClient) => {
+                this.logger.debug(`Executing ${this.expression.fn}: ${query}`, params);
+
+                const result = await connection.query<{ value: any }>(query, params);
+                return parseAggregateValue(result.rows[0]?.value, this.parseMode) as TValue | null;
+            },
+            { useTransaction: false, ...options }
+        );
+    }
+}
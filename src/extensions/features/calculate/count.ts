@@ -0,0 +1,26 @@
+import { QueryResultRow } from "pg";
+import { Logger } from "../../../utils/logger";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+import { ColumnRef } from "../../../repository/select/select";
+import { CalculateBuilder, ICalculateBuilder } from "./calculate";
+
+/**
+ * COUNT(DISTINCT) 함수 타입
+ */
+export type CountDistinctFunction<TEntity extends QueryResultRow = any> = (
+    column: ColumnRef<TEntity>
+) => ICalculateBuilder<TEntity, number>;
+
+/**
+ * COUNT(DISTINCT column) 집계 함수를 생성합니다
+ * 결과는 기본적으로 number로 파싱됩니다
+ */
+export function createCountDistinctFunction<TEntity extends QueryResultRow = any>(
+    tableName: string,
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
+): CountDistinctFunction<TEntity> {
+    return function countDistinct(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, number> {
+        return new CalculateBuilder<TEntity, number>(tableName, logger, "COUNT", column, { distinct: true }, quote);
+    };
+}
@@ -0,0 +1,126 @@
+import { PoolClient, QueryResultRow } from "pg";
+import { handler } from "../../../utils/transaction";
+import { HandlerOption } from "../../../interfaces/HandlerOption";
+import { Logger } from "../../../utils/logger";
+import { ColumnQuoter, quoteColumn, quoteIdentifier } from "../../../utils/identifier";
+import { SelectBuilder } from "../../../repository/select/select";
+import { AggregateExpression } from "../../../repository/select/aggregate/aggregate";
+import { mergeWhereInput, WhereInput } from "../../../repository/select/where/where";
+import { NumericParseMode, parseAggregateValue } from "./calculate";
+
+/**
+ * 그룹별 집계 결과 행
+ */
+export interface GroupedValue<TKey = any, TValue = number> {
+    key: TKey;
+    value: TValue | null;
+}
+
+/**
+ * 정렬에 쓰는 결과 별칭(key, value)을 허용 목록 검사 없이 인용하는 변환 함수
+ */
+function allowResultAliases(quote: ColumnQuoter): ColumnQuoter {
+    const wrapped = ((column: string) =>
+        column === "key" || column === "value" ? quoteIdentifier(column) : quote(column)) as ColumnQuoter;
+    wrapped.withQualifiers = (aliases, joined) => allowResultAliases(quote.withQualifiers(aliases, joined));
+    return wrapped;
+}
+
+/**
+ * 그룹별 집계 빌더 인터페이스
+ */
+export interface IGroupedCalculateBuilder<TEntity extends QueryResultRow = any, TKey = any, TValue = number> {
+    /**
+     * WHERE 조건 추가 (객체 또는 ConditionNode)
+     */
+    where(conditions: WhereInput<TEntity>): IGroupedCalculateBuilder<TEntity, TKey, TValue>;
+
+    /**
+     * 정렬 기준 설정 (기본: key ASC)
+     */
+    orderBy(target: "key" | "value", order?: "ASC" | "DESC"): IGroupedCalculateBuilder<TEntity, TKey, TValue>;
+
+    /**
+     * 쿼리 실행
+     */
+    execute(options?: HandlerOption): Promise<GroupedValue<TKey, TValue>[] | null>;
+}
+
+/**
+ * 그룹별 집계 빌더 구현체
+ */
+export class GroupedCalculateBuilder<TEntity extends QueryResultRow = any, TKey = any, TValue = number>
+    implements IGroupedCalculateBuilder<TEntity, TKey, TValue>
+{
+    private tableName: string;
+    private logger: Logger;
+    private quote: ColumnQuoter;
+    private expression: AggregateExpression<"value", any>;
+    private groupColumn: string;
+    private whereConditions: WhereInput;
+    private parseMode: NumericParseMode;
+    private orderByItem: { column: "key" | "value"; order: "ASC" | "DESC" } = { column: "key", order: "ASC" };
+
+    constructor(
+        tableName: string,
+        logger: Logger,
+        expression: AggregateExpression<"value", any>,
+        groupColumn: string,
+        whereConditions: WhereInput,
+        parseMode: NumericParseMode,
+        quote: ColumnQuoter = quoteColumn
+    ) {
+        this.tableName = tableName;
+        this.logger = logger;
+        this.quote = quote;
+        this.expression = expression;
+        this.groupColumn = groupColumn;
+        this.whereConditions = whereConditions;
+        this.parseMode = parseMode;
+    }
+
+    where(conditions: WhereInput<TEntity>): IGroupedCalculateBuilder<TEntity, TKey, TValue> {
+        this.whereConditions = mergeWhereInput(this.whereConditions, conditions);
+        return this;
+    }
+
+    orderBy(target: "key" | "value", order: "ASC" | "DESC" = "ASC"): IGroupedCalculateBuilder<TEntity, TKey, TValue> {
+        this.orderByItem = { column: target, order };
+        return this;
+    }
+
+    /**
+     * 그룹별 집계 쿼리를 SQL과 파라미터로 변환
+     */
+    buildQuery(startIndex: number = 1): { sql: string; params: any[] } {
+        // 그룹 컬럼은 먼저 검사하고, 정렬에 쓰는 결과 별칭(key, value)은 허용 목록 검사에서 제외
+        this.quote(this.groupColumn);
+        const quote = allowResultAliases(this.quote);
+        const builder = new SelectBuilder(
+            this.tableName,
+            this.logger,
+            [`${this.groupColumn} AS key`, this.expression],
+            [],
+            quote
+        );
+        builder.where(this.whereConditions).groupBy(this.groupColumn).orderBy(this.orderByItem);
+        return builder.buildQuery(startIndex);
+    }
+
+    async execute(options?: HandlerOption): Promise<GroupedValue<TKey, TValue>[] | null> {
+        const { sql: query, params } = this.buildQuery();
+
+        return await handler(
+            async (connection: PoolClient) => {
+                this.logger.debug(`Executing grouped ${this.expression.fn}: ${query}`, params);
+
+                const result = await connection.query<{ key: TKey; value: any }>(query, params);
+                return result.rows.map((row) => ({
+                    key: row.key,
+                    value: parseAggregateValue(row.value, this.parseMode) as TValue | null,
+                }));
+            },
+            { useTransaction: false, ...options }
+        );
+    }
+}
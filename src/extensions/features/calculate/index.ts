@@ -0,0 +1,7 @@
+export * from "./calculate";
+export * from "./groupBy";
+export * from "./sum";
+export * from "./avg";
+export * from "./min";
+export * from "./max";
+export * from "./count";
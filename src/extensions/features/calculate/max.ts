@@ -0,0 +1,26 @@
+import { QueryResultRow } from "pg";
+import { Logger } from "../../../utils/logger";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+import { ColumnRef } from "../../../repository/select/select";
+import { CalculateBuilder, ICalculateBuilder } from "./calculate";
+
+/**
+ * MAX 함수 타입
+ */
+export type MaxFunction<TEntity extends QueryResultRow = any> = (
+    column: ColumnRef<TEntity>
+) => ICalculateBuilder<TEntity, any>;
+
+/**
+ * MAX 집계 함수를 생성합니다
+ * 결과는 pg 드라이버가 반환한 값 그대로입니다 (숫자 컬럼은 parse("number") 사용)
+ */
+export function createMaxFunction<TEntity extends QueryResultRow = any>(
+    tableName: string,
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
+): MaxFunction<TEntity> {
+    return function max(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, any> {
+        return new CalculateBuilder<TEntity, any>(tableName, logger, "MAX", column, { parse: "raw" }, quote);
+    };
+}
@@ -0,0 +1,26 @@
+import { QueryResultRow } from "pg";
+import { Logger } from "../../../utils/logger";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+import { ColumnRef } from "../../../repository/select/select";
+import { CalculateBuilder, ICalculateBuilder } from "./calculate";
+
+/**
+ * MIN 함수 타입
+ */
+export type MinFunction<TEntity extends QueryResultRow = any> = (
+    column: ColumnRef<TEntity>
+) => ICalculateBuilder<TEntity, any>;
+
+/**
+ * MIN 집계 함수를 생성합니다
+ * 결과는 pg 드라이버가 반환한 값 그대로입니다 (숫자 컬럼은 parse("number") 사용)
+ */
+export function createMinFunction<TEntity extends QueryResultRow = any>(
+    tableName: string,
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
+): MinFunction<TEntity> {
+    return function min(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, any> {
+        return new CalculateBuilder<TEntity, any>(tableName, logger, "MIN", column, { parse: "raw" }, quote);
+    };
+}
@@ -0,0 +1,26 @@
+import { QueryResultRow } from "pg";
+import { Logger } from "../../../utils/logger";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+import { ColumnRef } from "../../../repository/select/select";
+import { CalculateBuilder, ICalculateBuilder } from "./calculate";
+
+/**
+ * SUM 함수 타입
+ */
+export type SumFunction<TEntity extends QueryResultRow = any> = (
+    column: ColumnRef<TEntity>
+) => ICalculateBuilder<TEntity, number>;
+
+/**
+ * SUM 집계 함수를 생성합니다
+ * 결과는 기본적으로 number로 파싱됩니다
+ */
+export function createSumFunction<TEntity extends QueryResultRow = any>(
+    tableName: string,
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
+): SumFunction<TEntity> {
+    return function sum(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, number> {
+        return new CalculateBuilder<TEntity, number>(tableName, logger, "SUM", column, {}, quote);
+    };
+}
@@ -13,17 +13,26 @@
 // // Cache exports
 // export * from "./cache";
 
-// // Pagination exports
-// export * from "./pagination";
+// Pagination exports
+export * from "./pagination";
 
-// // Calculate exports
-// export * from "./calculate";
+// Calculate exports
+export * from "./calculate";
 
-// // Bulk exports
-// export * from "./bulk";
+// Bulk exports
+export * from "./bulk";
 
-// // Raw exports
-// export * from "./raw";
+// Stream exports
+export * from "./stream";
+
+// Raw exports
+export * from "./raw";
+
+// Queue exports
+export * from "./queue";
+
+// Notify exports
+export * from "./notify";
 
 // // Schema exports
 // export * from "./schema";
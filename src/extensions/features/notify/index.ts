@@ -0,0 +1,2 @@
+export * from "./notify";
+export * from "./listener";
\ No newline at end of file
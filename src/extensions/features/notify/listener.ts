@@ -0,0 +1,365 @@
+import { Client, Notification } from "pg";
+import { getConnectionPool } from "../../../configs/env";
+import { initConnectionConfig } from "../../../utils/connection";
+import { getLogger } from "../../../utils/logger";
+import { quoteIdentifier } from "../../../utils/identifier";
+
+/**
+ * 재연결 최대 대기 시간 (ms)
+ */
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * 알림 메타데이터
+ */
+export interface NotificationInfo {
+    channel: string;
+
+    /**
+     * 알림을 보낸 서버 프로세스 ID
+     */
+    processId: number;
+
+    /**
+     * 파싱 전 원본 페이로드
+     */
+    raw: string;
+}
+
+/**
+ * 알림 핸들러 (JSON이 아닌 페이로드는 문자열 그대로 전달)
+ */
+export type NotificationHandler<TPayload = any> = (
+    payload: TPayload,
+    info: NotificationInfo
+) => void | Promise<void>;
+
+/**
+ * 구독 옵션
+ */
+export interface SubscribeOptions {
+    /**
+     * 연결이 끊겼다가 다시 LISTEN한 뒤 호출 (끊긴 동안의 알림은 유실되므로 캐시 비우기 등에 사용)
+     */
+    onReconnect?: () => void | Promise<void>;
+
+    /**
+     * 핸들러 에러를 받을 훅 (생략하면 로그 출력)
+     */
+    onError?: (error: unknown) => void;
+}
+
+/**
+ * 구독 핸들
+ */
+export interface Subscription {
+    readonly channel: string;
+
+    /**
+     * 구독 해제 (채널의 마지막 구독이면 UNLISTEN, 모든 구독이 끝나면 연결 종료)
+     */
+    unsubscribe(): Promise<void>;
+}
+
+/**
+ * 채널별 구독 항목
+ */
+interface SubscriptionEntry {
+    handler: NotificationHandler;
+    options: SubscribeOptions;
+}
+
+/**
+ * 페이로드를 JSON으로 파싱합니다 (실패하면 원본 문자열)
+ */
+function parsePayload(raw: string | undefined): any {
+    if (raw === undefined || raw === "") {
+        return raw ?? null;
+    }
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+}
+
+/**
+ * LISTEN 전용 연결 관리자
+ * 풀 연결은 짧게 빌려 쓰고 반환되므로 구독에는 풀 밖의 전용 Client 하나를 사용하고,
+ * 연결이 끊기면 지수 백오프로 다시 연결해 모든 채널을 다시 LISTEN합니다
+ */
+class NotificationListener {
+    private readonly logger = getLogger();
+    private readonly channels = new Map<string, Set<SubscriptionEntry>>();
+    private client: Client | null = null;
+    private listening = new Set<string>();
+    private connecting: Promise<Client> | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private reconnectAttempt = 0;
+
+    /**
+     * 구독 추가 (새 채널이면 LISTEN)
+     */
+    async add(channel: string, entry: SubscriptionEntry): Promise<void> {
+        const entries = this.channels.get(channel) ?? new Set<SubscriptionEntry>();
+        entries.add(entry);
+        this.channels.set(channel, entries);
+
+        try {
+            const client = await this.connect();
+            // 새로 연 연결은 open()에서 이미 LISTEN했을 수 있습니다
+            if (!this.listening.has(channel)) {
+                this.listening.add(channel);
+                await client.query(`LISTEN ${quoteIdentifier(channel)}`);
+            }
+        } catch (e) {
+            await this.remove(channel, entry);
+            throw e;
+        }
+    }
+
+    /**
+     * 구독 제거 (채널의 마지막 구독이면 UNLISTEN)
+     */
+    async remove(channel: string, entry: SubscriptionEntry): Promise<void> {
+        const entries = this.channels.get(channel);
+        if (!entries || !entries.delete(entry) || entries.size > 0) {
+            return;
+        }
+        this.channels.delete(channel);
+
+        if (this.channels.size === 0) {
+            await this.close();
+        } else if (this.client && this.listening.delete(channel)) {
+            await this.client.query(`UNLISTEN ${quoteIdentifier(channel)}`);
+        }
+    }
+
+    /**
+     * 전용 연결 종료 (재연결 중단)
+     * 연결을 여는 중이면 열린 뒤에 닫습니다 (모든 구독이 해제되었으면 open()이 스스로 닫음)
+     */
+    async close(): Promise<void> {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        if (this.connecting) {
+            await this.connecting.catch(() => undefined);
+        }
+        // 기다리는 동안 새로 구독했으면 그 구독이 연결을 사용합니다
+        if (this.channels.size > 0) {
+            return;
+        }
+        const client = this.client;
+        this.client = null;
+        if (client) {
+            this.detach(client);
+            await client.end().catch(() => undefined);
+        }
+    }
+
+    /**
+     * 모든 구독 해제 후 연결 종료
+     */
+    async clear(): Promise<void> {
+        this.channels.clear();
+        await this.close();
+    }
+
+    private async connect(): Promise<Client> {
+        if (this.client) {
+            return this.client;
+        }
+        if (!this.connecting) {
+            this.connecting = this.open().finally(() => {
+                this.connecting = null;
+            });
+        }
+        return await this.connecting;
+    }
+
+    /**
+     * 새 전용 연결을 열고 등록된 모든 채널을 LISTEN
+     */
+    private async open(): Promise<Client> {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+
+        const client = new Client(getConnectionPool().options);
+        client.on("notification", (message: Notification) => this.dispatch(message));
+        client.on("error", (error: Error) => this.handleDisconnect(client, error));
+        client.on("end", () => this.handleDisconnect(client));
+
+        const listening = new Set<string>();
+        try {
+            await client.connect();
+            for (const channel of this.channels.keys()) {
+                listening.add(channel);
+                await client.query(`LISTEN ${quoteIdentifier(channel)}`);
+            }
+            // 연결하는 동안 모든 구독이 해제되었으면 (close/clear) 연결을 남기지 않습니다
+            if (this.channels.size === 0) {
+                throw new Error("LISTEN connection was closed while connecting.");
+            }
+        } catch (e) {
+            this.detach(client);
+            await client.end().catch(() => undefined);
+            throw e;
+        }
+
+        this.client = client;
+        this.listening = listening;
+        return client;
+    }
+
+    /**
+     * 이벤트 핸들러를 떼어내고 이후 에러는 무시합니다 (처리되지 않은 error 이벤트 방지)
+     */
+    private detach(client: Client): void {
+        client.removeAllListeners();
+        client.on("error", () => undefined);
+    }
+
+    private handleDisconnect(client: Client, error?: Error): void {
+        if (client !== this.client) {
+            return;
+        }
+        this.client = null;
+        this.detach(client);
+        client.end().catch(() => undefined);
+
+        if (error) {
+            this.logger.errorWithStack("LISTEN connection lost", error);
+        } else {
+            this.logger.error("LISTEN connection ended");
+        }
+        this.scheduleReconnect();
+    }
+
+    private scheduleReconnect(): void {
+        const config = initConnectionConfig();
+        if (this.reconnectTimer || this.channels.size === 0 || config.reconnect === false) {
+            return;
+        }
+
+        const baseDelay = config.connectionRetryDelay || 1000;
+        const delay = Math.min(baseDelay * Math.pow(2, this.reconnectAttempt), MAX_RECONNECT_DELAY);
+        this.reconnectAttempt++;
+        this.logger.error(`Reconnecting LISTEN connection in ${delay}ms (attempt ${this.reconnectAttempt})`);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            this.connect().then(
+                () => {
+                    this.reconnectAttempt = 0;
+                    this.logger.info(`LISTEN connection restored (${this.channels.size} channels)`);
+                    this.forEachEntry((entry) => entry.options.onReconnect?.());
+                },
+                (error) => {
+                    this.logger.errorWithStack("Failed to reconnect LISTEN connection", error);
+                    this.scheduleReconnect();
+                }
+            );
+        }, delay);
+    }
+
+    private dispatch(message: Notification): void {
+        const entries = this.channels.get(message.channel);
+        if (!entries) {
+            return;
+        }
+        const raw = message.payload ?? "";
+        const payload = parsePayload(message.payload);
+        const info: NotificationInfo = { channel: message.channel, processId: message.processId, raw };
+
+        for (const entry of entries) {
+            this.invoke(entry, () => entry.handler(payload, info));
+        }
+    }
+
+    private forEachEntry(callback: (entry: SubscriptionEntry) => void | Promise<void>): void {
+        for (const entries of this.channels.values()) {
+            for (const entry of entries) {
+                this.invoke(entry, () => callback(entry));
+            }
+        }
+    }
+
+    /**
+     * 구독 콜백 실행 (동기/비동기 에러를 onError 또는 로그로 보고)
+     */
+    private invoke(entry: SubscriptionEntry, callback: () => void | Promise<void>): void {
+        const report = (error: unknown) => {
+            if (entry.options.onError) {
+                entry.options.onError(error);
+            } else {
+                this.logger.errorWithStack("Notification handler error", error);
+            }
+        };
+        try {
+            Promise.resolve(callback()).catch(report);
+        } catch (error) {
+            report(error);
+        }
+    }
+}
+
+/**
+ * 프로세스 전체에서 공유하는 LISTEN 연결
+ */
+let listener: NotificationListener | null = null;
+
+function getListener(): NotificationListener {
+    if (!listener) {
+        listener = new NotificationListener();
+    }
+    return listener;
+}
+
+/**
+ * 채널 구독 (LISTEN)
+ * 모든 구독은 풀 밖의 전용 연결 하나를 공유하며, 연결이 끊기면 자동으로 다시 연결해 LISTEN합니다
+ * 페이로드는 JSON으로 파싱되어 전달됩니다 (notify()로 보낸 값 그대로)
+ * @param channel 채널 이름
+ * @param handler 알림 핸들러
+ * @param options 구독 옵션
+ * @returns LISTEN이 완료된 구독 핸들
+ * @example
+ * const subscription = await subscribe<{ table: string; id: number }>("cache_invalidate", ({ table, id }) => {
+ *     cache.delete(`${table}:${id}`);
+ * }, { onReconnect: () => cache.clear() });
+ */
+export async function subscribe<TPayload = any>(
+    channel: string,
+    handler: NotificationHandler<TPayload>,
+    options: SubscribeOptions = {}
+): Promise<Subscription> {
+    const entry: SubscriptionEntry = { handler, options };
+    const current = getListener();
+    await current.add(channel, entry);
+
+    let active = true;
+    return {
+        channel,
+        async unsubscribe(): Promise<void> {
+            if (!active) {
+                return;
+            }
+            active = false;
+            await current.remove(channel, entry);
+        },
+    };
+}
+
+/**
+ * 모든 구독을 해제하고 LISTEN 연결을 종료합니다 (애플리케이션 종료 시)
+ */
+export async function closeNotificationListener(): Promise<void> {
+    if (listener) {
+        await listener.clear();
+        listener = null;
+    }
+}
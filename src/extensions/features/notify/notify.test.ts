@@ -0,0 +1,131 @@
+import type { EventEmitter } from "events";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { closeNotificationListener, subscribe } from "./listener";
+import { MAX_NOTIFY_PAYLOAD_BYTES, notify } from "./notify";
+// utils/connection을 먼저 불러오면 순환 import 때문에 utils/transaction이 모킹 전 getConnection을 받으므로 notify 뒤에 불러옵니다
+import { transaction } from "../../../middleware/transaction";
+
+const clients = vi.hoisted(() => [] as EventEmitter[]);
+
+// LISTEN 전용 Client를 PGlite의 listen()으로 알림을 받는 가짜 Client로 바꿉니다
+vi.mock("pg", async (importOriginal) => {
+    const actual = await importOriginal<typeof import("pg")>();
+    const { EventEmitter } = await import("events");
+
+    class FakeClient extends EventEmitter {
+        ended = false;
+        private readonly unlisten = new Map<string, () => Promise<void>>();
+
+        constructor() {
+            super();
+            clients.push(this);
+        }
+
+        async connect(): Promise<void> {}
+
+        async query(text: string): Promise<{ rows: never[] }> {
+            const { executedQueries, getTestDatabase } = await import("../../../__tests__/database");
+            executedQueries.push(text);
+            const [, command, channel] = /^(LISTEN|UNLISTEN) "(.+)"$/.exec(text) ?? [];
+            if (command === "LISTEN") {
+                const unlisten = await getTestDatabase().listen(channel, (payload) =>
+                    this.emit("notification", { channel, payload, processId: 1 })
+                );
+                this.unlisten.set(channel, unlisten);
+            } else if (command === "UNLISTEN") {
+                await this.unlisten.get(channel)?.();
+                this.unlisten.delete(channel);
+            }
+            return { rows: [] };
+        }
+
+        async end(): Promise<void> {
+            this.ended = true;
+            for (const unlisten of this.unlisten.values()) {
+                await unlisten();
+            }
+            this.unlisten.clear();
+        }
+    }
+
+    return { ...actual, Client: FakeClient, default: { ...actual, Client: FakeClient } };
+});
+
+beforeAll(async () => {
+    await getTestDatabase().waitReady;
+});
+
+afterEach(async () => {
+    await closeNotificationListener();
+    clients.length = 0;
+});
+
+describe("notify/subscribe", () => {
+    it("notify로 보낸 값은 JSON으로 왕복하고, JSON이 아닌 페이로드는 문자열 그대로 전달", async () => {
+        const received: unknown[] = [];
+        await subscribe("notify_events", (payload, info) => void received.push([payload, info.raw]));
+
+        await notify("notify_events", { id: 1, tags: ["a", "b"], at: null });
+        await getTestDatabase().query("SELECT pg_notify('notify_events', 'not json')");
+
+        await vi.waitFor(() => expect(received).toHaveLength(2));
+        expect(received).toEqual([
+            [{ id: 1, tags: ["a", "b"], at: null }, '{"id":1,"tags":["a","b"],"at":null}'],
+            ["not json", "not json"],
+        ]);
+        expect(executedQueries).toContain("SELECT pg_notify($1, $2)");
+    });
+
+    it("크기 제한을 넘는 페이로드는 보내기 전에 에러", async () => {
+        await expect(notify("notify_events", "x".repeat(MAX_NOTIFY_PAYLOAD_BYTES))).rejects.toThrow(
+            `NOTIFY payload must be smaller than ${MAX_NOTIFY_PAYLOAD_BYTES} bytes`
+        );
+        expect(executedQueries).toEqual([]);
+    });
+
+    it("채널의 마지막 구독을 해제할 때만 UNLISTEN하고, 모두 해제하면 연결 종료", async () => {
+        const first = await subscribe("notify_a", () => undefined);
+        const second = await subscribe("notify_a", () => undefined);
+        const other = await subscribe("notify_b", () => undefined);
+
+        await first.unsubscribe();
+        expect(executedQueries).toEqual(['LISTEN "notify_a"', 'LISTEN "notify_b"']);
+
+        await second.unsubscribe();
+        await second.unsubscribe();
+        expect(executedQueries.at(-1)).toBe('UNLISTEN "notify_a"');
+
+        await other.unsubscribe();
+        expect(clients).toHaveLength(1);
+        expect(clients[0]).toMatchObject({ ended: true });
+    });
+
+    it("연결을 여는 중에 종료하면 연결을 남기지 않고 구독은 에러", async () => {
+        const subscribing = subscribe("notify_closing", () => undefined);
+        await closeNotificationListener();
+
+        await expect(subscribing).rejects.toThrow("LISTEN connection was closed while connecting.");
+        expect(clients).toHaveLength(1);
+        expect(clients[0]).toMatchObject({ ended: true });
+        expect(executedQueries).toEqual([]);
+    });
+
+    it("트랜잭션 안의 notify는 커밋할 때 전달되고 롤백되면 버려짐", async () => {
+        const received: unknown[] = [];
+        await subscribe("notify_orders", (payload) => void received.push(payload));
+
+        await expect(
+            transaction(async () => {
+                await notify("notify_orders", { id: 1 });
+                throw new Error("rollback");
+            })
+        ).rejects.toThrow("rollback");
+        await transaction(async () => {
+            await notify("notify_orders", { id: 2 });
+        });
+
+        await vi.waitFor(() => expect(received).toHaveLength(1));
+        expect(received).toEqual([{ id: 2 }]);
+    });
+});
@@ -0,0 +1,56 @@
+import { PoolClient } from "pg";
+import { handler } from "../../../utils/transaction";
+import { HandlerOption } from "../../../interfaces/HandlerOption";
+import { getLogger } from "../../../utils/logger";
+
+/**
+ * NOTIFY 페이로드 최대 크기 (바이트, 서버 기본 설정 기준 미만이어야 함)
+ */
+export const MAX_NOTIFY_PAYLOAD_BYTES = 8000;
+
+/**
+ * 페이로드를 JSON으로 직렬화합니다 (크기 제한 검사 포함)
+ */
+export function serializeNotifyPayload(payload: unknown): string {
+    const message = JSON.stringify(payload ?? null);
+    const size = Buffer.byteLength(message);
+    if (size >= MAX_NOTIFY_PAYLOAD_BYTES) {
+        throw new Error(
+            `NOTIFY payload must be smaller than ${MAX_NOTIFY_PAYLOAD_BYTES} bytes (got ${size}). Send an id and load the data instead.`
+        );
+    }
+    return message;
+}
+
+/**
+ * 채널에 알림 전송 (pg_notify)
+ * 페이로드는 JSON으로 직렬화되며, subscribe() 핸들러에서 다시 파싱됩니다
+ * transaction() 안에서 호출하면 트랜잭션이 커밋될 때 전달되고 롤백되면 버려집니다
+ * @param channel 채널 이름
+ * @param payload 전달할 값 (JSON 직렬화 가능)
+ * @param options 핸들러 옵션
+ * @returns 전송 여부
+ * @example
+ * await transaction(async () => {
+ *     await productRepository.update().set({ price }).where({ id }).execute();
+ *     await notify("cache_invalidate", { table: "products", id });
+ * });
+ */
+export async function notify<TPayload = any>(
+    channel: string,
+    payload: TPayload,
+    options?: HandlerOption
+): Promise<boolean> {
+    const logger = getLogger();
+    const message = serializeNotifyPayload(payload);
+
+    const result = await handler(
+        async (connection: PoolClient) => {
+            logger.debug(`Executing NOTIFY: ${channel}`, [message]);
+            await connection.query("SELECT pg_notify($1, $2)", [channel, message]);
+            return true;
+        },
+        { useTransaction: false, ...options }
+    );
+    return result === true;
+}
@@ -0,0 +1,81 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../../repository/createRepository";
+import { decodeCursor } from "./cursor";
+
+interface Event {
+    id: number;
+    created_at: Date;
+    local_at: Date;
+}
+
+const events = createRepository<Event>({ tableName: "cursor_events", keys: ["id"] });
+
+beforeAll(async () => {
+    // 1~3번은 마이크로초만 다르고, 4번은 2번과 같은 시각입니다 (id로 동률 처리)
+    await getTestDatabase().exec(`
+        CREATE TABLE cursor_events (id INT PRIMARY KEY, created_at TIMESTAMPTZ NOT NULL, local_at TIMESTAMP NOT NULL);
+        INSERT INTO cursor_events VALUES
+            (1, '2024-01-01 00:00:00.000001+00', '2024-01-01 00:00:00.000001'),
+            (2, '2024-01-01 00:00:00.000002+00', '2024-01-01 00:00:00.000002'),
+            (3, '2024-01-01 00:00:00.000003+00', '2024-01-01 00:00:00.000003'),
+            (4, '2024-01-01 00:00:00.000002+00', '2024-01-01 00:00:00.000002');
+    `);
+});
+
+/**
+ * 한 행씩 끝까지 넘기며 id 목록 수집
+ */
+async function collectIds(column: "created_at" | "local_at", order: "ASC" | "DESC" = "ASC"): Promise<number[]> {
+    const ids: number[] = [];
+    let after: string | null = null;
+    for (let i = 0; i < 10; i++) {
+        const page = await events.select(["id"]).orderBy(column, order).cursorPaginate({ first: 1, after });
+        ids.push(...page!.edges.map((edge) => edge.node.id));
+        if (!page!.pageInfo.hasNextPage) {
+            break;
+        }
+        after = page!.pageInfo.endCursor;
+    }
+    return ids;
+}
+
+describe("cursorPaginate", () => {
+    it("마이크로초만 다른 timestamptz 행을 건너뛰거나 반복하지 않음", async () => {
+        expect(await collectIds("created_at")).toEqual([1, 2, 4, 3]);
+        expect(await collectIds("created_at", "DESC")).toEqual([3, 2, 4, 1]);
+    });
+
+    it("timestamp without time zone 값을 시간대 변환 없이 보존", async () => {
+        expect(await collectIds("local_at")).toEqual([1, 2, 4, 3]);
+    });
+
+    it("커서에는 PostgreSQL 텍스트 표현을 저장하고 결과 행에는 포함하지 않음", async () => {
+        const page = await events.select().orderBy("created_at").cursorPaginate({ first: 1 });
+
+        expect(decodeCursor(page!.pageInfo.endCursor!, 2)).toEqual(["2024-01-01 00:00:00.000001+00", "1"]);
+        expect(Object.keys(page!.edges[0].node).sort()).toEqual(["created_at", "id", "local_at"]);
+    });
+
+    it("before/last로 이전 페이지 조회", async () => {
+        const first = await events.select(["id"]).orderBy("created_at").cursorPaginate({ first: 3 });
+        const previous = await events
+            .select(["id"])
+            .orderBy("created_at")
+            .cursorPaginate({ last: 2, before: first!.pageInfo.endCursor });
+
+        expect(previous!.edges.map((edge) => edge.node.id)).toEqual([1, 2]);
+        expect(previous!.pageInfo).toMatchObject({ hasNextPage: true, hasPreviousPage: false });
+    });
+
+    it("호출자의 빌더를 변경하지 않아 다시 사용할 수 있음", async () => {
+        const builder = events.select(["id"]).orderBy("created_at").limit(2);
+
+        const first = await builder.cursorPaginate({ first: 1 });
+        const second = await builder.cursorPaginate({ first: 1, after: first!.pageInfo.endCursor });
+        const third = await builder.cursorPaginate({ first: 1, after: second!.pageInfo.endCursor });
+
+        expect([first, second, third].map((page) => page!.edges[0].node.id)).toEqual([1, 2, 4]);
+        expect(await builder.execute()).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+});
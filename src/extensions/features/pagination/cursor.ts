@@ -0,0 +1,245 @@
+import { PoolClient } from "pg";
+import { handler } from "../../../utils/transaction";
+import { HandlerOption } from "../../../interfaces/HandlerOption";
+import { Logger } from "../../../utils/logger";
+import { SelectBuilder } from "../../../repository/select/select";
+import { assertLockInTransaction } from "../../../repository/select/lock/lock";
+import { and, ConditionNode, or } from "../../../repository/select/where/conditions";
+import { eq, gt, lt, rowCompare } from "../../../repository/select/where/operators";
+import { quoteColumn } from "../../../utils/identifier";
+import { DEFAULT_PAGE_SIZE } from "./pagination";
+
+/**
+ * 커서 값 컬럼 별칭 접두사 (정렬 컬럼마다 "__cursor_0", "__cursor_1", ...)
+ */
+const CURSOR_COLUMN_PREFIX = "__cursor_";
+
+/**
+ * 정렬 항목 (SelectBuilder의 orderByList와 같은 형태)
+ */
+export interface CursorOrderBy {
+    column: string;
+    order: "ASC" | "DESC";
+}
+
+/**
+ * 커서 페이지네이션 옵션 (Relay Connection 규약)
+ */
+export interface CursorPaginationOptions {
+    /**
+     * 이 커서 이후의 행 조회
+     */
+    after?: string | null;
+
+    /**
+     * 이 커서 이전의 행 조회
+     */
+    before?: string | null;
+
+    /**
+     * 앞에서부터 가져올 개수 (after와 함께 사용)
+     */
+    first?: number;
+
+    /**
+     * 뒤에서부터 가져올 개수 (before와 함께 사용)
+     */
+    last?: number;
+
+    /**
+     * 정렬 조건 (없으면 SelectBuilder의 orderBy 사용)
+     * Repository keys가 정렬에 없으면 동률 처리를 위해 뒤에 추가됩니다
+     */
+    orderBy?: { column: string; order?: "ASC" | "DESC" }[];
+}
+
+/**
+ * 커서 페이지네이션 결과 (Relay Connection 형태)
+ */
+export interface CursorPaginatedResult<T> {
+    edges: { node: T; cursor: string }[];
+    pageInfo: {
+        hasNextPage: boolean;
+        hasPreviousPage: boolean;
+        startCursor: string | null;
+        endCursor: string | null;
+    };
+}
+
+/**
+ * 한정된 컬럼 이름에서 결과 행 키 추출 ("u.created_at" -> "created_at")
+ */
+function columnKey(column: string): string {
+    const parts = column.split(".");
+    return parts[parts.length - 1];
+}
+
+/**
+ * 커서를 인코딩합니다 (정렬 컬럼 값 목록을 base64url JSON으로 변환)
+ * 값은 PostgreSQL의 텍스트 표현이어야 손실이 없습니다 (Date는 마이크로초를 잃음)
+ */
+export function encodeCursor(values: any[]): string {
+    return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+/**
+ * 커서를 디코딩합니다
+ * @throws {Error} 커서 형식이 잘못되었거나 정렬 컬럼 수와 맞지 않는 경우
+ */
+export function decodeCursor(cursor: string, expectedLength: number): any[] {
+    let values: unknown;
+    try {
+        values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch (e) {
+        throw new Error("Invalid cursor.");
+    }
+    if (!Array.isArray(values) || values.length !== expectedLength) {
+        throw new Error("Invalid cursor: it does not match the current ordering.");
+    }
+    return values;
+}
+
+/**
+ * 정렬 목록에 Repository keys를 덧붙여 정렬이 유일하도록 만듭니다
+ */
+function resolveCursorOrderBy(orderByList: CursorOrderBy[], keys: string[]): CursorOrderBy[] {
+    const resolved = [...orderByList];
+    for (const key of keys) {
+        if (!resolved.some((item) => columnKey(item.column) === columnKey(key))) {
+            resolved.push({ column: key, order: "ASC" });
+        }
+    }
+    if (resolved.length === 0) {
+        throw new Error("Cursor pagination requires orderBy or repository keys.");
+    }
+    return resolved;
+}
+
+/**
+ * 커서 위치를 기준으로 이후/이전 행을 찾는 조건을 만듭니다
+ * - 정렬 방향이 모두 같으면 행 값 비교: (a, b) > ($1, $2)
+ * - 방향이 섞여 있으면 전개형: a > $1 OR (a = $1 AND b < $2)
+ * 커서 값은 텍스트로 전달되며, PostgreSQL이 비교 대상 컬럼의 타입으로 해석합니다
+ */
+function buildSeekCondition(orderByList: CursorOrderBy[], values: any[], position: "after" | "before"): ConditionNode {
+    if (values.some((value) => value === null)) {
+        throw new Error("Cursor pagination does not support NULL values in ordering columns.");
+    }
+
+    const operators = orderByList.map((item) => ((item.order === "ASC") === (position === "after") ? ">" : "<"));
+
+    if (operators.every((operator) => operator === operators[0])) {
+        return rowCompare(
+            orderByList.map((item) => item.column),
+            operators[0],
+            values
+        );
+    }
+
+    const branches = orderByList.map((item, i) => {
+        const compare = operators[i] === ">" ? gt(item.column, values[i]) : lt(item.column, values[i]);
+        const equals = orderByList.slice(0, i).map((prev, j) => eq(prev.column, values[j]));
+        return equals.length > 0 ? and(...equals, compare) : compare;
+    });
+    return or(...branches);
+}
+
+/**
+ * 페이지 크기를 검증합니다
+ */
+function normalizeCount(name: string, value: number | undefined): number {
+    const count = value ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`Invalid ${name}: ${count}. It must be a positive integer.`);
+    }
+    return count;
+}
+
+/**
+ * SelectBuilder 쿼리를 키셋(커서) 방식으로 페이지 단위 실행합니다
+ * OFFSET 없이 정렬 컬럼 값을 비교하므로 깊은 페이지도 일정한 속도로 조회됩니다
+ */
+export async function cursorPaginateSelect<TResult>(
+    builder: SelectBuilder<any, TResult>,
+    logger: Logger,
+    keys: string[],
+    options: CursorPaginationOptions = {},
+    handlerOptions?: HandlerOption
+): Promise<CursorPaginatedResult<TResult> | null> {
+    const backward = options.last !== undefined || (options.before != null && options.first === undefined);
+    const count = backward ? normalizeCount("last", options.last) : normalizeCount("first", options.first);
+
+    const baseOrderBy = options.orderBy
+        ? options.orderBy.map((item) => ({ column: item.column, order: item.order || "ASC" }))
+        : builder.getOrderByList().map((item) => {
+              // 커서 값은 결과 행의 컬럼에서 읽으므로 SQL 조각 정렬은 지원하지 않습니다
+              if (typeof item.column !== "string") {
+                  throw new Error("Cursor pagination requires column names in orderBy, not SQL fragments.");
+              }
+              return { column: item.column, order: item.order };
+          });
+    const orderByList = resolveCursorOrderBy(baseOrderBy, keys);
+
+    // 호출자의 빌더를 다시 사용할 수 있도록 복사본에 탐색 조건과 정렬, LIMIT을 설정합니다
+    const pageBuilder = builder.clone();
+    assertLockInTransaction(pageBuilder.getLockList());
+    if (options.after) {
+        pageBuilder.where(buildSeekCondition(orderByList, decodeCursor(options.after, orderByList.length), "after"));
+    }
+    if (options.before) {
+        pageBuilder.where(buildSeekCondition(orderByList, decodeCursor(options.before, orderByList.length), "before"));
+    }
+
+    // 뒤에서부터 가져올 때는 정렬을 뒤집어 조회한 뒤 결과를 다시 뒤집습니다
+    pageBuilder.setOrderByList(
+        backward
+            ? orderByList.map((item) => ({ column: item.column, order: item.order === "ASC" ? "DESC" : "ASC" }))
+            : orderByList
+    );
+    // 다음 페이지 존재 여부 확인을 위해 하나 더 조회
+    pageBuilder.setLimitCount(count + 1);
+    pageBuilder.setOffsetCount(undefined);
+
+    // 커서 값은 드라이버가 변환한 값(Date 등) 대신 ::text로 받아 마이크로초와 시간대를 보존합니다
+    // QUALIFY를 사용하면 바깥 쿼리에 붙으므로 결과 컬럼 이름으로 참조합니다
+    const qualified = pageBuilder.getQualifyConditions() !== null;
+    const cursorColumns = orderByList.map(
+        (item, i) =>
+            `${quoteColumn(qualified ? columnKey(item.column) : item.column)}::text AS ${CURSOR_COLUMN_PREFIX}${i}`
+    );
+    const { sql: query, params } = pageBuilder.buildQuery(1, cursorColumns);
+
+    return await handler(
+        async (connection: PoolClient) => {
+            logger.debug(`Executing cursor paginated SELECT: ${query}`, params);
+
+            const result = await connection.query(query, params);
+            const hasMore = result.rows.length > count;
+            const rows = result.rows.slice(0, count);
+            if (backward) {
+                rows.reverse();
+            }
+
+            const edges = rows.map((row) => {
+                const node: Record<string, any> = { ...row };
+                const values = orderByList.map((_item, i) => {
+                    const key = `${CURSOR_COLUMN_PREFIX}${i}`;
+                    delete node[key];
+                    return row[key];
+                });
+                return { node: node as TResult, cursor: encodeCursor(values) };
+            });
+
+            return {
+                edges,
+                pageInfo: {
+                    hasNextPage: backward ? Boolean(options.before) : hasMore,
+                    hasPreviousPage: backward ? hasMore : Boolean(options.after),
+                    startCursor: edges.length > 0 ? edges[0].cursor : null,
+                    endCursor: edges.length > 0 ? edges[edges.length - 1].cursor : null,
+                },
+            };
+        },
+        { useTransaction: false, ...handlerOptions }
+    );
+}
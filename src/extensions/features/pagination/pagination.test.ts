@@ -0,0 +1,75 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../../repository/createRepository";
+import { transaction } from "../../../middleware/transaction";
+
+interface Item {
+    id: number;
+    name: string;
+}
+
+const items = createRepository<Item>({ tableName: "pagination_items", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE pagination_items (id INT PRIMARY KEY, name TEXT NOT NULL);
+        INSERT INTO pagination_items SELECT i, 'item ' || i FROM generate_series(1, 5) AS i;
+    `);
+});
+
+describe("paginate", () => {
+    it("데이터와 전체 개수를 함께 반환", async () => {
+        const result = await items.select().orderBy("id").paginate({ page: 2, pageSize: 2 });
+
+        expect(result).toEqual({
+            items: [
+                { id: 3, name: "item 3" },
+                { id: 4, name: "item 4" },
+            ],
+            total: 5,
+            page: 2,
+            pageSize: 2,
+            totalPages: 3,
+            hasNext: true,
+        });
+    });
+
+    it("마지막 페이지를 넘어서도 전체 개수를 조회", async () => {
+        const result = await items.select().paginate({ page: 9, pageSize: 2 });
+
+        expect(result).toMatchObject({ items: [], total: 5, totalPages: 3, hasNext: false });
+    });
+
+    it("호출자의 빌더를 변경하지 않아 다시 사용할 수 있음", async () => {
+        const builder = items.select().where({ name: "item 1" }).orderBy("id").limit(1);
+
+        const first = await builder.paginate({ page: 2, pageSize: 2 });
+        const second = await builder.paginate({ page: 1, pageSize: 2 });
+
+        expect(first).toMatchObject({ items: [], total: 1 });
+        expect(second).toMatchObject({ items: [{ id: 1, name: "item 1" }], total: 1 });
+        expect(await builder.execute()).toEqual([{ id: 1, name: "item 1" }]);
+        expect(executedQueries.at(-1)).toBe('SELECT * FROM "pagination_items" WHERE "name" = $1 ORDER BY "id" ASC LIMIT 1');
+    });
+
+    it("repository.paginate는 where와 orderBy 옵션을 적용", async () => {
+        const result = await items.paginate({ where: { name: "item 4" }, orderBy: { column: "id", order: "DESC" } });
+
+        expect(result).toEqual({ items: [{ id: 4, name: "item 4" }], total: 1, page: 1, pageSize: 20, totalPages: 1, hasNext: false });
+    });
+
+    it("잘못된 페이지 번호와 크기는 에러", async () => {
+        await expect(items.select().paginate({ page: 0 })).rejects.toThrow("Invalid page: 0");
+        await expect(items.select().paginate({ pageSize: 1.5 })).rejects.toThrow("Invalid pageSize: 1.5");
+    });
+
+    it("잠금 쿼리는 윈도우 없이 조회하고 개수는 잠금 없이 따로 조회", async () => {
+        const result = await transaction(() => items.select().orderBy("id").forUpdate().paginate({ page: 2, pageSize: 2 }));
+
+        expect(result).toMatchObject({ items: [{ id: 3 }, { id: 4 }], total: 5, totalPages: 3, hasNext: true });
+        expect(executedQueries.slice(1, -1)).toEqual([
+            'SELECT * FROM "pagination_items" ORDER BY "id" ASC LIMIT 2 OFFSET 2 FOR UPDATE',
+            'SELECT COUNT(*) AS count FROM (SELECT * FROM "pagination_items" ORDER BY "id" ASC) AS paginated',
+        ]);
+    });
+});
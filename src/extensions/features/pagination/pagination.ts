@@ -0,0 +1,154 @@
+import { PoolClient } from "pg";
+import { handler } from "../../../utils/transaction";
+import { HandlerOption } from "../../../interfaces/HandlerOption";
+import { Logger } from "../../../utils/logger";
+import { ColumnRef, SelectBuilder } from "../../../repository/select/select";
+import { assertLockInTransaction } from "../../../repository/select/lock/lock";
+import { WhereInput } from "../../../repository/select/where/where";
+
+/**
+ * 기본 페이지 크기
+ */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * 전체 개수 계산용 윈도우 컬럼 별칭
+ */
+const TOTAL_COUNT_COLUMN = "__total_count";
+
+/**
+ * 페이지네이션 옵션
+ */
+export interface PaginationOptions {
+    /**
+     * 페이지 번호 (1부터 시작)
+     * @default 1
+     */
+    page?: number;
+
+    /**
+     * 페이지 크기
+     * @default 20
+     */
+    pageSize?: number;
+}
+
+/**
+ * 정렬 조건 (컬럼 이름 또는 { column, order })
+ */
+export type PaginationOrderBy<TEntity = any> =
+    | ColumnRef<TEntity>
+    | { column: ColumnRef<TEntity>; order?: "ASC" | "DESC" };
+
+/**
+ * Repository 페이지네이션 옵션
+ */
+export interface RepositoryPaginationOptions<TEntity = any> extends PaginationOptions {
+    /**
+     * WHERE 조건 (객체 또는 ConditionNode)
+     */
+    where?: WhereInput<TEntity>;
+
+    /**
+     * 정렬 조건 (컬럼 이름 또는 { column, order } 목록)
+     */
+    orderBy?: PaginationOrderBy<TEntity> | PaginationOrderBy<TEntity>[];
+}
+
+/**
+ * 페이지네이션 결과
+ */
+export interface PaginatedResult<T> {
+    items: T[];
+    total: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+    hasNext: boolean;
+}
+
+/**
+ * 페이지 번호와 크기를 검증하고 기본값을 적용합니다
+ */
+function normalizePaginationOptions(options: PaginationOptions): { page: number; pageSize: number } {
+    const page = options.page ?? 1;
+    const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+
+    if (!Number.isInteger(page) || page < 1) {
+        throw new Error(`Invalid page: ${page}. Page must be a positive integer.`);
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+        throw new Error(`Invalid pageSize: ${pageSize}. Page size must be a positive integer.`);
+    }
+
+    return { page, pageSize };
+}
+
+/**
+ * SelectBuilder 쿼리를 페이지 단위로 실행합니다
+ * 데이터와 전체 개수를 COUNT(*) OVER() 윈도우로 한 번에 조회하고,
+ * 마지막 페이지를 넘어선 경우에만 같은 WHERE로 개수를 따로 조회합니다
+ * FOR UPDATE/SHARE는 윈도우 함수와 함께 쓸 수 없으므로 잠금 쿼리는 잠금 없는 같은 쿼리로 개수를 따로 조회합니다
+ */
+export async function paginateSelect<TResult>(
+    builder: SelectBuilder<any, TResult>,
+    logger: Logger,
+    options: PaginationOptions = {},
+    handlerOptions?: HandlerOption
+): Promise<PaginatedResult<TResult> | null> {
+    const { page, pageSize } = normalizePaginationOptions(options);
+
+    // 호출자의 빌더를 다시 사용할 수 있도록 복사본에 LIMIT/OFFSET을 설정합니다
+    const pageBuilder = builder.clone();
+    assertLockInTransaction(pageBuilder.getLockList());
+    pageBuilder.setLimitCount(pageSize);
+    pageBuilder.setOffsetCount((page - 1) * pageSize);
+
+    const locked = pageBuilder.getLockList().length > 0;
+    const { sql: query, params } = locked
+        ? pageBuilder.buildQuery()
+        : pageBuilder.buildQuery(1, [`COUNT(*) OVER() AS ${TOTAL_COUNT_COLUMN}`]);
+
+    return await handler(
+        async (connection: PoolClient) => {
+            logger.debug(`Executing paginated SELECT: ${query}`, params);
+
+            const result = await connection.query(query, params);
+
+            let total: number;
+            if (!locked && result.rows.length > 0) {
+                total = Number(result.rows[0][TOTAL_COUNT_COLUMN]);
+            } else if (!locked && page === 1) {
+                total = 0;
+            } else {
+                // 범위를 벗어난 페이지나 잠금 쿼리는 윈도우 결과가 없으므로 개수를 따로 조회
+                pageBuilder.setLimitCount(undefined);
+                pageBuilder.setOffsetCount(undefined);
+                pageBuilder.setLockList([]);
+                const { sql: innerQuery, params: countParams } = pageBuilder.buildQuery();
+                const countQuery = `SELECT COUNT(*) AS count FROM (${innerQuery}) AS paginated`;
+
+                logger.debug(`Executing pagination COUNT: ${countQuery}`, countParams);
+
+                const countResult = await connection.query<{ count: string }>(countQuery, countParams);
+                total = Number(countResult.rows[0].count);
+            }
+
+            const items = result.rows.map((row) => {
+                const { [TOTAL_COUNT_COLUMN]: _total, ...item } = row;
+                return item as TResult;
+            });
+            const totalPages = Math.ceil(total / pageSize);
+
+            return {
+                items,
+                total,
+                page,
+                pageSize,
+                totalPages,
+                hasNext: page < totalPages,
+            };
+        },
+        { useTransaction: false, ...handlerOptions }
+    );
+}
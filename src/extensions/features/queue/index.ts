@@ -0,0 +1,3 @@
+export * from "./migration";
+export * from "./queue";
+export * from "./worker";
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { PoolClient } from "pg";
+import { handler } from "../../../utils/transaction";
+import { HandlerOption } from "../../../interfaces/HandlerOption";
+import { getLogger } from "../../../utils/logger";
+import { quoteIdentifier, quoteQualifiedName } from "../../../utils/identifier";
+
+/**
+ * 기본 작업 테이블 이름
+ */
+export const DEFAULT_QUEUE_TABLE = "queue_jobs";
+
+/**
+ * 작업 테이블 생성 SQL
+ * 여러 번 실행해도 안전합니다 (IF NOT EXISTS)
+ * - (queue, dedupe_key) 유니크 인덱스는 대기/실행 중 작업만 포함하므로 완료/데드 작업은 키를 유지해도 새 작업을 막지 않습니다
+ * - 부분 인덱스로 대기 작업 조회와 만료된 실행 작업 회수를 빠르게 합니다
+ * @param tableName 작업 테이블 이름 (스키마 포함 가능)
+ */
+export function buildQueueMigration(tableName: string = DEFAULT_QUEUE_TABLE): string[] {
+    const table = quoteQualifiedName(tableName);
+    const baseName = tableName.split(".").pop()!;
+    const index = (suffix: string) => quoteIdentifier(`${baseName}_${suffix}`);
+
+    return [
+        `CREATE TABLE IF NOT EXISTS ${table} (
+    "id" BIGSERIAL PRIMARY KEY,
+    "queue" TEXT NOT NULL,
+    "payload" JSONB NOT NULL DEFAULT 'null',
+    "status" TEXT NOT NULL DEFAULT 'pending' CHECK ("status" IN ('pending', 'running', 'completed', 'dead')),
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "max_attempts" INTEGER NOT NULL DEFAULT 5,
+    "run_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+    "locked_by" TEXT,
+    "locked_until" TIMESTAMPTZ,
+    "dedupe_key" TEXT,
+    "last_error" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT now(),
+    "completed_at" TIMESTAMPTZ
+)`,
+        `CREATE INDEX IF NOT EXISTS ${index("pending_idx")} ON ${table} ("queue", "priority" DESC, "run_at", "id") WHERE "status" = 'pending'`,
+        `CREATE INDEX IF NOT EXISTS ${index("running_idx")} ON ${table} ("queue", "locked_until") WHERE "status" = 'running'`,
+        `CREATE UNIQUE INDEX IF NOT EXISTS ${index("dedupe_key_idx")} ON ${table} ("queue", "dedupe_key") WHERE "status" IN ('pending', 'running')`,
+    ];
+}
+
+/**
+ * 작업 테이블 생성 (하나의 트랜잭션에서 실행)
+ * @param tableName 작업 테이블 이름
+ * @param options 핸들러 옵션
+ */
+export async function migrateQueue(
+    tableName: string = DEFAULT_QUEUE_TABLE,
+    options?: HandlerOption
+): Promise<boolean> {
+    const logger = getLogger();
+    const statements = buildQueueMigration(tableName);
+
+    const result = await handler(
+        async (connection: PoolClient) => {
+            for (const statement of statements) {
+                logger.debug(`Executing queue migration: ${statement}`);
+                await connection.query(statement);
+            }
+            return true;
+        },
+        { throwError: true, printSqlError: true, rollbackIfError: true, useTransaction: true, ...options }
+    );
+    return result === true;
+}
@@ -0,0 +1,139 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { getTestDatabase } from "../../../__tests__/database";
+import { migrateQueue } from "./migration";
+import { createQueue, QueueJob } from "./queue";
+
+const queue = createQueue<{ n: number }>("emails", { tableName: "queue_test_jobs", maxAttempts: 1 });
+const retrying = createQueue<{ n: number }>("reports", {
+    tableName: "queue_test_jobs",
+    maxAttempts: 2,
+    backoff: { baseDelay: 1 },
+});
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 작업을 점유해 실패시켜 데드 레터로 옮깁니다 (maxAttempts: 1)
+ */
+async function killNext(): Promise<QueueJob> {
+    const [job] = await queue.claim({ workerId: "worker-1" });
+    return (await queue.fail(job, new Error("boom")))!;
+}
+
+beforeAll(async () => {
+    await migrateQueue("queue_test_jobs");
+});
+
+beforeEach(async () => {
+    await getTestDatabase().exec("TRUNCATE queue_test_jobs");
+});
+
+describe("queue", () => {
+    it("우선순위가 높은 작업부터 점유하고 실행 시각 전인 작업은 건너뜀", async () => {
+        await queue.enqueue({ n: 1 });
+        await queue.enqueue({ n: 2 }, { priority: 5 });
+        await queue.enqueue({ n: 3 }, { runAt: new Date(Date.now() + 60000) });
+        await retrying.enqueue({ n: 4 });
+
+        const [first] = await queue.claim({ workerId: "worker-1" });
+        const rest = await queue.claim({ workerId: "worker-1", limit: 10 });
+
+        expect(first).toMatchObject({ queue: "emails", payload: { n: 2 }, status: "running", attempts: 1, locked_by: "worker-1" });
+        expect(rest.map((job) => job.payload)).toEqual([{ n: 1 }]);
+    });
+
+    it("점유 중인 작업은 가시성 타임아웃이 지나야 다른 워커가 가져감", async () => {
+        await retrying.enqueue({ n: 1 });
+        const [first] = await retrying.claim({ workerId: "worker-1", visibilityTimeout: 1 });
+        await sleep(20);
+        const [second] = await retrying.claim({ workerId: "worker-2" });
+
+        expect(second).toMatchObject({ id: first.id, attempts: 2, locked_by: "worker-2" });
+        expect(await retrying.claim({ workerId: "worker-3" })).toEqual([]);
+        expect(await retrying.extendLock(first)).toBe(false);
+        expect(await retrying.complete(first)).toBe(false);
+        expect(await retrying.complete(second)).toBe(true);
+    });
+
+    it("실패하면 백오프 후 다시 대기하고 시도 횟수를 모두 쓰면 데드 레터", async () => {
+        await retrying.enqueue({ n: 1 });
+        const [job] = await retrying.claim({ workerId: "worker-1" });
+        const pending = await retrying.fail(job, new Error("boom"));
+
+        expect(pending).toMatchObject({ status: "pending", locked_by: null });
+        expect(pending!.last_error).toContain("Error: boom");
+
+        await sleep(20);
+        const [retried] = await retrying.claim({ workerId: "worker-1" });
+        const dead = await retrying.fail(retried, "still broken");
+
+        expect(dead).toMatchObject({ id: job.id, status: "dead", attempts: 2, last_error: "still broken" });
+        expect((await retrying.deadLetters()).map((row) => row.id)).toEqual([job.id]);
+
+        expect(await retrying.retryDead(job.id)).toBe(true);
+        expect(await retrying.claim({ workerId: "worker-1" })).toMatchObject([{ id: job.id, attempts: 1 }]);
+    });
+});
+
+describe("queue dedupeKey", () => {
+    it("같은 키의 작업이 대기 중이면 기존 작업을 반환", async () => {
+        const first = await queue.enqueue({ n: 1 }, { dedupeKey: "k" });
+        const second = await queue.enqueue({ n: 2 }, { dedupeKey: "k" });
+        const other = await retrying.enqueue({ n: 3 }, { dedupeKey: "k" });
+
+        expect(second.id).toBe(first.id);
+        expect(second.payload).toEqual({ n: 1 });
+        expect(other.id).not.toBe(first.id);
+    });
+
+    it("완료/데드 작업의 키는 새 작업을 막지 않음", async () => {
+        const first = await queue.enqueue({ n: 1 }, { dedupeKey: "k" });
+        const [claimed] = await queue.claim({ workerId: "worker-1" });
+        await queue.complete(claimed);
+        const second = await queue.enqueue({ n: 2 }, { dedupeKey: "k" });
+        const dead = await killNext();
+        const third = await queue.enqueue({ n: 3 }, { dedupeKey: "k" });
+
+        expect(second.id).not.toBe(first.id);
+        expect(dead).toMatchObject({ id: second.id, status: "dead", dedupe_key: "k" });
+        expect(third.id).not.toBe(second.id);
+    });
+
+    it("추가도 기존 작업 조회도 안 되면 정해진 횟수만 시도하고 에러", async () => {
+        // 삽입을 조용히 버리는 트리거로 "충돌했지만 기존 작업은 이미 끝난" 상황을 계속 만듭니다
+        await getTestDatabase().exec(`
+            CREATE FUNCTION queue_test_drop_insert() RETURNS trigger AS $$ BEGIN RETURN NULL; END $$ LANGUAGE plpgsql;
+            CREATE TRIGGER queue_test_drop_insert BEFORE INSERT ON queue_test_jobs FOR EACH ROW EXECUTE FUNCTION queue_test_drop_insert();
+        `);
+        try {
+            await expect(queue.enqueue({ n: 1 }, { dedupeKey: "k" })).rejects.toThrow(
+                'Queue "emails" failed to enqueue dedupeKey "k" after 5 attempts: the insert conflicted but no pending or running job was found.'
+            );
+        } finally {
+            await getTestDatabase().exec(`
+                DROP TRIGGER queue_test_drop_insert ON queue_test_jobs;
+                DROP FUNCTION queue_test_drop_insert();
+            `);
+        }
+    });
+
+    it("retryDead로 다시 대기시킨 작업에도 중복 방지가 적용됨", async () => {
+        await queue.enqueue({ n: 1 }, { dedupeKey: "k" });
+        const dead = await killNext();
+
+        expect(await queue.retryDead(dead.id)).toBe(true);
+        const duplicate = await queue.enqueue({ n: 2 }, { dedupeKey: "k" });
+
+        expect(duplicate).toMatchObject({ id: dead.id, status: "pending", dedupe_key: "k" });
+    });
+
+    it("같은 키의 작업이 대기 중이면 retryDead는 다시 대기시키지 않음", async () => {
+        await queue.enqueue({ n: 1 }, { dedupeKey: "k" });
+        const dead = await killNext();
+        const active = await queue.enqueue({ n: 2 }, { dedupeKey: "k" });
+
+        expect(await queue.retryDead(dead.id)).toBe(false);
+        expect((await queue.deadLetters()).map((job) => job.id)).toEqual([dead.id]);
+        expect((await queue.claim({ workerId: "worker-1", limit: 10 })).map((job) => job.id)).toEqual([active.id]);
+    });
+});
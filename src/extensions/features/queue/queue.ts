@@ -0,0 +1,377 @@
+import { Repository, createRepository } from "../../../repository/createRepository";
+import { and, or } from "../../../repository/select/where/conditions";
+import { eq, inArray } from "../../../repository/select/where/operators";
+import { sql } from "../raw/raw";
+import { DEFAULT_QUEUE_TABLE } from "./migration";
+import { createQueueWorker, QueueJobHandler, QueueWorker, QueueWorkerOptions } from "./worker";
+
+/**
+ * 작업 상태
+ * - pending: 대기 (run_at 이후 실행)
+ * - running: 워커가 점유 중 (locked_until까지)
+ * - completed: 완료
+ * - dead: 재시도 횟수를 모두 써서 데드 레터로 이동
+ */
+export type QueueJobStatus = "pending" | "running" | "completed" | "dead";
+
+/**
+ * 작업 행 (작업 테이블 컬럼과 같은 형태)
+ */
+export interface QueueJob<TPayload = any> {
+    /**
+     * BIGSERIAL이므로 문자열로 반환됩니다
+     */
+    id: string;
+    queue: string;
+    payload: TPayload;
+    status: QueueJobStatus;
+    priority: number;
+
+    /**
+     * 점유된 횟수 (실행 중인 시도 포함)
+     */
+    attempts: number;
+    max_attempts: number;
+    run_at: Date;
+    locked_by: string | null;
+    locked_until: Date | null;
+    dedupe_key: string | null;
+    last_error: string | null;
+    created_at: Date;
+    updated_at: Date;
+    completed_at: Date | null;
+}
+
+/**
+ * 재시도 지연 옵션 (지수 백오프)
+ */
+export interface QueueBackoffOptions {
+    /**
+     * 첫 재시도 지연 (ms), 이후 2배씩 증가
+     * @default 1000
+     */
+    baseDelay?: number;
+
+    /**
+     * 최대 지연 (ms)
+     * @default 3600000 (1시간)
+     */
+    maxDelay?: number;
+}
+
+/**
+ * 큐 옵션
+ */
+export interface QueueOptions {
+    /**
+     * 작업 테이블 이름 (migrateQueue로 생성)
+     * @default "queue_jobs"
+     */
+    tableName?: string;
+
+    /**
+     * 작업당 최대 시도 횟수 (초과하면 데드 레터)
+     * @default 5
+     */
+    maxAttempts?: number;
+
+    /**
+     * 재시도 지연
+     */
+    backoff?: QueueBackoffOptions;
+
+    /**
+     * 점유한 작업의 가시성 타임아웃 (ms)
+     * 이 시간 안에 완료/연장하지 않으면 워커가 죽은 것으로 보고 다른 워커가 다시 가져갑니다
+     * @default 30000
+     */
+    visibilityTimeout?: number;
+}
+
+/**
+ * 작업 추가 옵션
+ */
+export interface EnqueueOptions {
+    /**
+     * 실행 시각 (생략하면 즉시)
+     */
+    runAt?: Date;
+
+    /**
+     * 우선순위 (클수록 먼저 실행)
+     * @default 0
+     */
+    priority?: number;
+
+    /**
+     * 중복 방지 키
+     * 같은 키의 작업이 대기/실행 중이면 새로 추가하지 않고 기존 작업을 반환합니다
+     * 완료/데드 작업도 키를 유지하므로 retryDead로 다시 대기시킨 작업에도 중복 방지가 적용됩니다
+     */
+    dedupeKey?: string;
+
+    /**
+     * 이 작업의 최대 시도 횟수 (큐 옵션보다 우선)
+     */
+    maxAttempts?: number;
+}
+
+/**
+ * 작업 점유 옵션
+ */
+export interface ClaimOptions {
+    /**
+     * 한 번에 가져올 작업 수
+     * @default 1
+     */
+    limit?: number;
+
+    /**
+     * 점유한 워커 식별자 (complete/fail 시 소유권 확인에 사용)
+     */
+    workerId: string;
+
+    /**
+     * 가시성 타임아웃 (ms, 생략하면 큐 옵션)
+     */
+    visibilityTimeout?: number;
+}
+
+/**
+ * Postgres 작업 큐
+ */
+export interface Queue<TPayload = any> {
+    readonly name: string;
+    readonly tableName: string;
+
+    /**
+     * 기본 가시성 타임아웃 (ms)
+     */
+    readonly visibilityTimeout: number;
+
+    /**
+     * 작업 추가
+     * transaction() 안에서 호출하면 트랜잭션이 커밋될 때 함께 추가됩니다
+     * @example await queue.enqueue({ userId }, { runAt: tomorrow, dedupeKey: `welcome:${userId}` })
+     */
+    enqueue(payload: TPayload, options?: EnqueueOptions): Promise<QueueJob<TPayload>>;
+
+    /**
+     * 실행할 작업을 점유 (FOR UPDATE SKIP LOCKED)
+     * 대기 작업과 가시성 타임아웃이 지난 실행 중 작업을 우선순위, 실행 시각 순으로 가져옵니다
+     */
+    claim(options: ClaimOptions): Promise<QueueJob<TPayload>[]>;
+
+    /**
+     * 작업 완료 처리
+     * @returns 점유가 유효해 완료 처리되었는지 여부
+     */
+    complete(job: QueueJob<TPayload>): Promise<boolean>;
+
+    /**
+     * 작업 실패 처리
+     * 시도 횟수가 남았으면 지수 백오프 후 다시 대기시키고, 아니면 데드 레터로 옮깁니다
+     * @returns 갱신된 작업 (점유가 만료되어 다른 워커가 가져갔으면 null)
+     */
+    fail(job: QueueJob<TPayload>, error: unknown): Promise<QueueJob<TPayload> | null>;
+
+    /**
+     * 오래 걸리는 작업의 가시성 타임아웃 연장
+     * @returns 점유가 유효해 연장되었는지 여부
+     */
+    extendLock(job: QueueJob<TPayload>, visibilityTimeout?: number): Promise<boolean>;
+
+    /**
+     * 데드 레터 작업 목록 (최근 순)
+     */
+    deadLetters(limit?: number): Promise<QueueJob<TPayload>[]>;
+
+    /**
+     * 데드 레터 작업을 시도 횟수를 초기화해 다시 대기시킴
+     * 같은 dedupe_key의 작업이 이미 대기/실행 중이면 중복이 되므로 다시 대기시키지 않습니다
+     * @returns 다시 대기시켰는지 여부
+     */
+    retryDead(id: string): Promise<boolean>;
+
+    /**
+     * 작업을 처리하는 워커 시작
+     * 핸들러가 성공하면 완료, 에러를 던지면 실패 처리합니다
+     * 점유를 잃으면 핸들러의 signal이 중단되고 결과는 기록하지 않습니다
+     * @example
+     * const worker = queue.process(async (job, { signal }) => sendEmail(job.payload, { signal }), { concurrency: 5 });
+     * process.on("SIGTERM", () => worker.stop());
+     */
+    process(handler: QueueJobHandler<TPayload>, options?: QueueWorkerOptions): QueueWorker;
+}
+
+/**
+ * dedupeKey 작업 추가의 최대 시도 횟수
+ * 충돌한 기존 작업이 조회 직전에 끝나는 경우에만 다시 시도하므로 몇 번이면 충분합니다
+ */
+const MAX_DEDUPE_ATTEMPTS = 5;
+
+/**
+ * 실패 메시지 (Error는 스택 포함)
+ */
+function describeError(error: unknown): string {
+    if (error instanceof Error) {
+        return error.stack ?? `${error.name}: ${error.message}`;
+    }
+    return String(error);
+}
+
+/**
+ * Postgres 작업 큐를 생성합니다
+ * 별도 브로커 없이 작업 테이블을 FOR UPDATE SKIP LOCKED로 점유해 여러 워커가 겹치지 않게 처리합니다
+ * @param name 큐 이름 (같은 테이블에 여러 큐를 둘 수 있음)
+ * @param options 큐 옵션
+ */
+export function createQueue<TPayload = any>(name: string, options: QueueOptions = {}): Queue<TPayload> {
+    const tableName = options.tableName ?? DEFAULT_QUEUE_TABLE;
+    const maxAttempts = options.maxAttempts ?? 5;
+    const baseDelay = options.backoff?.baseDelay ?? 1000;
+    const maxDelay = options.backoff?.maxDelay ?? 3600000;
+    const visibilityTimeout = options.visibilityTimeout ?? 30000;
+
+    const repository: Repository<QueueJob<TPayload>> = createRepository<QueueJob<TPayload>>({
+        tableName,
+        keys: ["id"],
+    });
+    const table = sql.identifier(tableName);
+    const throwError = { throwError: true, printSqlError: true };
+
+    const queue: Queue<TPayload> = {
+        name,
+        tableName,
+        visibilityTimeout,
+
+        async enqueue(payload: TPayload, enqueueOptions: EnqueueOptions = {}): Promise<QueueJob<TPayload>> {
+            // 배열이 PostgreSQL 배열로 변환되지 않도록 JSON 문자열로 전달합니다
+            const row: Record<string, any> = {
+                queue: name,
+                payload: JSON.stringify(payload ?? null),
+                priority: enqueueOptions.priority ?? 0,
+                max_attempts: enqueueOptions.maxAttempts ?? maxAttempts,
+            };
+            if (enqueueOptions.runAt !== undefined) {
+                row.run_at = enqueueOptions.runAt;
+            }
+            if (enqueueOptions.dedupeKey === undefined) {
+                const [job] = (await repository.insert(row).execute(throwError))!;
+                return job;
+            }
+
+            // 완료/데드 작업은 dedupe_key를 그대로 두므로 대기/실행 중 작업만 대상으로 하는 부분 유니크 인덱스로 충돌을 판단합니다
+            // 기존 작업이 조회 직전에 끝났으면 다시 추가를 시도합니다
+            for (let attempt = 1; attempt <= MAX_DEDUPE_ATTEMPTS; attempt++) {
+                const inserted = await repository.query(
+                    sql`INSERT INTO ${table} ("queue", "payload", "priority", "max_attempts", "run_at", "dedupe_key") VALUES (${name}, ${row.payload}::jsonb, ${row.priority}, ${row.max_attempts}, COALESCE(${enqueueOptions.runAt ?? null}::timestamptz, now()), ${enqueueOptions.dedupeKey}) ON CONFLICT ("queue", "dedupe_key") WHERE "status" IN ('pending', 'running') DO NOTHING RETURNING *`,
+                    throwError
+                );
+                if (inserted && inserted.rows.length > 0) {
+                    return inserted.rows[0] as QueueJob<TPayload>;
+                }
+                const existing = await repository
+                    .select()
+                    .where(
+                        and(
+                            eq("queue", name),
+                            eq("dedupe_key", enqueueOptions.dedupeKey),
+                            inArray("status", ["pending", "running"])
+                        )
+                    )
+                    .execute(throwError);
+                if (existing && existing.length > 0) {
+                    return existing[0] as QueueJob<TPayload>;
+                }
+            }
+            throw new Error(
+                `Queue "${name}" failed to enqueue dedupeKey "${enqueueOptions.dedupeKey}" after ${MAX_DEDUPE_ATTEMPTS} attempts: ` +
+                    "the insert conflicted but no pending or running job was found."
+            );
+        },
+
+        async claim(claimOptions: ClaimOptions): Promise<QueueJob<TPayload>[]> {
+            const timeout = claimOptions.visibilityTimeout ?? visibilityTimeout;
+
+            // 시도 횟수를 모두 쓴 채 점유가 만료된 작업 (처리 중 워커가 죽음)은 데드 레터로 옮깁니다
+            await repository.query(
+                sql`UPDATE ${table} SET "status" = 'dead', "locked_by" = NULL, "locked_until" = NULL, "last_error" = 'Visibility timeout expired', "updated_at" = now() WHERE "queue" = ${name} AND "status" = 'running' AND "locked_until" < now() AND "attempts" >= "max_attempts"`,
+                throwError
+            );
+
+            const candidates = repository
+                .select(["id"])
+                .where(
+                    and(
+                        eq("queue", name),
+                        or(
+                            and(eq("status", "pending"), sql`"run_at" <= now()`),
+                            and(eq("status", "running"), sql`"locked_until" < now()`)
+                        )
+                    )
+                )
+                .orderBy("priority", "DESC")
+                .orderBy("run_at")
+                .orderBy("id")
+                .limit(claimOptions.limit ?? 1)
+                .forUpdate()
+                .skipLocked();
+
+            const result = await repository.query(
+                sql`UPDATE ${table} SET "status" = 'running', "attempts" = "attempts" + 1, "locked_by" = ${claimOptions.workerId}, "locked_until" = now() + ${timeout}::bigint * interval '1 millisecond', "updated_at" = now() WHERE "id" IN ${candidates} RETURNING *`,
+                throwError
+            );
+            return (result?.rows ?? []) as QueueJob<TPayload>[];
+        },
+
+        async complete(job: QueueJob<TPayload>): Promise<boolean> {
+            const result = await repository.query(
+                sql`UPDATE ${table} SET "status" = 'completed', "locked_by" = NULL, "locked_until" = NULL, "completed_at" = now(), "updated_at" = now() WHERE "id" = ${job.id} AND "status" = 'running' AND "locked_by" = ${job.locked_by}`,
+                throwError
+            );
+            return (result?.rowCount ?? 0) > 0;
+        },
+
+        async fail(job: QueueJob<TPayload>, error: unknown): Promise<QueueJob<TPayload> | null> {
+            const delay = Math.min(baseDelay * Math.pow(2, Math.max(job.attempts - 1, 0)), maxDelay);
+            const result = await repository.query(
+                sql`UPDATE ${table} SET "status" = CASE WHEN "attempts" >= "max_attempts" THEN 'dead' ELSE 'pending' END, "run_at" = CASE WHEN "attempts" >= "max_attempts" THEN "run_at" ELSE now() + ${delay}::bigint * interval '1 millisecond' END, "locked_by" = NULL, "locked_until" = NULL, "last_error" = ${describeError(error)}, "updated_at" = now() WHERE "id" = ${job.id} AND "status" = 'running' AND "locked_by" = ${job.locked_by} RETURNING *`,
+                throwError
+            );
+            return (result?.rows[0] as QueueJob<TPayload> | undefined) ?? null;
+        },
+
+        async extendLock(job: QueueJob<TPayload>, timeout: number = visibilityTimeout): Promise<boolean> {
+            const result = await repository.query(
+                sql`UPDATE ${table} SET "locked_until" = now() + ${timeout}::bigint * interval '1 millisecond', "updated_at" = now() WHERE "id" = ${job.id} AND "status" = 'running' AND "locked_by" = ${job.locked_by}`,
+                throwError
+            );
+            return (result?.rowCount ?? 0) > 0;
+        },
+
+        async deadLetters(limit: number = 100): Promise<QueueJob<TPayload>[]> {
+            const rows = await repository
+                .select()
+                .where({ queue: name, status: "dead" })
+                .orderBy("updated_at", "DESC")
+                .limit(limit)
+                .execute(throwError);
+            return (rows ?? []) as QueueJob<TPayload>[];
+        },
+
+        async retryDead(id: string): Promise<boolean> {
+            const result = await repository.query(
+                sql`UPDATE ${table} AS "job" SET "status" = 'pending', "attempts" = 0, "run_at" = now(), "updated_at" = now() WHERE "job"."id" = ${id} AND "job"."queue" = ${name} AND "job"."status" = 'dead' AND NOT EXISTS (SELECT 1 FROM ${table} AS "active" WHERE "active"."queue" = "job"."queue" AND "active"."dedupe_key" = "job"."dedupe_key" AND "active"."status" IN ('pending', 'running'))`,
+                throwError
+            );
+            return (result?.rowCount ?? 0) > 0;
+        },
+
+        process(handler: QueueJobHandler<TPayload>, workerOptions?: QueueWorkerOptions): QueueWorker {
+            return createQueueWorker(queue, handler, workerOptions);
+        },
+    };
+
+    return queue;
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { getTestDatabase } from "../../../__tests__/database";
+import { getLogger } from "../../../utils/logger";
+import { migrateQueue } from "./migration";
+import { createQueue } from "./queue";
+
+const queue = createQueue<{ n: number }>("worker", { tableName: "queue_worker_jobs", maxAttempts: 1 });
+
+async function statuses(): Promise<string[]> {
+    const { rows } = await getTestDatabase().query<{ status: string }>("SELECT status FROM queue_worker_jobs ORDER BY id");
+    return rows.map((row) => row.status);
+}
+
+beforeAll(async () => {
+    await migrateQueue("queue_worker_jobs");
+});
+
+beforeEach(async () => {
+    await getTestDatabase().exec("TRUNCATE queue_worker_jobs RESTART IDENTITY");
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe("queue.process", () => {
+    it("핸들러가 성공하면 완료, 던지면 onError 후 실패 처리", async () => {
+        const errors: unknown[] = [];
+        await queue.enqueue({ n: 1 });
+        await queue.enqueue({ n: 2 });
+
+        const worker = queue.process(
+            async (job) => {
+                if (job.payload.n === 2) {
+                    throw new Error("boom");
+                }
+            },
+            { pollInterval: 10, concurrency: 2, onError: (error) => errors.push(error) }
+        );
+        await vi.waitFor(async () => expect(await statuses()).toEqual(["completed", "dead"]));
+        await worker.stop();
+
+        expect(errors).toEqual([new Error("boom")]);
+    });
+
+    it("onError 훅이 던져도 로그로 남기고 다음 작업을 계속 처리", async () => {
+        const errorWithStack = vi.spyOn(getLogger(), "errorWithStack").mockImplementation(() => {});
+        const processed: number[] = [];
+        await queue.enqueue({ n: 1 });
+        await queue.enqueue({ n: 2 });
+
+        const worker = queue.process(
+            async (job) => {
+                processed.push(job.payload.n);
+                if (job.payload.n === 1) {
+                    throw new Error("boom");
+                }
+            },
+            {
+                pollInterval: 10,
+                onError: () => {
+                    throw new Error("hook failed");
+                },
+            }
+        );
+        await vi.waitFor(() => expect(processed).toEqual([1, 2]));
+        await worker.stop();
+
+        expect(errorWithStack.mock.calls.map(([message]) => message)).toEqual([
+            'Queue "worker" onError hook failed',
+            'Queue "worker" job 1 failed (attempt 1/1)',
+        ]);
+        expect((await queue.deadLetters()).map((job) => job.payload)).toEqual([{ n: 1 }]);
+    });
+
+    it("점유 연장에 실패하면 onError로 알리고 핸들러를 중단하며 결과를 기록하지 않음", async () => {
+        const errors: unknown[] = [];
+        let aborted: unknown;
+        await queue.enqueue({ n: 1 });
+
+        const worker = queue.process(
+            async (_job, { signal }) => {
+                // 다른 워커가 만료된 작업을 가져간 상황
+                await getTestDatabase().query(
+                    "UPDATE queue_worker_jobs SET locked_by = 'other', locked_until = now() + interval '1 hour'"
+                );
+                aborted = await new Promise((resolve) => signal.addEventListener("abort", () => resolve(signal.reason)));
+            },
+            { pollInterval: 10, visibilityTimeout: 40, onError: (error) => errors.push(error) }
+        );
+        await vi.waitFor(() => expect(aborted).toBeDefined());
+        await worker.stop();
+
+        expect(errors).toEqual([aborted]);
+        expect((aborted as Error).message).toBe('Queue "worker" job 1 lost its lock; another worker may be processing it.');
+        const { rows } = await getTestDatabase().query("SELECT status, locked_by FROM queue_worker_jobs");
+        expect(rows).toEqual([{ status: "running", locked_by: "other" }]);
+    });
+
+    it("stop은 새 작업을 점유하지 않고 처리 중인 작업이 끝날 때까지 기다림", async () => {
+        let release!: () => void;
+        const started = vi.fn();
+        await queue.enqueue({ n: 1 });
+        await queue.enqueue({ n: 2 });
+
+        const worker = queue.process(
+            async () => {
+                started();
+                await new Promise<void>((resolve) => (release = resolve));
+            },
+            { pollInterval: 10 }
+        );
+        await vi.waitFor(() => expect(started).toHaveBeenCalledTimes(1));
+        const stopping = worker.stop();
+        release();
+        await stopping;
+
+        expect(started).toHaveBeenCalledTimes(1);
+        expect(await statuses()).toEqual(["completed", "pending"]);
+    });
+
+    it("잘못된 concurrency는 워커를 시작하기 전에 에러", () => {
+        expect(() => queue.process(async () => undefined, { concurrency: 0 })).toThrow(
+            "concurrency must be a positive integer: 0"
+        );
+    });
+});
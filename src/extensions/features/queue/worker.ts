@@ -0,0 +1,202 @@
+import { hostname } from "os";
+import { randomBytes } from "crypto";
+import { getLogger } from "../../../utils/logger";
+import type { Queue, QueueJob } from "./queue";
+
+/**
+ * 워커 옵션
+ */
+export interface QueueWorkerOptions {
+    /**
+     * 동시에 처리할 작업 수
+     * @default 1
+     */
+    concurrency?: number;
+
+    /**
+     * 대기 작업이 없을 때 다시 조회하기까지의 간격 (ms)
+     * @default 1000
+     */
+    pollInterval?: number;
+
+    /**
+     * 가시성 타임아웃 (ms, 생략하면 큐 옵션)
+     * 처리 중에는 절반 주기로 자동 연장하므로, 워커가 죽은 경우에만 만료됩니다
+     */
+    visibilityTimeout?: number;
+
+    /**
+     * 워커 식별자
+     * @default "<hostname>:<pid>:<random>"
+     */
+    workerId?: string;
+
+    /**
+     * 작업 실패나 큐 조회 에러를 받을 훅 (생략하면 로그 출력)
+     */
+    onError?: (error: unknown, job?: QueueJob) => void;
+}
+
+/**
+ * 작업 처리 함수에 전달되는 실행 정보
+ */
+export interface QueueJobContext {
+    /**
+     * 점유 연장에 실패하면 (다른 워커가 작업을 가져감) 중단되는 신호
+     * 중단된 뒤의 결과는 완료/실패로 기록되지 않으므로 긴 작업은 이 신호로 처리를 멈춰야 합니다
+     */
+    readonly signal: AbortSignal;
+}
+
+/**
+ * 작업 처리 함수 (에러를 던지면 실패로 처리)
+ */
+export type QueueJobHandler<TPayload = any> = (job: QueueJob<TPayload>, context: QueueJobContext) => Promise<void>;
+
+/**
+ * 실행 중인 워커
+ */
+export interface QueueWorker {
+    readonly workerId: string;
+
+    /**
+     * 새 작업 점유를 멈추고 처리 중인 작업이 끝날 때까지 기다립니다
+     */
+    stop(): Promise<void>;
+}
+
+/**
+ * 큐 워커를 시작합니다 (queue.process()에서 사용)
+ * @param queue 작업 큐
+ * @param handler 작업 처리 함수 (에러를 던지면 실패로 처리)
+ * @param options 워커 옵션
+ */
+export function createQueueWorker<TPayload>(
+    queue: Queue<TPayload>,
+    handler: QueueJobHandler<TPayload>,
+    options: QueueWorkerOptions = {}
+): QueueWorker {
+    const logger = getLogger();
+    const concurrency = options.concurrency ?? 1;
+    const pollInterval = options.pollInterval ?? 1000;
+    const visibilityTimeout = options.visibilityTimeout ?? queue.visibilityTimeout;
+    const workerId = options.workerId ?? `${hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`concurrency must be a positive integer: ${concurrency}`);
+    }
+
+    const active = new Set<Promise<void>>();
+    let running = true;
+    let wake: (() => void) | null = null;
+
+    const report = (error: unknown, job?: QueueJob<TPayload>) => {
+        if (options.onError) {
+            // 훅이 던진 에러가 워커 루프나 heartbeat 밖으로 새지 않도록 로그로 남기고 원래 에러도 출력합니다
+            try {
+                options.onError(error, job);
+                return;
+            } catch (hookError) {
+                logger.errorWithStack(`Queue "${queue.name}" onError hook failed`, hookError);
+            }
+        }
+        logger.errorWithStack(
+            job ? `Queue "${queue.name}" job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts})` : `Queue "${queue.name}" worker error`,
+            error
+        );
+    };
+
+    const sleep = (ms: number) =>
+        new Promise<void>((resolve) => {
+            const timer = setTimeout(resolve, ms);
+            wake = () => {
+                clearTimeout(timer);
+                resolve();
+            };
+        }).finally(() => {
+            wake = null;
+        });
+
+    const runJob = async (job: QueueJob<TPayload>) => {
+        // 처리 중에는 점유를 연장해 다른 워커가 가져가지 않게 합니다
+        // 연장에 실패하면 (점유 만료 후 다른 워커가 가져감) 연장을 멈추고 핸들러에 중단을 알립니다
+        const controller = new AbortController();
+        const heartbeat = setInterval(() => {
+            queue
+                .extendLock(job, visibilityTimeout)
+                .then((extended) => {
+                    if (!extended && !controller.signal.aborted) {
+                        clearInterval(heartbeat);
+                        const error = new Error(
+                            `Queue "${queue.name}" job ${job.id} lost its lock; another worker may be processing it.`
+                        );
+                        report(error, job);
+                        controller.abort(error);
+                    }
+                })
+                .catch((error) => report(error, job));
+        }, visibilityTimeout / 2);
+
+        try {
+            await handler(job, { signal: controller.signal });
+        } catch (error) {
+            clearInterval(heartbeat);
+            if (controller.signal.aborted) {
+                return;
+            }
+            report(error, job);
+            try {
+                await queue.fail(job, error);
+            } catch (failError) {
+                report(failError, job);
+            }
+            return;
+        }
+
+        clearInterval(heartbeat);
+        if (controller.signal.aborted) {
+            return;
+        }
+        try {
+            await queue.complete(job);
+        } catch (error) {
+            report(error, job);
+        }
+    };
+
+    const loop = async () => {
+        while (running) {
+            if (active.size >= concurrency) {
+                await Promise.race(active);
+                continue;
+            }
+
+            let jobs: QueueJob<TPayload>[] = [];
+            try {
+                jobs = await queue.claim({ limit: concurrency - active.size, workerId, visibilityTimeout });
+            } catch (error) {
+                report(error);
+            }
+
+            for (const job of jobs) {
+                const task: Promise<void> = runJob(job).finally(() => active.delete(task));
+                active.add(task);
+            }
+            if (jobs.length === 0 && running) {
+                await sleep(pollInterval);
+            }
+        }
+    };
+
+    const looping = loop();
+
+    return {
+        workerId,
+
+        async stop(): Promise<void> {
+            running = false;
+            wake?.();
+            await looping;
+            await Promise.all(active);
+        },
+    };
+}
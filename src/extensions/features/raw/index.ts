@@ -0,0 +1 @@
+export * from "./raw";
\ No newline at end of file
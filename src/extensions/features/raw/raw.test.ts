@@ -0,0 +1,84 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../../repository/createRepository";
+import { and } from "../../../repository/select/where/conditions";
+import { gt, inArray } from "../../../repository/select/where/operators";
+import { sql } from "./raw";
+
+const members = createRepository<any>({ tableName: "raw_members", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE raw_members (id INT PRIMARY KEY, email TEXT NOT NULL, score INT NOT NULL);
+        INSERT INTO raw_members VALUES (1, 'Kim@Example.com', 10), (2, 'lee@example.com', 30), (3, 'park@test.com', 20);
+    `);
+});
+
+describe("sql 태그", () => {
+    it("값은 파라미터로 바뀌고 중첩 조각은 번호를 이어서 매김", () => {
+        const domain = sql`split_part(${sql.identifier("m.email")}, ${"@"}, 2) = ${"example.com"}`;
+        const fragment = sql`${sql.raw("score")} > ${10} AND ${domain}`;
+
+        expect(fragment.buildQuery()).toEqual({
+            sql: 'score > $1 AND split_part("m"."email", $2, 2) = $3',
+            params: [10, "@", "example.com"],
+        });
+        expect(fragment.buildQuery(4).sql).toBe('score > $4 AND split_part("m"."email", $5, 2) = $6');
+    });
+
+    it("SQL 주입 문자열도 값으로만 전달", () => {
+        const input = "x'; DROP TABLE raw_members; --";
+
+        expect(sql`email = ${input}`.buildQuery()).toEqual({ sql: "email = $1", params: [input] });
+        expect(sql.identifier('weird"name').buildQuery().sql).toBe('"weird""name"');
+    });
+
+    it("배열은 PostgreSQL 배열 파라미터 하나, join은 값마다 파라미터", () => {
+        expect(sql`id = ANY(${[1, 2]})`.buildQuery()).toEqual({ sql: "id = ANY($1)", params: [[1, 2]] });
+        expect(sql`id IN (${sql.join([1, 2, 3])})`.buildQuery()).toEqual({
+            sql: "id IN ($1, $2, $3)",
+            params: [1, 2, 3],
+        });
+        expect(sql`${sql.join([sql`a = ${1}`, sql`b = ${2}`], " OR ")}`.buildQuery()).toEqual({
+            sql: "a = $1 OR b = $2",
+            params: [1, 2],
+        });
+        expect(() => sql`id IN (${sql.join([])})`).toThrow("sql.join() requires at least one item.");
+    });
+
+    it("빌더는 괄호로 감싼 서브쿼리로 삽입", () => {
+        const fragment = sql`id IN ${members.select(["id"]).where(gt("score", 15))} AND score < ${100}`;
+
+        expect(fragment.buildQuery()).toEqual({
+            sql: 'id IN (SELECT "id" FROM "raw_members" WHERE "score" > $1) AND score < $2',
+            params: [15, 100],
+        });
+    });
+});
+
+describe("빌더에서 sql 조각 사용", () => {
+    it("where, orderBy, select 컬럼에서 파라미터 번호가 SQL 순서대로 이어짐", async () => {
+        const rows = await members
+            .select(["id", sql<number>`score * ${2}`.as("double")])
+            .where(and(inArray("id", [1, 2, 3]), sql`lower(email) LIKE ${"%example.com"}`))
+            .orderBy(sql`abs(score - ${25})`)
+            .execute();
+
+        expect(rows).toEqual([
+            { id: 2, double: 60 },
+            { id: 1, double: 20 },
+        ]);
+        expect(executedQueries[0]).toBe(
+            'SELECT "id", score * $1 AS "double" FROM "raw_members" WHERE ("id" IN ($2, $3, $4)) AND (lower(email) LIKE $5) ORDER BY abs(score - $6) ASC'
+        );
+    });
+
+    it("repository.query는 조각을 받아 번호를 자동으로 매김", async () => {
+        const result = await members.query(
+            sql`SELECT id FROM ${sql.identifier("raw_members")} WHERE score >= ${20} ORDER BY id`
+        );
+
+        expect(result!.rows).toEqual([{ id: 2 }, { id: 3 }]);
+        expect(executedQueries[0]).toBe('SELECT id FROM "raw_members" WHERE score >= $1 ORDER BY id');
+    });
+});
@@ -0,0 +1,123 @@
+import { quoteQualifiedName } from "../../../utils/identifier";
+
+/**
+ * 원시 SQL 조각
+ * 템플릿에 끼운 값은 파라미터($n)로 바뀌고, 번호는 조각을 사용하는 쿼리에 맞춰 이어집니다
+ * - SqlFragment: 그대로 삽입 (중첩)
+ * - 빌더(buildQuery 보유): 괄호로 감싼 서브쿼리로 삽입
+ * - 그 외 값: 파라미터 (배열은 PostgreSQL 배열 하나로 전달)
+ * TValue: select 컬럼으로 사용할 때의 결과 값 타입, TAlias: 결과 키 이름
+ */
+export class SqlFragment<TValue = any, TAlias extends string = never> {
+    readonly strings: readonly string[];
+    readonly values: readonly any[];
+    readonly alias?: TAlias;
+
+    /**
+     * 결과 타입 추론용 (런타임 값 없음)
+     */
+    declare readonly __value?: TValue;
+
+    constructor(strings: readonly string[], values: readonly any[], alias?: TAlias) {
+        if (strings.length !== values.length + 1) {
+            throw new Error("SQL fragment must have one more string than values.");
+        }
+        this.strings = strings;
+        this.values = values;
+        this.alias = alias;
+    }
+
+    /**
+     * select 컬럼 별칭 설정
+     */
+    as<TNewAlias extends string>(alias: TNewAlias): SqlFragment<TValue, TNewAlias> {
+        return new SqlFragment<TValue, TNewAlias>(this.strings, this.values, alias);
+    }
+
+    /**
+     * SQL과 파라미터로 변환
+     * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+     */
+    buildQuery(startIndex: number = 1): { sql: string; params: any[] } {
+        const params: any[] = [];
+        let text = this.strings[0];
+
+        this.values.forEach((value, i) => {
+            if (isSqlFragment(value)) {
+                const built = value.buildQuery(startIndex + params.length);
+                text += built.sql;
+                params.push(...built.params);
+            } else if (value !== null && typeof value === "object" && typeof value.buildQuery === "function") {
+                const built = value.buildQuery(startIndex + params.length);
+                text += `(${built.sql})`;
+                params.push(...built.params);
+            } else {
+                text += `$${startIndex + params.length}`;
+                params.push(value);
+            }
+            text += this.strings[i + 1];
+        });
+
+        return { sql: text, params };
+    }
+}
+
+/**
+ * 값이 원시 SQL 조각인지 확인
+ */
+export function isSqlFragment(value: any): value is SqlFragment<any, any> {
+    return value instanceof SqlFragment;
+}
+
+/**
+ * sql 태그 함수와 보조 함수
+ */
+export interface SqlTag {
+    /**
+     * 값을 파라미터로 바꾸는 태그 템플릿
+     * @example sql`lower(${sql.identifier("email")}) = ${email}`
+     */
+    <TValue = any>(strings: TemplateStringsArray, ...values: any[]): SqlFragment<TValue>;
+
+    /**
+     * 식별자를 인용하여 삽입 ("public.users" -> "public"."users")
+     */
+    identifier(name: string): SqlFragment;
+
+    /**
+     * 신뢰할 수 있는 SQL 문자열을 그대로 삽입 (사용자 입력 금지)
+     */
+    raw<TValue = any>(text: string): SqlFragment<TValue>;
+
+    /**
+     * 값/조각 목록을 구분자로 연결 (값은 각각 파라미터가 됩니다)
+     * 빈 목록은 IN ()처럼 잘못된 SQL이 되므로 에러를 던집니다 (빈 목록 처리는 호출하는 쪽에서 분기)
+     * @example sql`id IN (${sql.join(ids)})`
+     * @throws {Error} 목록이 비어 있는 경우
+     */
+    join(items: readonly any[], separator?: string): SqlFragment;
+}
+
+function createSqlTag(): SqlTag {
+    const tag = (<TValue = any>(strings: TemplateStringsArray, ...values: any[]): SqlFragment<TValue> =>
+        new SqlFragment<TValue>([...strings], values)) as SqlTag;
+
+    tag.identifier = (name: string) => new SqlFragment([quoteQualifiedName(name)], []);
+
+    tag.raw = <TValue = any>(text: string) => new SqlFragment<TValue>([text], []);
+
+    tag.join = (items: readonly any[], separator: string = ", ") => {
+        if (items.length === 0) {
+            throw new Error("sql.join() requires at least one item.");
+        }
+        const strings = ["", ...items.slice(1).map(() => separator), ""];
+        return new SqlFragment(strings, [...items]);
+    };
+
+    return tag;
+}
+
+/**
+ * 원시 SQL 태그
+ */
+export const sql: SqlTag = createSqlTag();
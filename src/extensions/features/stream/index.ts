@@ -0,0 +1 @@
+export * from "./stream";
\ No newline at end of file
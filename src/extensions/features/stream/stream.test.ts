@@ -0,0 +1,112 @@
+import { once } from "events";
+import { Writable } from "stream";
+import { pipeline } from "stream/promises";
+import { beforeAll, describe, expect, it } from "vitest";
+import { createTestClient, executedQueries, getTestDatabase, setTestConnectionFactory } from "../../../__tests__/database";
+import { createRepository } from "../../../repository/createRepository";
+import { gt } from "../../../repository/select/where/operators";
+
+const numbers = createRepository<{ n: number }>({ tableName: "stream_numbers" });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE stream_numbers (n INT NOT NULL);
+        INSERT INTO stream_numbers SELECT generate_series(1, 25);
+    `);
+});
+
+describe("stream", () => {
+    it("batchSize 단위로 FETCH하며 모든 행을 순서대로 읽음", async () => {
+        const rows: number[] = [];
+        for await (const row of numbers.select().orderBy("n").stream({ batchSize: 10 })) {
+            rows.push(row.n);
+        }
+
+        expect(rows).toEqual(Array.from({ length: 25 }, (_, i) => i + 1));
+        expect(executedQueries.filter((sql) => sql.startsWith("FETCH"))).toHaveLength(3);
+        expect(executedQueries.at(-1)).toBe("COMMIT");
+    });
+
+    it("WHERE 파라미터를 DECLARE에 전달하고 Readable로 파이프", async () => {
+        const rows: number[] = [];
+        await pipeline(
+            numbers.select(["n"]).where(gt("n", 20)).orderBy("n", "DESC").stream({ batchSize: 2 }),
+            new Writable({
+                objectMode: true,
+                write(row: { n: number }, _encoding, callback) {
+                    rows.push(row.n);
+                    callback();
+                },
+            })
+        );
+
+        expect(rows).toEqual([25, 24, 23, 22, 21]);
+        expect(executedQueries[1]).toMatch(
+            /^DECLARE "select_stream_\d+" NO SCROLL CURSOR FOR SELECT "n" FROM "stream_numbers" WHERE "n" > \$1 ORDER BY "n" DESC$/
+        );
+    });
+
+    it("중간에 break하면 커서 트랜잭션을 롤백하고 나머지를 읽지 않음", async () => {
+        const rows: number[] = [];
+        const stream = numbers.select().orderBy("n").stream({ batchSize: 5 });
+        for await (const row of stream) {
+            rows.push(row.n);
+            if (rows.length === 3) {
+                break;
+            }
+        }
+        if (!stream.closed) {
+            await new Promise((resolve) => stream.once("close", resolve));
+        }
+
+        // 버퍼를 채우기 위해 한 배치를 미리 읽을 수 있지만 나머지는 FETCH하지 않습니다
+        expect(rows).toEqual([1, 2, 3]);
+        expect(executedQueries.filter((sql) => sql.startsWith("FETCH")).length).toBeLessThanOrEqual(2);
+        expect(executedQueries.at(-1)).toBe("ROLLBACK");
+    });
+
+    it.each(["BEGIN", "DECLARE"])("%s 실행 중 destroy되면 반환된 연결을 다시 사용하지 않음", async (held) => {
+        let releaseHeld!: () => void;
+        let holding!: () => void;
+        const heldStarted = new Promise<void>((resolve) => (holding = resolve));
+        const queries: string[] = [];
+        let released = false;
+
+        setTestConnectionFactory(async () => {
+            const client = createTestClient({
+                beforeQuery: async (sql) => {
+                    if (sql.startsWith(held)) {
+                        holding();
+                        await new Promise<void>((resolve) => (releaseHeld = resolve));
+                    }
+                },
+            });
+            const query = client.query.bind(client) as (...args: any[]) => Promise<any>;
+            (client as any).query = (sql: string, params?: any[]) => {
+                queries.push(sql.split(" ")[0]);
+                return query(sql, params);
+            };
+            client.release = () => {
+                released = true;
+            };
+            return client;
+        });
+
+        const stream = numbers.select().stream({ batchSize: 10 });
+        stream.read();
+        await heldStarted;
+
+        // ROLLBACK은 붙잡힌 쿼리 뒤에 실행되므로 풀어 준 뒤에 close됩니다
+        stream.destroy();
+        releaseHeld();
+        await once(stream, "close");
+        await new Promise((resolve) => setTimeout(resolve, 50));
+
+        // ROLLBACK 뒤에는 (다른 호출자가 가져갔을 수 있는) 연결에 아무것도 실행하지 않습니다
+        expect(released).toBe(true);
+        expect(queries).toEqual(held === "BEGIN" ? ["BEGIN", "ROLLBACK"] : ["BEGIN", "DECLARE", "ROLLBACK"]);
+    });
+    it("잘못된 batchSize는 스트림을 만들기 전에 에러", () => {
+        expect(() => numbers.select().stream({ batchSize: 0 })).toThrow("batchSize must be a positive integer: 0");
+    });
+});
@@ -0,0 +1,184 @@
+import { PoolClient } from "pg";
+import { Readable } from "stream";
+import { getConnection } from "../../../utils/connection";
+import { Logger } from "../../../utils/logger";
+import { quoteIdentifier } from "../../../utils/identifier";
+import { getTransactionContext, TransactionContext } from "../../../middleware/connection";
+
+/**
+ * 기본 FETCH 크기
+ */
+export const DEFAULT_STREAM_BATCH_SIZE = 1000;
+
+/**
+ * 스트리밍 옵션
+ */
+export interface StreamOptions {
+    /**
+     * 한 번에 FETCH할 행 수 (스트림 버퍼 크기로도 사용)
+     * @default 1000
+     */
+    batchSize?: number;
+}
+
+/**
+ * 조회 결과 스트림
+ * objectMode Readable이며 for await...of로 순회할 수 있습니다
+ */
+export type SelectStream<TResult> = Readable & AsyncIterable<TResult>;
+
+let cursorSequence = 0;
+
+/**
+ * 서버 측 커서(DECLARE ... CURSOR / FETCH)로 행을 읽는 Readable
+ * 소비자가 읽을 때만 다음 배치를 FETCH하므로 역압(backpressure)을 따릅니다
+ * transaction() 안에서 만들면 그 트랜잭션의 연결에 커서를 열고, 끝나면 커서만 닫습니다
+ */
+class CursorReadable extends Readable {
+    private readonly query: { sql: string; params: any[] };
+    private readonly logger: Logger;
+    private readonly batchSize: number;
+    private readonly cursorName: string;
+    private readonly ambient: TransactionContext | undefined;
+    private connection: PoolClient | null = null;
+    private fetching = false;
+    private finished = false;
+
+    constructor(query: { sql: string; params: any[] }, logger: Logger, batchSize: number) {
+        super({ objectMode: true, highWaterMark: batchSize });
+        this.query = query;
+        this.logger = logger;
+        this.batchSize = batchSize;
+        this.cursorName = quoteIdentifier(`select_stream_${++cursorSequence}`);
+        this.ambient = getTransactionContext();
+    }
+
+    _read(): void {
+        if (this.fetching || this.finished) {
+            return;
+        }
+        this.fetching = true;
+        this.fetchBatch().then(
+            () => {
+                this.fetching = false;
+            },
+            (error) => {
+                this.fetching = false;
+                if (this.ambient) {
+                    this.ambient.error ??= error;
+                }
+                this.destroy(error);
+            }
+        );
+    }
+
+    _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        // 중간에 break 하거나 에러가 나면 트랜잭션을 롤백하고 연결을 반환합니다
+        this.finished = true;
+        this.releaseConnection(false).then(
+            () => callback(error),
+            (releaseError) => callback(error ?? releaseError)
+        );
+    }
+
+    private async fetchBatch(): Promise<void> {
+        const connection = this.connection ?? (await this.openCursor());
+        if (!connection) {
+            return;
+        }
+
+        const result = await connection.query(`FETCH ${this.batchSize} FROM ${this.cursorName}`);
+        if (this.destroyed) {
+            return;
+        }
+
+        const last = result.rows.length < this.batchSize;
+        if (last) {
+            this.finished = true;
+        }
+        for (const row of result.rows) {
+            this.push(row);
+        }
+        if (last) {
+            await this.releaseConnection(true);
+            this.push(null);
+        }
+    }
+
+    /**
+     * 연결을 얻어 커서를 엽니다
+     * 기다리는 동안 destroy되면 _destroy가 이미 연결을 반환했으므로 더 사용하지 않고 null을 반환합니다
+     */
+    private async openCursor(): Promise<PoolClient | null> {
+        const declare = `DECLARE ${this.cursorName} NO SCROLL CURSOR FOR ${this.query.sql}`;
+
+        if (this.ambient) {
+            const connection = this.ambient.connection;
+            this.connection = connection;
+            this.logger.debug(`Executing SELECT stream: ${this.query.sql}`, this.query.params);
+            await connection.query(declare, this.query.params);
+            return this.destroyed ? null : connection;
+        }
+
+        const connection = await getConnection();
+        if (connection === null) {
+            throw new Error("Failed to get database connection");
+        }
+        if (this.destroyed) {
+            connection.release();
+            return null;
+        }
+        this.connection = connection;
+
+        this.logger.debug(`Executing SELECT stream: ${this.query.sql}`, this.query.params);
+        await connection.query("BEGIN");
+        if (this.destroyed) {
+            return null;
+        }
+        await connection.query(declare, this.query.params);
+        return this.destroyed ? null : connection;
+    }
+
+    private async releaseConnection(commit: boolean): Promise<void> {
+        const connection = this.connection;
+        if (!connection) {
+            return;
+        }
+        this.connection = null;
+        if (connection === this.ambient?.connection) {
+            // 바깥 트랜잭션은 그대로 두고 커서만 닫습니다 (에러로 중단된 트랜잭션은 바깥에서 롤백)
+            if (this.ambient.error === undefined) {
+                await connection.query(`CLOSE ${this.cursorName}`);
+            }
+            return;
+        }
+        try {
+            // 트랜잭션이 끝나면 커서도 닫힙니다
+            await connection.query(commit ? "COMMIT" : "ROLLBACK");
+        } finally {
+            (connection as any)._lastUse = Date.now();
+            connection.release();
+        }
+    }
+}
+
+/**
+ * SelectBuilder 쿼리를 서버 측 커서로 스트리밍합니다
+ * 전체 결과를 메모리에 올리지 않고 batchSize 단위로 읽습니다
+ * @param builder SELECT 빌더 (buildQuery 보유)
+ * @param logger 로거
+ * @param options 스트리밍 옵션
+ */
+export function streamSelect<TResult>(
+    builder: { buildQuery(startIndex?: number): { sql: string; params: any[] } },
+    logger: Logger,
+    options: StreamOptions = {}
+): SelectStream<TResult> {
+    const batchSize = options.batchSize ?? DEFAULT_STREAM_BATCH_SIZE;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+        throw new Error(`batchSize must be a positive integer: ${batchSize}`);
+    }
+
+    // 식별자 오류는 스트림을 만들기 전에 호출자에게 던집니다
+    return new CursorReadable(builder.buildQuery(), logger, batchSize) as SelectStream<TResult>;
+}
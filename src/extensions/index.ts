@@ -2,4 +2,4 @@
 // export * from "./relations";
 
 // Features exports
-// export * from "./features";
+export * from "./features";
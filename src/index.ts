@@ -7,8 +7,11 @@ export * from "./interfaces";
 // Utility exports
 export * from "./utils";
 
+// Middleware exports
+export * from "./middleware";
+
 // Extensions exports
-// export * from "./extensions";
+export * from "./extensions";
 
 // Repository exports
 export * from "./repository";
\ No newline at end of file
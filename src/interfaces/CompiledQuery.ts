@@ -0,0 +1,8 @@
+/**
+ * 실행하지 않고 생성한 SQL
+ * pg의 QueryConfig와 같은 형태이므로 connection.query()에 그대로 전달할 수 있습니다
+ */
+export interface CompiledQuery {
+    text: string;
+    values: any[];
+}
@@ -1,7 +1,94 @@
+/**
+ * 트랜잭션 격리 수준
+ */
+export type IsolationLevel = "READ COMMITTED" | "REPEATABLE READ" | "SERIALIZABLE";
+
+/**
+ * 재시도 직전에 onRetry로 전달되는 정보
+ */
+export interface TransactionRetryInfo {
+    /**
+     * 재시도 번호 (첫 재시도는 1)
+     */
+    attempt: number;
+
+    /**
+     * 최대 재시도 횟수
+     */
+    maxRetries: number;
+
+    /**
+     * 다음 시도까지 대기 시간 (ms)
+     */
+    delay: number;
+
+    /**
+     * 재시도를 일으킨 에러 (SQLSTATE 40001 또는 40P01)
+     */
+    error: unknown;
+}
+
+/**
+ * 직렬화 실패/교착 상태 자동 재시도 옵션
+ */
+export interface TransactionRetryOptions {
+    /**
+     * 최대 재시도 횟수
+     * @default 3
+     */
+    maxRetries?: number;
+
+    /**
+     * 첫 재시도 대기 시간 (ms), 이후 2배씩 증가
+     * @default 50
+     */
+    baseDelay?: number;
+
+    /**
+     * 최대 대기 시간 (ms)
+     * @default 2000
+     */
+    maxDelay?: number;
+
+    /**
+     * 재시도할 때마다 호출되는 훅
+     */
+    onRetry?: (info: TransactionRetryInfo) => void | Promise<void>;
+}
+
+/**
+ * 트랜잭션 모드 옵션
+ */
+export interface TransactionOptions {
+    /**
+     * 격리 수준 (생략하면 서버 기본값)
+     */
+    isolationLevel?: IsolationLevel;
+
+    /**
+     * 읽기 전용 트랜잭션
+     * @default false
+     */
+    readOnly?: boolean;
+
+    /**
+     * 직렬화 실패 없이 대기하는 읽기 전용 트랜잭션 (SERIALIZABLE + readOnly에서만 효과)
+     * @default false
+     */
+    deferrable?: boolean;
+
+    /**
+     * SQLSTATE 40001(serialization_failure), 40P01(deadlock_detected) 발생 시 콜백 전체 재실행
+     * true면 기본 옵션으로 재시도합니다
+     * @default false
+     */
+    retry?: boolean | TransactionRetryOptions;
+}
+
 /**
  * 트랜잭션 핸들러 옵션 인터페이스
  */
-export interface HandlerOption {
+export interface HandlerOption extends TransactionOptions {
     /**
      * 에러 발생 시 예외를 던질지 여부
      * @default true
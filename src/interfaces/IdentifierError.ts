@@ -0,0 +1,30 @@
+/**
+ * 식별자 에러 인터페이스
+ */
+export interface IdentifierErrorInfo extends Error {
+    identifier: string;
+    allowedColumns?: readonly string[];
+}
+
+/**
+ * 식별자 에러 클래스
+ * 잘못된 식별자이거나 허용 목록에 없는 컬럼을 참조할 때 발생합니다
+ */
+export class IdentifierError extends Error implements IdentifierErrorInfo {
+    identifier: string;
+    allowedColumns?: readonly string[];
+
+    constructor(message: string, identifier: string, allowedColumns?: readonly string[]) {
+        super(message);
+        this.name = "IdentifierError";
+        this.identifier = identifier;
+        this.allowedColumns = allowedColumns;
+    }
+}
+
+/**
+ * 에러가 식별자 에러인지 확인
+ */
+export function isIdentifierError(error: any): error is IdentifierError {
+    return error instanceof IdentifierError;
+}
@@ -2,4 +2,7 @@ export * from "./DatabaseConfig";
 export * from "./DbError";
 export * from "./PoolError";
 export * from "./HandlerOption";
-export * from "./ConnectionConfig";
\ No newline at end of file
+export * from "./ConnectionConfig";
+export * from "./IdentifierError";
+
+export * from "./CompiledQuery";
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { PoolClient } from "pg";
+import { TransactionOptions } from "../interfaces/HandlerOption";
+
+/**
+ * 진행 중인 트랜잭션 컨텍스트
+ */
+export interface TransactionContext {
+    /**
+     * 트랜잭션이 사용하는 연결 (transaction()이 끝날 때 반환)
+     */
+    connection: PoolClient;
+
+    /**
+     * 중첩 깊이 (최상위 트랜잭션은 0, 세이브포인트마다 1씩 증가)
+     */
+    depth: number;
+
+    /**
+     * 최상위 트랜잭션을 시작할 때 사용한 모드
+     */
+    options: TransactionOptions;
+
+    /**
+     * 트랜잭션(또는 세이브포인트) 안에서 처음 발생한 DB 에러 (있으면 커밋하지 않고 롤백)
+     */
+    error?: unknown;
+
+    /**
+     * 이 컨텍스트에서 중첩 트랜잭션(세이브포인트)이 실행 중인지 여부
+     */
+    nested?: boolean;
+}
+
+/**
+ * 비동기 호출 흐름을 따라 트랜잭션 컨텍스트를 전달하는 저장소
+ */
+const transactionStorage = new AsyncLocalStorage<TransactionContext>();
+
+/**
+ * 현재 비동기 흐름의 트랜잭션 컨텍스트를 반환합니다
+ * @returns 트랜잭션 컨텍스트 또는 undefined (transaction() 밖)
+ */
+export function getTransactionContext(): TransactionContext | undefined {
+    return transactionStorage.getStore();
+}
+
+/**
+ * 현재 비동기 흐름의 트랜잭션 연결을 반환합니다
+ * @returns 트랜잭션 연결 또는 null (transaction() 밖)
+ */
+export function getTransactionConnection(): PoolClient | null {
+    return transactionStorage.getStore()?.connection ?? null;
+}
+
+/**
+ * 트랜잭션 컨텍스트 안에서 콜백을 실행합니다
+ * 콜백에서 시작한 모든 비동기 작업이 같은 컨텍스트를 봅니다
+ */
+export function runWithTransactionContext<T>(context: TransactionContext, callback: () => Promise<T>): Promise<T> {
+    return transactionStorage.run(context, callback);
+}
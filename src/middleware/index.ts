@@ -0,0 +1,2 @@
+export * from "./connection";
+export * from "./transaction";
\ No newline at end of file
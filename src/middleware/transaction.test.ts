@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../__tests__/database";
+import { createRepository } from "../repository/createRepository";
+import { sql } from "../extensions/features/raw/raw";
+import { handler } from "../utils/transaction";
+import { transaction } from "./transaction";
+
+const accounts = createRepository<{ id: number; balance: number }>({ tableName: "transaction_accounts", keys: ["id"] });
+
+async function balances(): Promise<number[]> {
+    const { rows } = await getTestDatabase().query<{ balance: number }>("SELECT balance FROM transaction_accounts ORDER BY id");
+    return rows.map((row) => row.balance);
+}
+
+beforeEach(async () => {
+    await getTestDatabase().exec(`
+        DROP TABLE IF EXISTS transaction_accounts;
+        CREATE TABLE transaction_accounts (id INT PRIMARY KEY, balance INT NOT NULL CHECK (balance >= 0));
+        INSERT INTO transaction_accounts VALUES (1, 100), (2, 0);
+    `);
+});
+
+describe("transaction", () => {
+    it("콜백의 모든 쿼리를 한 트랜잭션으로 커밋", async () => {
+        await transaction(async () => {
+            await accounts.update().set({ balance: 70 }).where({ id: 1 }).execute();
+            await accounts.update().set({ balance: 30 }).where({ id: 2 }).execute();
+        });
+
+        expect(await balances()).toEqual([70, 30]);
+        expect(executedQueries.filter((sql) => /^(BEGIN|COMMIT|ROLLBACK)/.test(sql))).toEqual(["BEGIN", "COMMIT"]);
+    });
+
+    it("에러가 나면 모두 롤백", async () => {
+        await expect(
+            transaction(async () => {
+                await accounts.update().set({ balance: 70 }).where({ id: 1 }).execute();
+                await accounts.update().set({ balance: -1 }).where({ id: 2 }).execute({ throwError: true, printSqlError: false });
+            })
+        ).rejects.toThrow();
+
+        expect(await balances()).toEqual([100, 0]);
+    });
+
+    it("throwError: false로 삼킨 쿼리 에러도 커밋하지 않고 롤백", async () => {
+        await expect(
+            transaction(async () => {
+                await accounts.update().set({ balance: 70 }).where({ id: 1 }).execute();
+                const failed = await accounts.update().set({ balance: -1 }).where({ id: 2 }).execute({ throwError: false });
+                expect(failed).toBeNull();
+            })
+        ).rejects.toThrow();
+
+        expect(await balances()).toEqual([100, 0]);
+        expect(executedQueries.at(-1)).toBe("ROLLBACK");
+    });
+
+    it("DB 에러가 아닌 에러를 삼키면 트랜잭션은 그대로 커밋", async () => {
+        await transaction(async () => {
+            await accounts.update().set({ balance: 70 }).where({ id: 1 }).execute();
+            const skipped = await handler(
+                async () => {
+                    throw new Error("validation failed");
+                },
+                { throwError: false }
+            );
+            expect(skipped).toBeNull();
+        });
+
+        expect(await balances()).toEqual([70, 0]);
+        expect(executedQueries.at(-1)).toBe("COMMIT");
+    });
+
+    it("트랜잭션과 다른 모드를 요구하는 호출은 throwError: false여도 에러", async () => {
+        await expect(
+            transaction(() => handler(async () => true, { throwError: false, useTransaction: true, isolationLevel: "SERIALIZABLE" }))
+        ).rejects.toThrow("Cannot use isolationLevel SERIALIZABLE inside a transaction started with undefined.");
+    });
+
+    it("tx.query와 count/select도 같은 연결과 트랜잭션을 사용", async () => {
+        const result = await transaction(async (tx) => {
+            await tx.query(sql`UPDATE transaction_accounts SET balance = balance - ${40} WHERE id = ${1}`);
+            await tx.query("UPDATE transaction_accounts SET balance = balance + $1 WHERE id = $2", [40, 2]);
+            return await accounts.select(["balance"]).orderBy("id").execute();
+        });
+
+        expect(result).toEqual([{ balance: 60 }, { balance: 40 }]);
+        expect(executedQueries.filter((sql) => sql === "BEGIN")).toHaveLength(1);
+    });
+
+    it("중첩 호출은 세이브포인트까지만 되돌림", async () => {
+        await transaction(async () => {
+            await accounts.update().set({ balance: 70 }).where({ id: 1 }).execute();
+            await transaction(async () => {
+                await accounts.update().set({ balance: 30 }).where({ id: 2 }).execute();
+                throw new Error("inner");
+            }).catch(() => undefined);
+        });
+
+        expect(await balances()).toEqual([70, 0]);
+        expect(executedQueries.filter((sql) => /^(BEGIN|COMMIT|ROLLBACK|SAVEPOINT|RELEASE)/.test(sql))).toEqual([
+            "BEGIN",
+            'SAVEPOINT "sp_1"',
+            'ROLLBACK TO SAVEPOINT "sp_1"',
+            'RELEASE SAVEPOINT "sp_1"',
+            "COMMIT",
+        ]);
+    });
+
+    it("세이브포인트는 깊이마다 이름이 다르고 성공하면 RELEASE", async () => {
+        await transaction(async () => {
+            await transaction(async () => {
+                await accounts.update().set({ balance: 90 }).where({ id: 1 }).execute();
+                await transaction(async () => {
+                    await accounts.update().set({ balance: 10 }).where({ id: 2 }).execute();
+                });
+            });
+        });
+
+        expect(await balances()).toEqual([90, 10]);
+        expect(executedQueries.filter((sql) => /^(SAVEPOINT|RELEASE)/.test(sql))).toEqual([
+            'SAVEPOINT "sp_1"',
+            'SAVEPOINT "sp_2"',
+            'RELEASE SAVEPOINT "sp_2"',
+            'RELEASE SAVEPOINT "sp_1"',
+        ]);
+    });
+
+    it("안쪽 에러를 잡지 않으면 바깥 트랜잭션도 롤백", async () => {
+        await expect(
+            transaction(async () => {
+                await accounts.update().set({ balance: 70 }).where({ id: 1 }).execute();
+                await transaction(async () => {
+                    throw new Error("inner");
+                });
+            })
+        ).rejects.toThrow("inner");
+
+        expect(await balances()).toEqual([100, 0]);
+    });
+
+    it("같은 트랜잭션에서 중첩 호출을 동시에 실행하면 에러", async () => {
+        const results = await transaction(async () =>
+            Promise.allSettled([
+                transaction(async () => {
+                    await accounts.update().set({ balance: 70 }).where({ id: 1 }).execute();
+                }),
+                transaction(async () => {
+                    await accounts.update().set({ balance: 30 }).where({ id: 2 }).execute();
+                }),
+            ])
+        );
+
+        expect(results[0].status).toBe("fulfilled");
+        expect(results[1]).toMatchObject({
+            status: "rejected",
+            reason: expect.objectContaining({ message: expect.stringContaining("cannot run concurrently") }),
+        });
+        expect(await balances()).toEqual([70, 0]);
+    });
+
+    it("하나씩 await한 중첩 호출은 각각 세이브포인트로 실행", async () => {
+        await transaction(async () => {
+            await transaction(async () => {
+                await accounts.update().set({ balance: 70 }).where({ id: 1 }).execute();
+            });
+            await transaction(async () => {
+                await accounts.update().set({ balance: 30 }).where({ id: 2 }).execute();
+            });
+        });
+
+        expect(await balances()).toEqual([70, 30]);
+    });
+
+    it("격리 수준과 읽기 전용 옵션으로 BEGIN", async () => {
+        const result = await transaction(() => accounts.select(["balance"]).where({ id: 1 }).execute(), {
+            isolationLevel: "SERIALIZABLE",
+            readOnly: true,
+        });
+
+        expect(result).toEqual([{ balance: 100 }]);
+        expect(executedQueries[0]).toBe("BEGIN ISOLATION LEVEL SERIALIZABLE, READ ONLY");
+    });
+
+    it("바깥과 다른 격리 수준의 중첩 트랜잭션은 세이브포인트 없이 거부", async () => {
+        await expect(
+            transaction(
+                () => transaction(async () => undefined, { isolationLevel: "READ COMMITTED" }),
+                { isolationLevel: "REPEATABLE READ" }
+            )
+        ).rejects.toThrow("Cannot use isolationLevel READ COMMITTED inside a transaction started with REPEATABLE READ.");
+
+        expect(executedQueries).toEqual(["BEGIN ISOLATION LEVEL REPEATABLE READ", "ROLLBACK"]);
+    });
+
+    it("retry 옵션이면 직렬화 실패 후 콜백 전체를 새 트랜잭션으로 다시 실행", async () => {
+        let attempts = 0;
+        await transaction(
+            async () => {
+                await accounts.update().set({ balance: 50 }).where({ id: 1 }).execute();
+                if (++attempts === 1) {
+                    throw Object.assign(new Error("could not serialize access"), { code: "40001" });
+                }
+            },
+            { isolationLevel: "SERIALIZABLE", retry: { baseDelay: 1 } }
+        );
+
+        expect(attempts).toBe(2);
+        expect(await balances()).toEqual([50, 0]);
+        expect(executedQueries.filter((sql) => /^(BEGIN|COMMIT|ROLLBACK)/.test(sql))).toEqual([
+            "BEGIN ISOLATION LEVEL SERIALIZABLE",
+            "ROLLBACK",
+            "BEGIN ISOLATION LEVEL SERIALIZABLE",
+            "COMMIT",
+        ]);
+    });
+});
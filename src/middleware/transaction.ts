@@ -0,0 +1,181 @@
+import { PoolClient, QueryResult, QueryResultRow } from "pg";
+import { getConnection } from "../utils/connection";
+import { getLogger } from "../utils/logger";
+import { quoteIdentifier } from "../utils/identifier";
+import { assertJoinableTransaction, buildBeginStatement, retryTransaction } from "../utils/transaction";
+import { TransactionOptions } from "../interfaces/HandlerOption";
+import { isDbError } from "../interfaces/DbError";
+import { isSqlFragment, SqlFragment } from "../extensions/features/raw/raw";
+import { getTransactionContext, runWithTransactionContext, TransactionContext } from "./connection";
+
+const logger = getLogger();
+
+/**
+ * transaction() 콜백에 전달되는 트랜잭션 객체
+ */
+export interface Transaction {
+    /**
+     * 트랜잭션이 사용하는 연결
+     */
+    readonly connection: PoolClient;
+
+    /**
+     * 트랜잭션 연결로 SQL 실행
+     * @example tx.query("UPDATE stock SET qty = qty - $1 WHERE id = $2", [1, id])
+     */
+    query<R extends QueryResultRow = any>(sql: string, params?: any[]): Promise<QueryResult<R>>;
+
+    /**
+     * 트랜잭션 연결로 sql`...` 조각 실행
+     */
+    query<R extends QueryResultRow = any>(sql: SqlFragment<any, any>): Promise<QueryResult<R>>;
+}
+
+/**
+ * 컨텍스트의 연결로 트랜잭션 객체 생성
+ */
+function createTransaction(context: TransactionContext): Transaction {
+    return {
+        connection: context.connection,
+
+        async query(sqlOrFragment: string | SqlFragment<any, any>, params?: any[]): Promise<QueryResult<any>> {
+            const { sql, params: values } = isSqlFragment(sqlOrFragment)
+                ? sqlOrFragment.buildQuery()
+                : { sql: sqlOrFragment, params };
+            try {
+                return await context.connection.query(sql, values);
+            } catch (e) {
+                if (isDbError(e)) {
+                    context.error ??= e;
+                }
+                throw e;
+            }
+        },
+    };
+}
+
+/**
+ * 롤백 실패는 원래 에러를 가리지 않도록 로그만 남깁니다
+ */
+async function rollbackQuietly(connection: PoolClient, sql: string): Promise<void> {
+    try {
+        await connection.query(sql);
+    } catch (rollbackError) {
+        logger.error("Failed to rollback transaction");
+        logger.errorWithStack("Rollback error", rollbackError);
+    }
+}
+
+/**
+ * 컨텍스트 안에서 콜백을 실행하고, 삼킨 에러가 있으면 다시 던집니다
+ */
+async function runCallback<T>(context: TransactionContext, callback: (tx: Transaction) => Promise<T>): Promise<T> {
+    const result = await runWithTransactionContext(context, () => callback(createTransaction(context)));
+
+    // throwError: false로 삼킨 에러가 있으면 커밋할 수 없습니다
+    if (context.error !== undefined) {
+        throw context.error;
+    }
+    return result;
+}
+
+/**
+ * 바깥 트랜잭션 안에서 세이브포인트로 중첩 트랜잭션 실행
+ * 실패하면 세이브포인트까지만 되돌리므로 바깥 트랜잭션은 에러를 잡고 계속 진행할 수 있습니다
+ * 같은 연결의 세이브포인트는 스택이므로 (ROLLBACK TO는 뒤에 만든 세이브포인트까지 되돌림)
+ * 같은 트랜잭션에서 중첩 호출을 동시에 실행하면 (Promise.all 등) 에러를 던집니다
+ */
+async function runSavepoint<T>(parent: TransactionContext, callback: (tx: Transaction) => Promise<T>): Promise<T> {
+    if (parent.nested) {
+        throw new Error(
+            "Nested transaction() calls cannot run concurrently in the same transaction. Await each nested transaction() before starting the next."
+        );
+    }
+
+    const { connection } = parent;
+    const context: TransactionContext = { connection, depth: parent.depth + 1, options: parent.options };
+    const savepoint = quoteIdentifier(`sp_${context.depth}`);
+
+    parent.nested = true;
+    try {
+        await connection.query(`SAVEPOINT ${savepoint}`);
+        try {
+            const result = await runCallback(context, callback);
+            await connection.query(`RELEASE SAVEPOINT ${savepoint}`);
+            return result;
+        } catch (e) {
+            await rollbackQuietly(connection, `ROLLBACK TO SAVEPOINT ${savepoint}`);
+            await rollbackQuietly(connection, `RELEASE SAVEPOINT ${savepoint}`);
+            throw e;
+        }
+    } finally {
+        parent.nested = false;
+    }
+}
+
+/**
+ * 콜백 안의 모든 리포지토리 호출을 하나의 트랜잭션으로 묶습니다
+ * 콜백에서 시작한 execute()/query()는 새 연결 대신 이 트랜잭션의 연결을 사용하고,
+ * 콜백이 끝나면 함께 커밋되며 에러가 나면 함께 롤백됩니다
+ * 이미 transaction() 안이면 SAVEPOINT로 중첩되어, 안쪽 실패는 안쪽 작업만 되돌립니다
+ * 중첩된 호출은 재시도하지 않고 에러를 바깥으로 전달하며, 바깥과 다른 모드를 요구하면 에러를 던집니다
+ * 중첩된 호출은 하나씩 await해야 합니다 (같은 트랜잭션 안에서 동시에 실행하면 에러)
+ * @param callback 트랜잭션 안에서 실행할 함수 (retry 사용 시 여러 번 실행될 수 있음)
+ * @param options 격리 수준, 읽기 전용, 재시도 옵션
+ * @returns 콜백의 반환값
+ * @throws 콜백 또는 트랜잭션 안의 쿼리에서 발생한 에러 (롤백 후 다시 던짐)
+ * @example
+ * await transaction(async () => {
+ *     await orderRepository.insert(order).execute();
+ *     await stockRepository.update().set({ qty: stock.qty - 1 }).where({ id: stock.id }).execute();
+ * });
+ * @example
+ * // 잘못된 레코드만 건너뛰기
+ * await transaction(async () => {
+ *     for (const record of records) {
+ *         await transaction(() => importRecord(record)).catch((e) => skipped.push({ record, e }));
+ *     }
+ * });
+ * @example
+ * // 직렬화 실패 시 최대 5번 재시도
+ * await transaction(transfer, {
+ *     isolationLevel: "SERIALIZABLE",
+ *     retry: { maxRetries: 5, onRetry: ({ attempt, error }) => logger.warn(`retry ${attempt}`, error) },
+ * });
+ */
+export async function transaction<T>(
+    callback: (tx: Transaction) => Promise<T>,
+    options: TransactionOptions = {}
+): Promise<T> {
+    const current = getTransactionContext();
+    if (current) {
+        assertJoinableTransaction(current, options);
+        return await runSavepoint(current, callback);
+    }
+
+    return await retryTransaction(options.retry, () => runTransaction(callback, options));
+}
+
+/**
+ * 새 연결에서 최상위 트랜잭션을 한 번 실행
+ */
+async function runTransaction<T>(callback: (tx: Transaction) => Promise<T>, options: TransactionOptions): Promise<T> {
+    const connection = await getConnection();
+    if (connection === null) {
+        throw new Error("Failed to get database connection");
+    }
+
+    const context: TransactionContext = { connection, depth: 0, options };
+    try {
+        await connection.query(buildBeginStatement(options));
+        const result = await runCallback(context, callback);
+        await connection.query("COMMIT");
+        return result;
+    } catch (e) {
+        await rollbackQuietly(connection, "ROLLBACK");
+        throw e;
+    } finally {
+        (connection as any)._lastUse = Date.now();
+        connection.release();
+    }
+}
@@ -0,0 +1,39 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../__tests__/database";
+import { createRepository } from "../createRepository";
+import { or } from "../select/where/conditions";
+import { eq, gt } from "../select/where/operators";
+
+const users = createRepository<any>({ tableName: "count_users", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE count_users (id INT PRIMARY KEY, status TEXT NOT NULL, age INT NOT NULL);
+        INSERT INTO count_users VALUES (1, 'active', 20), (2, 'active', 40), (3, 'banned', 30);
+    `);
+});
+
+describe("CountBuilder", () => {
+    it("조건이 없으면 전체 개수", async () => {
+        expect(await users.count().execute()).toBe(3);
+        expect(executedQueries).toContain('SELECT COUNT(*) FROM "count_users"');
+    });
+
+    it("WHERE 절을 한 번만 붙이고 파라미터를 전달", async () => {
+        expect(await users.count().where({ status: "active" }).where(gt("age", 30)).execute()).toBe(1);
+        expect(executedQueries).toContain('SELECT COUNT(*) FROM "count_users" WHERE ("status" = $1) AND ("age" > $2)');
+    });
+
+    it("ConditionNode 조건", async () => {
+        expect(await users.count().where(or(eq("status", "banned"), gt("age", 35))).execute()).toBe(2);
+    });
+});
+
+describe("CountBuilder.toSQL", () => {
+    it("WHERE 조건", () => {
+        expect(users.count().where({ status: "active" }).toSQL()).toEqual({
+            text: 'SELECT COUNT(*) FROM "count_users" WHERE "status" = $1',
+            values: ["active"],
+        });
+    });
+});
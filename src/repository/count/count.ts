@@ -2,43 +2,76 @@ import { QueryResultRow } from "pg";
 import { Logger } from "../../utils/logger";
 import { handler } from "../../utils/transaction";
 import { HandlerOption } from "../../interfaces/HandlerOption";
+import { CompiledQuery } from "../../interfaces/CompiledQuery";
+import { ExplainOptions, ExplainResult, explainQuery } from "../../utils/explain";
 import { PoolClient } from "pg";
-import { buildWhereClause } from "../select/where";
+import { buildWhereClause, mergeWhereInput, WhereInput } from "../select/where";
+import { ColumnQuoter, quoteColumn, quoteQualifiedName } from "../../utils/identifier";
 
 export interface ICountBuilder<TEntity extends QueryResultRow = any> {
-    where(conditions: Record<string, any>): ICountBuilder<TEntity>;
+    where(conditions: WhereInput<TEntity>): ICountBuilder<TEntity>;
+    toSQL(): CompiledQuery;
+    explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null>;
     execute(options?: HandlerOption): Promise<number | null>;
 }
 
 export type CountFunction<TEntity extends QueryResultRow = any> = () => ICountBuilder<TEntity>;
 
-export function createCountFunction<TEntity extends QueryResultRow = any>(tableName: string, logger: Logger): CountFunction<TEntity> {
+export function createCountFunction<TEntity extends QueryResultRow = any>(
+    tableName: string,
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
+): CountFunction<TEntity> {
     return function count(): ICountBuilder<TEntity> {
-        return new CountBuilder<TEntity>(tableName, logger);
+        return new CountBuilder<TEntity>(tableName, logger, quote);
     };
 }
 
 export class CountBuilder<TEntity extends QueryResultRow = any> implements ICountBuilder<TEntity> {
     private tableName: string;
     private logger: Logger;
-    private whereConditions: Record<string, any> = {};
+    private quote: ColumnQuoter;
+    private whereConditions: WhereInput = null;
 
-    constructor(tableName: string, logger: Logger) {
+    constructor(tableName: string, logger: Logger, quote: ColumnQuoter = quoteColumn) {
         this.tableName = tableName;
         this.logger = logger;
+        this.quote = quote;
     }
 
-    where(conditions: Record<string, any>): ICountBuilder<TEntity> {
-        this.whereConditions = { ...this.whereConditions, ...conditions };
+    where(conditions: WhereInput<TEntity>): ICountBuilder<TEntity> {
+        this.whereConditions = mergeWhereInput(this.whereConditions, conditions);
         return this;
     }
 
+    buildQuery(startIndex: number = 1): { sql: string; params: any[] } {
+        const { sql: whereSql, params } = buildWhereClause(this.whereConditions, startIndex, this.quote);
+        const query = `SELECT COUNT(*) FROM ${quoteQualifiedName(this.tableName)}${whereSql ? ` ${whereSql}` : ""}`;
+        return { sql: query, params };
+    }
+
+    toSQL(): CompiledQuery {
+        const { sql, params } = this.buildQuery();
+        return { text: sql, values: params };
+    }
+
+    async explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null> {
+        return await explainQuery(this.buildQuery(), this.logger, options, handlerOptions);
+    }
+
     async execute(options?: HandlerOption): Promise<number | null> {
+        const { sql: query, params } = this.buildQuery();
+
         return await handler(
             async (connection: PoolClient) => {
-                const whereClause = buildWhereClause(this.whereConditions);
-                const query = `SELECT COUNT(*) FROM ${this.tableName} ${whereClause.sql ? `WHERE ${whereClause.sql}` : ""}`;
-                const result = await connection.query<{ count: string }>(query);
+                this.logger.debug(`Executing COUNT: ${query}`, params);
+                const result = await connection.query<{ count: string }>(query, params);
                 return Number(result.rows[0].count);
             },
             { useTransaction: true, ...options }
@@ -4,12 +4,32 @@ import { getConnection } from "../utils/connection";
 import { getLogger, createLogger, Logger } from "../utils/logger";
 import { handler } from "../utils/transaction";
 import { HandlerOption } from "../interfaces/HandlerOption";
-import { createSelectFunction, ISelectBuilder } from "./select/select";
+import { createColumnQuoter } from "../utils/identifier";
+import { ColumnRef, createSelectFunction, ISelectBuilder, SelectColumn, SelectResult } from "./select/select";
 import { createSelectOneBuilder, ISelectOneBuilder } from "./selectOne/selectOne";
 import { createInsertFunction, IInsertBuilder } from "./insert/insert";
 import { createUpdateFunction, IUpdateBuilder } from "./update/update";
 import { createDeleteFunction, IDeleteBuilder } from "./delete/delete";
 import { createCountFunction, ICountBuilder } from "./count/count";
+import {
+  createAvgFunction,
+  createCountDistinctFunction,
+  createMaxFunction,
+  createMinFunction,
+  createSumFunction,
+  ICalculateBuilder,
+} from "../extensions/features/calculate";
+import { PaginatedResult, RepositoryPaginationOptions } from "../extensions/features/pagination";
+import { isSqlFragment, SqlFragment } from "../extensions/features/raw/raw";
+import {
+  BulkDeleteKey,
+  BulkDeleteOptions,
+  BulkInsertOptions,
+  BulkUpdateOptions,
+  createBulkDeleteFunction,
+  createBulkInsertFunction,
+  createBulkUpdateFunction,
+} from "../extensions/features/bulk";
 
 /**
  * Repository 생성 옵션 인터페이스
@@ -31,6 +51,13 @@ export interface RepositoryOptions<TEntity extends QueryResultRow = any, TCreate
    */
   autoSetKeys?: string[];
 
+  /**
+   * 허용할 컬럼 목록 (선택사항)
+   * 지정하면 SELECT/WHERE/ORDER BY/RETURNING 등에서 목록에 없는 컬럼을 IdentifierError로 거부합니다
+   * 외부 입력(정렬 필드 등)을 컬럼 이름으로 사용할 때 지정하세요. JOIN 대상 테이블의 컬럼도 포함해야 합니다
+   */
+  columns?: string[];
+
   /**
    * 로거 사용 여부 (true면 repository 전용 로거 생성, false면 기본 로거 사용)
    */
@@ -71,6 +98,12 @@ export interface Repository<TEntity extends QueryResultRow = any, TCreate = any>
    */
   query(sql: string, params?: any[], options?: HandlerOption): Promise<QueryResult | null>;
 
+  /**
+   * sql`...` 조각 실행 (파라미터 번호 자동 부여)
+   * @example repository.query(sql`SELECT * FROM ${sql.identifier("users")} WHERE id = ${id}`)
+   */
+  query(sql: SqlFragment<any, any>, options?: HandlerOption): Promise<QueryResult | null>;
+
   /**
    * DB 연결 풀 가져오기
    */
@@ -84,14 +117,28 @@ export interface Repository<TEntity extends QueryResultRow = any, TCreate = any>
   /**
    * SELECT 쿼리 빌더 시작
    * @param columns 조회할 컬럼 목록 (선택사항, 기본값: "*")
+   * 집계 표현식(count, sum 등)을 포함하면 결과 타입이 집계 형태로 바뀝니다
+   */
+  select<const TColumns extends readonly SelectColumn<TEntity>[] = []>(
+    columns?: TColumns
+  ): ISelectBuilder<TEntity, SelectResult<TEntity, TColumns>>;
+
+  /**
+   * 페이지 단위 조회
+   * 같은 WHERE로 데이터와 전체 개수를 함께 반환합니다
    */
-  select(columns?: string[]): ISelectBuilder<TEntity>;
+  paginate(
+    pagination: RepositoryPaginationOptions<TEntity>,
+    options?: HandlerOption
+  ): Promise<PaginatedResult<TEntity> | null>;
 
   /**
    * SELECT 쿼리 빌더 시작
    * @param columns 단일로 조회 가능.
    */
-  selectOne(columns?: string[]): ISelectOneBuilder<TEntity>;
+  selectOne<const TColumns extends readonly SelectColumn<TEntity>[] = []>(
+    columns?: TColumns
+  ): ISelectOneBuilder<TEntity, SelectResult<TEntity, TColumns>>;
 
   /**
    * INSERT 쿼리 빌더 시작
@@ -100,21 +147,75 @@ export interface Repository<TEntity extends QueryResultRow = any, TCreate = any>
    */
   insert(data?: TCreate | TCreate[]): IInsertBuilder<TEntity, TCreate>;
 
+  /**
+   * 대량 INSERT (파라미터 제한에 맞춰 청크로 나누어 하나의 트랜잭션에서 실행)
+   * mode: "copy"를 사용하면 COPY ... FROM STDIN으로 스트리밍합니다
+   * @returns returning을 설정한 경우 삽입된 행 목록, 아니면 삽입된 행 수
+   */
+  bulkInsert(rows: TCreate[], bulkOptions?: BulkInsertOptions, options?: HandlerOption): Promise<TEntity[] | number | null>;
+
   /**
    * UPDATE 쿼리 빌더 시작
    * 기본적으로 Partial<TEntity> 를 업데이트 타입으로 사용
    */
   update(): IUpdateBuilder<TEntity, Partial<TEntity>>;
 
+  /**
+   * 대량 UPDATE (행마다 다른 값을 UPDATE ... FROM (VALUES ...)로 갱신)
+   * 기준 컬럼은 bulkOptions.by 또는 Repository keys를 사용합니다
+   * @returns returning을 설정한 경우 갱신된 행 목록, 아니면 갱신된 행 수
+   */
+  bulkUpdate(
+    rows: Partial<TEntity>[],
+    bulkOptions?: BulkUpdateOptions,
+    options?: HandlerOption
+  ): Promise<TEntity[] | number | null>;
+
   /**
    * DELETE 쿼리 빌더 시작
    */
   delete(): IDeleteBuilder<TEntity>;
 
+  /**
+   * 키 목록으로 대량 DELETE
+   * 단일 키는 = ANY($1), 복합 키는 (a, b) IN (...)으로 삭제합니다
+   * @returns returning을 설정한 경우 삭제된 행 목록, 아니면 삭제된 행 수
+   */
+  bulkDelete(
+    keyValues: BulkDeleteKey[],
+    bulkOptions?: BulkDeleteOptions,
+    options?: HandlerOption
+  ): Promise<TEntity[] | number | null>;
+
   /**
    * COUNT 쿼리 빌더 시작
    */
   count(): ICountBuilder<TEntity>;
+
+  /**
+   * COUNT(DISTINCT column) 집계 빌더 시작
+   */
+  countDistinct(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, number>;
+
+  /**
+   * SUM 집계 빌더 시작 (결과는 기본적으로 number로 파싱)
+   */
+  sum(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, number>;
+
+  /**
+   * AVG 집계 빌더 시작 (결과는 기본적으로 number로 파싱)
+   */
+  avg(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, number>;
+
+  /**
+   * MIN 집계 빌더 시작 (결과는 드라이버 반환값 그대로)
+   */
+  min(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, any>;
+
+  /**
+   * MAX 집계 빌더 시작 (결과는 드라이버 반환값 그대로)
+   */
+  max(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, any>;
 }
 
 /**
@@ -133,7 +234,7 @@ const repositoryCache = new Map<string, Repository<any, any>>();
 export function createRepository<TEntity extends QueryResultRow = any, TCreate = any>(
   options: RepositoryOptions<TEntity, TCreate>
 ): Repository<TEntity, TCreate> {
-  const { tableName, keys = [], autoSetKeys = [], logger: useLogger, customLogger } = options;
+  const { tableName, keys = [], autoSetKeys = [], columns, logger: useLogger, customLogger } = options;
 
   // 캐시 키 생성 (tableName 기반)
   const cacheKey = tableName;
@@ -149,13 +250,24 @@ export function createRepository<TEntity extends QueryResultRow = any, TCreate =
   // DB 연결 풀 가져오기 (싱글톤)
   const pool = getConnectionPool();
 
+  // 컬럼 식별자 인용 (허용 목록 검사 포함)
+  const quote = createColumnQuoter(columns, tableName);
+
   // Select 함수 생성
-  const selectFn = createSelectFunction<TEntity>(tableName, repoLogger);
-  const selectOneFn = createSelectOneBuilder<TEntity>(tableName, repoLogger);
-  const insertFn = createInsertFunction<TEntity, TCreate>(tableName, repoLogger);
-  const updateFn = createUpdateFunction<TEntity, Partial<TEntity>>(tableName, repoLogger);
-  const deleteFn = createDeleteFunction<TEntity>(tableName, repoLogger);
-  const countFn = createCountFunction<TEntity>(tableName, repoLogger);
+  const selectFn = createSelectFunction<TEntity>(tableName, repoLogger, keys, quote);
+  const selectOneFn = createSelectOneBuilder<TEntity>(tableName, repoLogger, quote);
+  const insertFn = createInsertFunction<TEntity, TCreate>(tableName, repoLogger, keys, quote);
+  const bulkInsertFn = createBulkInsertFunction<TEntity, TCreate>(tableName, repoLogger, quote);
+  const updateFn = createUpdateFunction<TEntity, Partial<TEntity>>(tableName, repoLogger, quote);
+  const bulkUpdateFn = createBulkUpdateFunction<TEntity>(tableName, repoLogger, keys, quote);
+  const deleteFn = createDeleteFunction<TEntity>(tableName, repoLogger, quote);
+  const bulkDeleteFn = createBulkDeleteFunction<TEntity>(tableName, repoLogger, keys, quote);
+  const countFn = createCountFunction<TEntity>(tableName, repoLogger, quote);
+  const countDistinctFn = createCountDistinctFunction<TEntity>(tableName, repoLogger, quote);
+  const sumFn = createSumFunction<TEntity>(tableName, repoLogger, quote);
+  const avgFn = createAvgFunction<TEntity>(tableName, repoLogger, quote);
+  const minFn = createMinFunction<TEntity>(tableName, repoLogger, quote);
+  const maxFn = createMaxFunction<TEntity>(tableName, repoLogger, quote);
   // Repository 구현
   const repository: Repository<TEntity, TCreate> = {
     tableName,
@@ -163,7 +275,21 @@ export function createRepository<TEntity extends QueryResultRow = any, TCreate =
     autoSetKeys,
     logger: repoLogger,
 
-    async query(sql: string, params?: any[], options?: HandlerOption): Promise<QueryResult | null> {
+    async query(
+      sqlOrFragment: string | SqlFragment<any, any>,
+      paramsOrOptions?: any[] | HandlerOption,
+      options?: HandlerOption
+    ): Promise<QueryResult | null> {
+      let sql: string;
+      let params: any[] | undefined;
+      if (isSqlFragment(sqlOrFragment)) {
+        ({ sql, params } = sqlOrFragment.buildQuery());
+        options = paramsOrOptions as HandlerOption | undefined;
+      } else {
+        sql = sqlOrFragment;
+        params = paramsOrOptions as any[] | undefined;
+      }
+
       return await handler(
         async (connection: PoolClient) => {
           repoLogger.debug(`Executing query: ${sql}`, params || []);
@@ -182,11 +308,35 @@ export function createRepository<TEntity extends QueryResultRow = any, TCreate =
       return await getConnection();
     },
 
-    select(columns?: string[]): ISelectBuilder<TEntity> {
+    select<const TColumns extends readonly SelectColumn<TEntity>[] = []>(
+      columns?: TColumns
+    ): ISelectBuilder<TEntity, SelectResult<TEntity, TColumns>> {
       return selectFn(columns);
     },
 
-    selectOne(columns?: string[]): ISelectOneBuilder<TEntity> {
+    async paginate(
+      pagination: RepositoryPaginationOptions<TEntity>,
+      options?: HandlerOption
+    ): Promise<PaginatedResult<TEntity> | null> {
+      const { where, orderBy, ...pageOptions } = pagination;
+      const builder = selectFn();
+      if (where) {
+        builder.where(where);
+      }
+      const orderByList = orderBy === undefined ? [] : Array.isArray(orderBy) ? orderBy : [orderBy];
+      for (const item of orderByList) {
+        if (typeof item === "string") {
+          builder.orderBy(item);
+        } else {
+          builder.orderBy(item.column, item.order);
+        }
+      }
+      return await builder.paginate(pageOptions, options);
+    },
+
+    selectOne<const TColumns extends readonly SelectColumn<TEntity>[] = []>(
+      columns?: TColumns
+    ): ISelectOneBuilder<TEntity, SelectResult<TEntity, TColumns>> {
       return selectOneFn(columns);
     },
 
@@ -194,17 +344,61 @@ export function createRepository<TEntity extends QueryResultRow = any, TCreate =
       return insertFn(data);
     },
 
+    async bulkInsert(
+      rows: TCreate[],
+      bulkOptions?: BulkInsertOptions,
+      options?: HandlerOption
+    ): Promise<TEntity[] | number | null> {
+      return await bulkInsertFn(rows, bulkOptions, options);
+    },
+
     update(): IUpdateBuilder<TEntity, Partial<TEntity>> {
       return updateFn();
     },
 
+    async bulkUpdate(
+      rows: Partial<TEntity>[],
+      bulkOptions?: BulkUpdateOptions,
+      options?: HandlerOption
+    ): Promise<TEntity[] | number | null> {
+      return await bulkUpdateFn(rows, bulkOptions, options);
+    },
+
     delete(): IDeleteBuilder<TEntity> {
       return deleteFn();
     },
 
+    async bulkDelete(
+      keyValues: BulkDeleteKey[],
+      bulkOptions?: BulkDeleteOptions,
+      options?: HandlerOption
+    ): Promise<TEntity[] | number | null> {
+      return await bulkDeleteFn(keyValues, bulkOptions, options);
+    },
+
     count(): ICountBuilder<TEntity> {
       return countFn();
     },
+
+    countDistinct(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, number> {
+      return countDistinctFn(column);
+    },
+
+    sum(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, number> {
+      return sumFn(column);
+    },
+
+    avg(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, number> {
+      return avgFn(column);
+    },
+
+    min(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, any> {
+      return minFn(column);
+    },
+
+    max(column: ColumnRef<TEntity>): ICalculateBuilder<TEntity, any> {
+      return maxFn(column);
+    },
   };
 
   // 캐시에 저장
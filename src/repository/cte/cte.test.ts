@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../__tests__/database";
+import { createRepository } from "../createRepository";
+import { count } from "../select/aggregate/aggregate";
+import { gt } from "../select/where/operators";
+
+const categories = createRepository<any>({ tableName: "cte_categories", keys: ["id"] });
+const orders = createRepository<any>({ tableName: "cte_orders", keys: ["id"] });
+const archive = createRepository<any>({ tableName: "cte_orders_archive", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE cte_categories (id INT PRIMARY KEY, parent_id INT, name TEXT NOT NULL);
+        INSERT INTO cte_categories VALUES (1, NULL, 'root'), (2, 1, 'books'), (3, 2, 'novels'), (4, NULL, 'other');
+        CREATE TABLE cte_orders (id INT PRIMARY KEY, status TEXT NOT NULL, amount INT NOT NULL);
+        CREATE TABLE cte_orders_archive (id INT PRIMARY KEY, status TEXT NOT NULL, amount INT NOT NULL);
+        INSERT INTO cte_orders VALUES (1, 'done', 100), (2, 'open', 200), (3, 'done', 300);
+    `);
+});
+
+describe("CTE", () => {
+    it("WITH 절의 파라미터가 본문 파라미터보다 먼저 번호를 받음", async () => {
+        const rows = await orders
+            .select(["status", count("*").as("total")])
+            .with("big", orders.select().where(gt("amount", 150)), { materialized: false })
+            .from("big")
+            .where({ status: "done" })
+            .groupBy("status")
+            .execute();
+
+        expect(rows).toEqual([{ status: "done", total: "1" }]);
+        expect(executedQueries[0]).toBe(
+            'WITH "big" AS NOT MATERIALIZED (SELECT * FROM "cte_orders" WHERE "amount" > $1) ' +
+                'SELECT "status", COUNT(*) AS "total" FROM "big" WHERE "status" = $2 GROUP BY "status"'
+        );
+    });
+
+    it("WITH RECURSIVE로 트리 하위 항목 조회", async () => {
+        const anchor = categories.select(["id", "parent_id", "name"]).where({ id: 1 });
+        const children = categories
+            .select(["c.id", "c.parent_id", "c.name"])
+            .as("c")
+            .innerJoin({ table: "tree", alias: "t" }, { "c.parent_id": "t.id" });
+
+        const rows = await categories
+            .select(["id", "name"])
+            .withRecursive("tree", anchor, children)
+            .from("tree")
+            .orderBy("id")
+            .execute();
+
+        expect(rows).toEqual([
+            { id: 1, name: "root" },
+            { id: 2, name: "books" },
+            { id: 3, name: "novels" },
+        ]);
+        expect(executedQueries[0]).toContain('WITH RECURSIVE "tree" AS (SELECT "id", "parent_id", "name" FROM');
+        expect(executedQueries[0]).toContain(' UNION ALL SELECT "c"."id", "c"."parent_id", "c"."name" FROM');
+    });
+
+    it("데이터 변경 CTE로 삭제한 행을 다른 테이블에 INSERT", async () => {
+        const rows = await archive
+            .insert()
+            .with("moved", orders.delete().where({ status: "done" }).returning(["*"]))
+            .fromSelect(orders.select(["id", "status", "amount"]).from("moved"), ["id", "status", "amount"])
+            .returning(["id"])
+            .execute({ throwError: true });
+
+        expect(rows!.map((row) => row.id).sort()).toEqual([1, 3]);
+        expect(executedQueries).toContain(
+            'WITH "moved" AS (DELETE FROM "cte_orders" WHERE "status" = $1 RETURNING *) ' +
+                'INSERT INTO "cte_orders_archive" ("id", "status", "amount") SELECT "id", "status", "amount" FROM "moved" RETURNING "id"'
+        );
+
+        const { rows: remaining } = await getTestDatabase().query("SELECT id FROM cte_orders");
+        expect(remaining).toEqual([{ id: 2 }]);
+    });
+
+    it("같은 이름의 CTE는 에러", () => {
+        const query = orders.select();
+        expect(() => query.with("x", orders.select()).with("x", orders.select())).toThrow('CTE "x" is already defined.');
+    });
+});
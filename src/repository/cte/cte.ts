@@ -0,0 +1,118 @@
+import { Subquery } from "../select/where/operators";
+import { quoteAlias, quoteIdentifier } from "../../utils/identifier";
+
+/**
+ * CTE 옵션
+ */
+export interface CteOptions {
+    /**
+     * CTE 결과 컬럼 이름 목록 (WITH name (a, b) AS ...)
+     */
+    columns?: string[];
+
+    /**
+     * 인라인 여부 지정 (true: MATERIALIZED, false: NOT MATERIALIZED)
+     * 생략하면 PostgreSQL이 결정합니다
+     */
+    materialized?: boolean;
+}
+
+/**
+ * 재귀 CTE 옵션
+ */
+export interface RecursiveCteOptions extends CteOptions {
+    /**
+     * UNION ALL 사용 여부 (false면 UNION으로 중복 행 제거, 순환 그래프에서 사용)
+     * @default true
+     */
+    unionAll?: boolean;
+}
+
+/**
+ * CTE 정의
+ * query는 SELECT 뿐 아니라 RETURNING을 지정한 INSERT/UPDATE/DELETE 빌더도 사용할 수 있습니다
+ */
+export interface CteDefinition {
+    name: string;
+    query: Subquery;
+    columns?: string[];
+    materialized?: boolean;
+    recursive?: {
+        query: Subquery;
+        unionAll: boolean;
+    };
+}
+
+/**
+ * CTE 정의 생성
+ */
+export function createCteDefinition(name: string, query: Subquery, options: CteOptions = {}): CteDefinition {
+    return { name, query, columns: options.columns, materialized: options.materialized };
+}
+
+/**
+ * 재귀 CTE 정의 생성
+ * @param anchor 시작 행을 조회하는 쿼리
+ * @param recursive CTE 이름을 JOIN하여 다음 행을 조회하는 쿼리
+ */
+export function createRecursiveCteDefinition(
+    name: string,
+    anchor: Subquery,
+    recursive: Subquery,
+    options: RecursiveCteOptions = {}
+): CteDefinition {
+    return {
+        name,
+        query: anchor,
+        columns: options.columns,
+        materialized: options.materialized,
+        recursive: { query: recursive, unionAll: options.unionAll ?? true },
+    };
+}
+
+/**
+ * CTE 목록에 정의 추가 (같은 이름은 허용하지 않음)
+ */
+export function appendCteDefinition(list: CteDefinition[], definition: CteDefinition): CteDefinition[] {
+    if (list.some((cte) => cte.name === definition.name)) {
+        throw new Error(`CTE "${definition.name}" is already defined.`);
+    }
+    return [...list, definition];
+}
+
+/**
+ * WITH 절을 SQL과 파라미터로 변환
+ * 재귀 CTE가 하나라도 있으면 WITH RECURSIVE를 사용합니다
+ * @param ctes CTE 정의 목록
+ * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+ */
+export function buildWithClause(ctes: CteDefinition[], startIndex: number = 1): { sql: string; params: any[] } {
+    if (ctes.length === 0) {
+        return { sql: "", params: [] };
+    }
+
+    const params: any[] = [];
+    const parts = ctes.map((cte) => {
+        const anchor = cte.query.buildQuery(startIndex + params.length);
+        params.push(...anchor.params);
+        let body = anchor.sql;
+
+        if (cte.recursive) {
+            const recursive = cte.recursive.query.buildQuery(startIndex + params.length);
+            params.push(...recursive.params);
+            body += ` ${cte.recursive.unionAll ? "UNION ALL" : "UNION"} ${recursive.sql}`;
+        }
+
+        const columnList =
+            cte.columns && cte.columns.length > 0
+                ? ` (${cte.columns.map((column) => quoteIdentifier(column)).join(", ")})`
+                : "";
+        const materialized =
+            cte.materialized === undefined ? "" : cte.materialized ? "MATERIALIZED " : "NOT MATERIALIZED ";
+
+        return `${quoteAlias(cte.name)}${columnList} AS ${materialized}(${body})`;
+    });
+
+    const keyword = ctes.some((cte) => cte.recursive) ? "WITH RECURSIVE" : "WITH";
+    return { sql: `${keyword} ${parts.join(", ")}`, params };
+}
@@ -0,0 +1 @@
+export * from "./cte";
\ No newline at end of file
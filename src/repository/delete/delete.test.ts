@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { createRepository } from "../createRepository";
+
+const users = createRepository<any>({ tableName: "delete_users", keys: ["id"] });
+
+describe("DeleteBuilder.toSQL", () => {
+    it("WHERE 조건", () => {
+        expect(users.delete().where({ id: 1 }).toSQL()).toEqual({
+            text: 'DELETE FROM "delete_users" WHERE "id" = $1',
+            values: [1],
+        });
+    });
+
+    it("RETURNING", () => {
+        expect(users.delete().where({ id: 1 }).returning(["id"]).toSQL().text).toBe(
+            'DELETE FROM "delete_users" WHERE "id" = $1 RETURNING "id"'
+        );
+    });
+});
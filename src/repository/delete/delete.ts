@@ -1,7 +1,11 @@
 import { PoolClient, QueryResultRow } from "pg";
 import { handler } from "../../utils/transaction";
 import { HandlerOption } from "../../interfaces/HandlerOption";
+import { CompiledQuery } from "../../interfaces/CompiledQuery";
+import { ExplainOptions, ExplainResult, explainQuery } from "../../utils/explain";
 import { Logger } from "../../utils/logger";
+import { ColumnRef } from "../select/select";
+import { ColumnQuoter, quoteColumn, quoteQualifiedName } from "../../utils/identifier";
 import { buildWhereClause, WhereInput } from "../select/where/where";
 
 /**
@@ -12,12 +16,31 @@ export interface IDeleteBuilder<TEntity extends QueryResultRow = any> {
     /**
      * WHERE 절 설정 (객체 또는 ConditionNode)
      */
-    where(where: WhereInput): IDeleteBuilder<TEntity>;
+    where(where: WhereInput<TEntity>): IDeleteBuilder<TEntity>;
 
     /**
      * RETURNING 절 설정 (기본: 반환 안 함)
      */
-    returning(columns?: (keyof TEntity | string)[]): IDeleteBuilder<TEntity>;
+    returning(columns?: (ColumnRef<TEntity> | "*")[]): IDeleteBuilder<TEntity>;
+
+    /**
+     * SQL과 파라미터 생성 (CTE나 서브쿼리로 사용할 때 바깥 쿼리의 파라미터 번호에 이어서 생성)
+     */
+    buildQuery(startIndex?: number): { sql: string; params: any[] };
+
+    /**
+     * 실행하지 않고 SQL과 파라미터 생성 (생성된 SQL 확인, 테스트용)
+     */
+    toSQL(): CompiledQuery;
+
+    /**
+     * 실행 계획 조회 (EXPLAIN, 기본 형식은 파싱된 JSON)
+     * analyze를 사용해도 트랜잭션을 롤백하므로 데이터는 변경되지 않습니다
+     */
+    explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null>;
 
     /**
      * 쿼리 실행
@@ -33,39 +56,63 @@ export interface IDeleteBuilder<TEntity extends QueryResultRow = any> {
 export class DeleteBuilder<TEntity extends QueryResultRow = any> implements IDeleteBuilder<TEntity> {
     private tableName: string;
     private logger: Logger;
+    private quote: ColumnQuoter;
     private whereInput: WhereInput = null;
     private returningColumns?: string[];
 
-    constructor(tableName: string, logger: Logger) {
+    constructor(tableName: string, logger: Logger, quote: ColumnQuoter = quoteColumn) {
         this.tableName = tableName;
         this.logger = logger;
+        this.quote = quote;
     }
 
-    where(where: WhereInput): IDeleteBuilder<TEntity> {
+    where(where: WhereInput<TEntity>): IDeleteBuilder<TEntity> {
         this.whereInput = where;
         return this;
     }
 
-    returning(columns?: (keyof TEntity | string)[]): IDeleteBuilder<TEntity> {
+    returning(columns?: (ColumnRef<TEntity> | "*")[]): IDeleteBuilder<TEntity> {
         this.returningColumns = columns?.map((c) => String(c));
         return this;
     }
 
-    async execute(options?: HandlerOption): Promise<TEntity[] | number | null> {
-        return await handler(
-            async (connection: PoolClient) => {
-                const { sql: whereSql, params } = buildWhereClause(this.whereInput);
+    /**
+     * DELETE 쿼리를 SQL과 파라미터로 변환
+     * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+     */
+    buildQuery(startIndex: number = 1): { sql: string; params: any[] } {
+        const { sql: whereSql, params } = buildWhereClause(this.whereInput, startIndex, this.quote);
 
-                let query = `DELETE FROM ${this.tableName}`;
-                if (whereSql) {
-                    query += ` ${whereSql}`;
-                }
+        let query = `DELETE FROM ${quoteQualifiedName(this.tableName)}`;
+        if (whereSql) {
+            query += ` ${whereSql}`;
+        }
 
-                const hasReturning = this.returningColumns && this.returningColumns.length > 0;
-                if (hasReturning) {
-                    query += ` RETURNING ${this.returningColumns!.join(", ")}`;
-                }
+        if (this.returningColumns && this.returningColumns.length > 0) {
+            query += ` RETURNING ${this.returningColumns.map((column) => this.quote(column)).join(", ")}`;
+        }
+
+        return { sql: query, params };
+    }
+
+    toSQL(): CompiledQuery {
+        const { sql, params } = this.buildQuery();
+        return { text: sql, values: params };
+    }
 
+    async explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null> {
+        return await explainQuery(this.buildQuery(), this.logger, options, handlerOptions);
+    }
+
+    async execute(options?: HandlerOption): Promise<TEntity[] | number | null> {
+        const { sql: query, params } = this.buildQuery();
+        const hasReturning = this.returningColumns && this.returningColumns.length > 0;
+
+        return await handler(
+            async (connection: PoolClient) => {
                 this.logger.debug(`Executing DELETE: ${query}`, params);
 
                 const result = await connection.query<TEntity>(query, params);
@@ -91,10 +138,11 @@ export type DeleteFunction<TEntity extends QueryResultRow = any> = () => IDelete
  */
 export function createDeleteFunction<TEntity extends QueryResultRow = any>(
     tableName: string,
-    logger: Logger
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
 ): DeleteFunction<TEntity> {
     return function del(): IDeleteBuilder<TEntity> {
-        return new DeleteBuilder<TEntity>(tableName, logger);
+        return new DeleteBuilder<TEntity>(tableName, logger, quote);
     };
 }
 
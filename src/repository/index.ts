@@ -4,4 +4,5 @@ export * from "./selectOne";
 export * from "./insert";
 export * from "./update";
 export * from "./delete";
-export * from "./count";
\ No newline at end of file
+export * from "./count";
+export * from "./cte";
\ No newline at end of file
@@ -1 +1 @@
-export * from "./insert";
\ No newline at end of file
+export * from "./insert";export * from "./onConflict";
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createRepository } from "../createRepository";
+
+const users = createRepository<any>({ tableName: "insert_users", keys: ["id"] });
+
+describe("InsertBuilder.toSQL", () => {
+    it("단일 행", () => {
+        expect(users.insert({ name: "a", age: 1 }).toSQL()).toEqual({
+            text: 'INSERT INTO "insert_users" ("name", "age") VALUES ($1, $2) RETURNING *',
+            values: ["a", 1],
+        });
+    });
+
+    it("여러 행과 ON CONFLICT DO NOTHING", () => {
+        expect(users.insert([{ name: "a" }, { name: "b" }]).onConflict(["name"]).doNothing().toSQL()).toEqual({
+            text: 'INSERT INTO "insert_users" ("name") VALUES ($1), ($2) ON CONFLICT ("name") DO NOTHING RETURNING *',
+            values: ["a", "b"],
+        });
+    });
+
+    it("ON CONFLICT DO UPDATE", () => {
+        expect(users.insert({ name: "a", age: 1 }).onConflict(["name"]).doUpdate().toSQL().text).toBe(
+            'INSERT INTO "insert_users" ("name", "age") VALUES ($1, $2) ON CONFLICT ("name") DO UPDATE SET "age" = "excluded"."age" RETURNING *'
+        );
+    });
+
+    it("RETURNING 컬럼 지정", () => {
+        expect(users.insert({ name: "a" }).returning(["id"]).toSQL().text).toBe(
+            'INSERT INTO "insert_users" ("name") VALUES ($1) RETURNING "id"'
+        );
+    });
+});
@@ -1,7 +1,14 @@
 import { PoolClient, QueryResultRow } from "pg";
 import { handler } from "../../utils/transaction";
 import { HandlerOption } from "../../interfaces/HandlerOption";
+import { CompiledQuery } from "../../interfaces/CompiledQuery";
+import { ExplainOptions, ExplainResult, explainQuery } from "../../utils/explain";
 import { Logger } from "../../utils/logger";
+import { ColumnRef } from "../select/select";
+import { ColumnQuoter, quoteAlias, quoteColumn, quoteQualifiedName } from "../../utils/identifier";
+import { buildOnConflictClause, ConflictTarget, DoUpdateOptions, OnConflictDefinition } from "./onConflict";
+import { appendCteDefinition, buildWithClause, createCteDefinition, CteDefinition, CteOptions } from "../cte/cte";
+import { Subquery } from "../select/where/operators";
 
 /**
  * InsertBuilder 인터페이스
@@ -14,10 +21,59 @@ export interface IInsertBuilder<TEntity extends QueryResultRow = any, TInsert =
      */
     values(data: TInsert | TInsert[]): IInsertBuilder<TEntity, TInsert>;
 
+    /**
+     * 조회 결과를 INSERT (INSERT INTO ... SELECT)
+     * @param query SELECT 빌더 (CTE 이름을 from()으로 지정할 수 있습니다)
+     * @param columns 삽입할 컬럼 목록 (생략하면 테이블의 모든 컬럼 순서)
+     */
+    fromSelect(query: Subquery, columns?: ColumnRef<TEntity>[]): IInsertBuilder<TEntity, TInsert>;
+
+    /**
+     * CTE 추가 (WITH name AS (...) INSERT ...)
+     * @example
+     * archive.insert()
+     *     .with("moved", orders.delete().where({ status: "done" }).returning(["*"]))
+     *     .fromSelect(orders.select().from("moved"))
+     */
+    with(name: string, query: Subquery, options?: CteOptions): IInsertBuilder<TEntity, TInsert>;
+
     /**
      * RETURNING 절 설정 (기본: "*")
      */
-    returning(columns?: (keyof TEntity | string)[]): IInsertBuilder<TEntity, TInsert>;
+    returning(columns?: (ColumnRef<TEntity> | "*")[]): IInsertBuilder<TEntity, TInsert>;
+
+    /**
+     * ON CONFLICT 절 시작 (upsert)
+     * @param target 충돌 대상 컬럼 목록 또는 { constraint: 제약조건 이름 }
+     */
+    onConflict(target: ConflictTarget): IOnConflictBuilder<TEntity, TInsert>;
+
+    /**
+     * RETURNING 결과에 삽입 여부 컬럼 추가 ((xmax = 0) AS inserted)
+     * upsert 시 새로 삽입된 행(true)과 갱신된 행(false)을 구분할 수 있습니다
+     */
+    withInsertedFlag<TAlias extends string = "inserted">(
+        alias?: TAlias
+    ): IInsertBuilder<TEntity & { [K in TAlias]: boolean }, TInsert>;
+
+    /**
+     * SQL과 파라미터 생성 (CTE나 서브쿼리로 사용할 때 바깥 쿼리의 파라미터 번호에 이어서 생성)
+     */
+    buildQuery(startIndex?: number): { sql: string; params: any[] };
+
+    /**
+     * 실행하지 않고 SQL과 파라미터 생성 (생성된 SQL 확인, 테스트용)
+     */
+    toSQL(): CompiledQuery;
+
+    /**
+     * 실행 계획 조회 (EXPLAIN, 기본 형식은 파싱된 JSON)
+     * analyze를 사용해도 트랜잭션을 롤백하므로 데이터는 변경되지 않습니다
+     */
+    explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null>;
 
     /**
      * 쿼리 실행
@@ -25,6 +81,22 @@ export interface IInsertBuilder<TEntity extends QueryResultRow = any, TInsert =
     execute(options?: HandlerOption): Promise<TEntity[] | null>;
 }
 
+/**
+ * ON CONFLICT 동작 선택 인터페이스
+ */
+export interface IOnConflictBuilder<TEntity extends QueryResultRow = any, TInsert = Partial<TEntity>> {
+    /**
+     * 충돌 시 아무것도 하지 않음 (ON CONFLICT ... DO NOTHING)
+     */
+    doNothing(): IInsertBuilder<TEntity, TInsert>;
+
+    /**
+     * 충돌 시 갱신 (ON CONFLICT ... DO UPDATE SET ...)
+     * set을 생략하면 키 컬럼을 제외한 모든 삽입 컬럼을 EXCLUDED 값으로 병합합니다
+     */
+    doUpdate(options?: DoUpdateOptions): IInsertBuilder<TEntity, TInsert>;
+}
+
 /**
  * InsertBuilder 구현체
  */
@@ -33,12 +105,20 @@ export class InsertBuilder<TEntity extends QueryResultRow = any, TInsert = Parti
 {
     private tableName: string;
     private logger: Logger;
+    private keys: string[];
+    private quote: ColumnQuoter;
     private rows: TInsert[] = [];
+    private sourceQuery?: { query: Subquery; columns: string[] };
+    private cteList: CteDefinition[] = [];
     private returningColumns?: string[];
+    private onConflictDefinition?: OnConflictDefinition;
+    private insertedFlagAlias?: string;
 
-    constructor(tableName: string, logger: Logger) {
+    constructor(tableName: string, logger: Logger, keys: string[] = [], quote: ColumnQuoter = quoteColumn) {
         this.tableName = tableName;
         this.logger = logger;
+        this.keys = keys;
+        this.quote = quote;
     }
 
     values(data: TInsert | TInsert[]): IInsertBuilder<TEntity, TInsert> {
@@ -50,46 +130,136 @@ export class InsertBuilder<TEntity extends QueryResultRow = any, TInsert = Parti
         return this;
     }
 
-    returning(columns?: (keyof TEntity | string)[]): IInsertBuilder<TEntity, TInsert> {
+    fromSelect(query: Subquery, columns?: ColumnRef<TEntity>[]): IInsertBuilder<TEntity, TInsert> {
+        this.sourceQuery = { query, columns: columns ? columns.map((c) => String(c)) : [] };
+        return this;
+    }
+
+    with(name: string, query: Subquery, options?: CteOptions): IInsertBuilder<TEntity, TInsert> {
+        this.cteList = appendCteDefinition(this.cteList, createCteDefinition(name, query, options));
+        return this;
+    }
+
+    returning(columns?: (ColumnRef<TEntity> | "*")[]): IInsertBuilder<TEntity, TInsert> {
         this.returningColumns = columns?.map((c) => String(c));
         return this;
     }
 
+    onConflict(target: ConflictTarget): IOnConflictBuilder<TEntity, TInsert> {
+        return {
+            doNothing: () => {
+                this.onConflictDefinition = { target, action: "NOTHING" };
+                return this;
+            },
+            doUpdate: (options?: DoUpdateOptions) => {
+                this.onConflictDefinition = { target, action: "UPDATE", update: options };
+                return this;
+            },
+        };
+    }
+
+    withInsertedFlag<TAlias extends string = "inserted">(
+        alias?: TAlias
+    ): IInsertBuilder<TEntity & { [K in TAlias]: boolean }, TInsert> {
+        this.insertedFlagAlias = alias || "inserted";
+        return this as unknown as IInsertBuilder<TEntity & { [K in TAlias]: boolean }, TInsert>;
+    }
+
+    /**
+     * INSERT 쿼리를 SQL과 파라미터로 변환
+     * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+     */
+    buildQuery(startIndex: number = 1): { sql: string; params: any[] } {
+        if (this.rows.length === 0 && !this.sourceQuery) {
+            throw new Error("Insert values are not set.");
+        }
+
+        // WITH 절 (cte 모듈 사용)
+        const { sql: withClause, params: values } = buildWithClause(this.cteList, startIndex);
+        let paramIndex = startIndex + values.length;
+
+        const tableName = quoteQualifiedName(this.tableName);
+        let columns: string[];
+        let source: string;
+
+        if (this.sourceQuery) {
+            // INSERT ... SELECT (서브쿼리 파라미터는 WITH 이후 인덱스부터)
+            columns = this.sourceQuery.columns;
+            const built = this.sourceQuery.query.buildQuery(paramIndex);
+            source = built.sql;
+            values.push(...built.params);
+            paramIndex += built.params.length;
+        } else {
+            const first = this.rows[0] as Record<string, any>;
+            columns = Object.keys(first);
+
+            if (columns.length === 0) {
+                throw new Error("No columns to insert.");
+            }
+
+            const valueGroups: string[] = [];
+            for (const row of this.rows) {
+                const record = row as Record<string, any>;
+                const rowValues = columns.map((col) => record[col]);
+                const placeholders = rowValues.map(() => `$${paramIndex++}`).join(", ");
+                valueGroups.push(`(${placeholders})`);
+                values.push(...rowValues);
+            }
+            source = `VALUES ${valueGroups.join(", ")}`;
+        }
+
+        const columnList = columns.length > 0 ? ` (${columns.map((column) => this.quote(column)).join(", ")})` : "";
+        let query = `INSERT INTO ${tableName}${columnList} ${source}`;
+        if (withClause) {
+            query = `${withClause} ${query}`;
+        }
+
+        // ON CONFLICT 절 (VALUES 이후의 인덱스부터 시작)
+        if (this.onConflictDefinition) {
+            const { sql: conflictSql, params: conflictParams } = buildOnConflictClause(
+                this.onConflictDefinition,
+                columns,
+                this.keys,
+                paramIndex,
+                this.quote
+            );
+            query += ` ${conflictSql}`;
+            values.push(...conflictParams);
+        }
+
+        const returningColumns =
+            this.returningColumns && this.returningColumns.length > 0
+                ? this.returningColumns.map((column) => this.quote(column))
+                : ["*"];
+        if (this.insertedFlagAlias) {
+            returningColumns.push(`(xmax = 0) AS ${quoteAlias(this.insertedFlagAlias)}`);
+        }
+        query += ` RETURNING ${returningColumns.join(", ")}`;
+
+        return { sql: query, params: values };
+    }
+
+    toSQL(): CompiledQuery {
+        const { sql, params } = this.buildQuery();
+        return { text: sql, values: params };
+    }
+
+    async explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null> {
+        return await explainQuery(this.buildQuery(), this.logger, options, handlerOptions);
+    }
+
     async execute(options?: HandlerOption): Promise<TEntity[] | null> {
-        if (this.rows.length === 0) {
+        if (this.rows.length === 0 && !this.sourceQuery) {
             throw new Error("Insert values are not set.");
         }
 
+        const { sql: query, params: values } = this.buildQuery();
+
         return await handler(
             async (connection: PoolClient) => {
-                const first = this.rows[0] as Record<string, any>;
-                const columns = Object.keys(first);
-
-                if (columns.length === 0) {
-                    throw new Error("No columns to insert.");
-                }
-
-                const values: any[] = [];
-                const valueGroups: string[] = [];
-                let paramIndex = 1;
-
-                for (const row of this.rows) {
-                    const record = row as Record<string, any>;
-                    const rowValues = columns.map((col) => record[col]);
-                    const placeholders = rowValues.map(() => `$${paramIndex++}`).join(", ");
-                    valueGroups.push(`(${placeholders})`);
-                    values.push(...rowValues);
-                }
-
-                const returningClause =
-                    this.returningColumns && this.returningColumns.length > 0
-                        ? ` RETURNING ${this.returningColumns.join(", ")}`
-                        : " RETURNING *";
-
-                const query = `INSERT INTO ${this.tableName} (${columns.join(
-                    ", "
-                )}) VALUES ${valueGroups.join(", ")}${returningClause}`;
-
                 this.logger.debug(`Executing INSERT: ${query}`, values);
 
                 const result = await connection.query<TEntity>(query, values);
@@ -112,10 +282,12 @@ export type InsertFunction<TEntity extends QueryResultRow = any, TInsert = Parti
  */
 export function createInsertFunction<TEntity extends QueryResultRow = any, TInsert = Partial<TEntity>>(
     tableName: string,
-    logger: Logger
+    logger: Logger,
+    keys: string[] = [],
+    quote: ColumnQuoter = quoteColumn
 ): InsertFunction<TEntity, TInsert> {
     return function insert(data?: TInsert | TInsert[]): IInsertBuilder<TEntity, TInsert> {
-        const builder = new InsertBuilder<TEntity, TInsert>(tableName, logger);
+        const builder = new InsertBuilder<TEntity, TInsert>(tableName, logger, keys, quote);
         if (data !== undefined) {
             builder.values(data);
         }
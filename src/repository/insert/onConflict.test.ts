@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../__tests__/database";
+import { createRepository } from "../createRepository";
+import { excluded } from "./onConflict";
+import { gt } from "../select/where/operators";
+
+const users = createRepository<any>({ tableName: "upsert_users", keys: ["id"] });
+
+beforeEach(async () => {
+    await getTestDatabase().exec(`
+        DROP TABLE IF EXISTS upsert_users;
+        CREATE TABLE upsert_users (id SERIAL PRIMARY KEY, email TEXT UNIQUE NOT NULL, name TEXT NOT NULL, visits INT NOT NULL DEFAULT 0);
+        INSERT INTO upsert_users (email, name, visits) VALUES ('a@x', 'A', 1);
+    `);
+});
+
+describe("InsertBuilder.onConflict", () => {
+    it("doNothing은 충돌한 행을 건너뜀", async () => {
+        const rows = await users
+            .insert([
+                { email: "a@x", name: "A2" },
+                { email: "b@x", name: "B" },
+            ])
+            .onConflict(["email"])
+            .doNothing()
+            .execute();
+
+        expect(rows!.map((row) => row.email)).toEqual(["b@x"]);
+        expect(executedQueries).toContain(
+            'INSERT INTO "upsert_users" ("email", "name") VALUES ($1, $2), ($3, $4) ON CONFLICT ("email") DO NOTHING RETURNING *'
+        );
+    });
+
+    it("doUpdate는 set을 생략하면 키와 충돌 대상을 제외한 컬럼을 EXCLUDED 값으로 병합", async () => {
+        const rows = await users
+            .insert({ email: "a@x", name: "A2", visits: 5 })
+            .onConflict(["email"])
+            .doUpdate()
+            .withInsertedFlag()
+            .execute();
+
+        expect(rows).toEqual([{ id: 1, email: "a@x", name: "A2", visits: 5, inserted: false }]);
+    });
+
+    it("doUpdate의 set 값과 WHERE 조건은 VALUES 뒤에 번호를 매김", async () => {
+        const updated = await users
+            .insert({ email: "a@x", name: "ignored" })
+            .onConflict({ constraint: "upsert_users_email_key" })
+            .doUpdate({ set: { name: excluded("email"), visits: 10 }, where: gt("upsert_users.visits", 0) })
+            .withInsertedFlag("created")
+            .execute();
+        const skipped = await users
+            .insert({ email: "a@x", name: "ignored" })
+            .onConflict(["email"])
+            .doUpdate({ set: { visits: 20 }, where: gt("upsert_users.visits", 100) })
+            .execute();
+
+        expect(updated).toEqual([{ id: 1, email: "a@x", name: "a@x", visits: 10, created: false }]);
+        expect(skipped).toEqual([]);
+        expect(executedQueries).toContain(
+            'INSERT INTO "upsert_users" ("email", "name") VALUES ($1, $2) ON CONFLICT ON CONSTRAINT "upsert_users_email_key" DO UPDATE SET "name" = "excluded"."email", "visits" = $3 WHERE "upsert_users"."visits" > $4 RETURNING *, (xmax = 0) AS "created"'
+        );
+    });
+
+    it("새로 삽입된 행은 inserted가 true", async () => {
+        const rows = await users.insert({ email: "c@x", name: "C" }).onConflict(["email"]).doUpdate().withInsertedFlag().execute();
+
+        expect(rows).toMatchObject([{ email: "c@x", inserted: true }]);
+    });
+
+    it("갱신할 컬럼이 없으면 에러", async () => {
+        await expect(users.insert({ email: "a@x" }).onConflict(["email"]).doUpdate().execute({ throwError: true })).rejects.toThrow(
+            "No columns to update on conflict."
+        );
+    });
+});
@@ -0,0 +1,125 @@
+import { buildConditionClause, WhereInput } from "../select/where/where";
+import { col, ColumnReference, isColumnReference } from "../select/where/operators";
+import { ColumnQuoter, quoteColumn, quoteIdentifier } from "../../utils/identifier";
+
+/**
+ * ON CONFLICT 대상
+ * - 컬럼 목록: ON CONFLICT (email)
+ * - 제약조건 이름: ON CONFLICT ON CONSTRAINT users_email_key
+ */
+export type ConflictTarget = string[] | { constraint: string };
+
+/**
+ * DO UPDATE 옵션
+ */
+export interface DoUpdateOptions {
+    /**
+     * 갱신할 값 (excluded()로 삽입하려던 값 참조 가능)
+     * 생략하면 키 컬럼과 충돌 대상 컬럼을 제외한 모든 삽입 컬럼을 EXCLUDED 값으로 갱신합니다
+     */
+    set?: Record<string, any>;
+
+    /**
+     * 갱신 조건 (DO UPDATE ... WHERE)
+     */
+    where?: WhereInput;
+}
+
+/**
+ * ON CONFLICT 정의
+ */
+export interface OnConflictDefinition {
+    target: ConflictTarget;
+    action: "NOTHING" | "UPDATE";
+    update?: DoUpdateOptions;
+}
+
+/**
+ * EXCLUDED 컬럼 참조 (충돌로 삽입되지 못한 값)
+ * @example .doUpdate({ set: { name: excluded("name") } })
+ */
+export function excluded(column: string): ColumnReference {
+    return col(`excluded.${column}`);
+}
+
+/**
+ * ON CONFLICT 대상을 SQL로 변환
+ */
+function buildConflictTarget(target: ConflictTarget, quote: ColumnQuoter): string {
+    if (Array.isArray(target)) {
+        if (target.length === 0) {
+            throw new Error("ON CONFLICT target columns are empty.");
+        }
+        return `(${target.map((column) => quote(column)).join(", ")})`;
+    }
+    return `ON CONSTRAINT ${quoteIdentifier(target.constraint)}`;
+}
+
+/**
+ * 병합 모드의 SET 값 생성 (키/충돌 대상 컬럼을 제외한 삽입 컬럼을 EXCLUDED 값으로 갱신)
+ */
+function buildMergeSet(target: ConflictTarget, insertColumns: string[], keys: string[]): Record<string, any> {
+    const excludedColumns = new Set([...keys, ...(Array.isArray(target) ? target : [])]);
+    const set: Record<string, any> = {};
+    for (const column of insertColumns) {
+        if (!excludedColumns.has(column)) {
+            set[column] = excluded(column);
+        }
+    }
+    return set;
+}
+
+/**
+ * ON CONFLICT 절을 SQL로 변환
+ * @param definition ON CONFLICT 정의
+ * @param insertColumns INSERT 대상 컬럼 목록 (병합 모드에서 사용)
+ * @param keys Repository 키 컬럼 목록 (병합 모드에서 제외)
+ * @param startIndex 파라미터 플레이스홀더 시작 인덱스
+ * @param quote 컬럼 식별자 변환 함수
+ */
+export function buildOnConflictClause(
+    definition: OnConflictDefinition,
+    insertColumns: string[],
+    keys: string[],
+    startIndex: number,
+    quote: ColumnQuoter = quoteColumn
+): { sql: string; params: any[] } {
+    const target = buildConflictTarget(definition.target, quote);
+
+    if (definition.action === "NOTHING") {
+        return { sql: `ON CONFLICT ${target} DO NOTHING`, params: [] };
+    }
+
+    // excluded.컬럼은 삽입하려던 행이므로 기본 허용 목록으로 검사합니다
+    const scoped = quote.withQualifiers(["excluded"]);
+
+    const update = definition.update || {};
+    const set = update.set || buildMergeSet(definition.target, insertColumns, keys);
+    const entries = Object.entries(set).filter(([, value]) => value !== undefined);
+
+    if (entries.length === 0) {
+        throw new Error("No columns to update on conflict. Use doNothing() or specify set values.");
+    }
+
+    const setClauses: string[] = [];
+    const params: any[] = [];
+    let paramIndex = startIndex;
+
+    for (const [column, value] of entries) {
+        if (isColumnReference(value)) {
+            setClauses.push(`${quote(column)} = ${scoped(value.name)}`);
+        } else {
+            setClauses.push(`${quote(column)} = $${paramIndex++}`);
+            params.push(value);
+        }
+    }
+
+    let sql = `ON CONFLICT ${target} DO UPDATE SET ${setClauses.join(", ")}`;
+
+    const { sql: whereSql, params: whereParams } = buildConditionClause(update.where, paramIndex, scoped);
+    if (whereSql) {
+        sql += ` WHERE ${whereSql}`;
+    }
+
+    return { sql, params: params.concat(whereParams) };
+}
@@ -0,0 +1,102 @@
+import { ColumnQuoter, quoteAlias, quoteColumn } from "../../../utils/identifier";
+import { WindowExpression, WindowSpec } from "../window/window";
+
+/**
+ * 집계 함수 종류
+ */
+export type AggregateFunction = "COUNT" | "SUM" | "AVG" | "MIN" | "MAX" | "ARRAY_AGG";
+
+/**
+ * 집계 표현식
+ * SELECT 컬럼 목록과 HAVING 조건에서 사용합니다
+ * TAlias: 결과 행의 키 이름, TValue: 결과 값 타입
+ */
+export class AggregateExpression<TAlias extends string = string, TValue = any> {
+    readonly fn: AggregateFunction;
+    readonly column: string;
+    readonly distinct: boolean;
+    readonly alias: TAlias;
+
+    /**
+     * 결과 타입 추론용 (런타임 값 없음)
+     */
+    declare readonly __value?: TValue;
+
+    constructor(fn: AggregateFunction, column: string, alias: TAlias, distinct: boolean = false) {
+        this.fn = fn;
+        this.column = column;
+        this.alias = alias;
+        this.distinct = distinct;
+    }
+
+    /**
+     * 결과 별칭 설정
+     */
+    as<TNewAlias extends string>(alias: TNewAlias): AggregateExpression<TNewAlias, TValue> {
+        return new AggregateExpression<TNewAlias, TValue>(this.fn, this.column, alias, this.distinct);
+    }
+
+    /**
+     * 윈도우 집계로 변환 (누적 합계 등)
+     * @example sum("amount").over({ partitionBy: "account_id", orderBy: "created_at" }).as("balance")
+     */
+    over(window: WindowSpec | string = {}): WindowExpression<TAlias, TValue> {
+        if (this.distinct) {
+            throw new Error("DISTINCT is not supported in window aggregates.");
+        }
+        return new WindowExpression<TAlias, TValue>(this.fn, this.column, [], this.alias, window);
+    }
+
+    /**
+     * 별칭 없이 집계 표현식만 SQL로 변환 (HAVING 등에서 사용)
+     */
+    toSql(quote: ColumnQuoter = quoteColumn): string {
+        return `${this.fn}(${this.distinct ? "DISTINCT " : ""}${quote(this.column)})`;
+    }
+}
+
+/**
+ * 값이 집계 표현식인지 확인
+ */
+export function isAggregateExpression(value: any): value is AggregateExpression {
+    return value instanceof AggregateExpression;
+}
+
+/**
+ * 집계 표현식을 SELECT 컬럼으로 변환 (별칭 포함)
+ */
+export function buildAggregateColumn(expression: AggregateExpression, quote: ColumnQuoter = quoteColumn): string {
+    return `${expression.toSql(quote)} AS ${quoteAlias(expression.alias)}`;
+}
+
+/**
+ * 집계 함수 헬퍼
+ * PostgreSQL은 COUNT/SUM(bigint, numeric)/AVG 결과를 문자열로 반환하므로 기본 타입은 string입니다
+ */
+export function count<TValue = string>(column: string = "*"): AggregateExpression<"count", TValue> {
+    return new AggregateExpression("COUNT", column, "count");
+}
+
+export function countDistinct<TValue = string>(column: string): AggregateExpression<"count", TValue> {
+    return new AggregateExpression("COUNT", column, "count", true);
+}
+
+export function sum<TValue = string>(column: string): AggregateExpression<"sum", TValue> {
+    return new AggregateExpression("SUM", column, "sum");
+}
+
+export function avg<TValue = string>(column: string): AggregateExpression<"avg", TValue> {
+    return new AggregateExpression("AVG", column, "avg");
+}
+
+export function min<TValue = any>(column: string): AggregateExpression<"min", TValue> {
+    return new AggregateExpression("MIN", column, "min");
+}
+
+export function max<TValue = any>(column: string): AggregateExpression<"max", TValue> {
+    return new AggregateExpression("MAX", column, "max");
+}
+
+export function arrayAgg<TValue = any>(column: string): AggregateExpression<"array_agg", TValue[]> {
+    return new AggregateExpression("ARRAY_AGG", column, "array_agg");
+}
@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../createRepository";
+import { arrayAgg, avg, count, countDistinct, max, sum } from "../aggregate/aggregate";
+import { gt, gte } from "../where/operators";
+
+const sales = createRepository<any>({ tableName: "group_sales", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE group_sales (id INT PRIMARY KEY, region TEXT NOT NULL, seller TEXT NOT NULL, amount INT NOT NULL);
+        INSERT INTO group_sales VALUES
+            (1, 'east', 'kim', 100), (2, 'east', 'kim', 200), (3, 'east', 'lee', 300),
+            (4, 'west', 'park', 50);
+    `);
+});
+
+describe("GROUP BY / HAVING", () => {
+    it("집계 표현식과 별칭으로 그룹별 결과를 조회", async () => {
+        const rows = await sales
+            .select(["region", count().as("orders"), sum("amount").as("revenue"), max("amount"), countDistinct("seller").as("sellers")])
+            .groupBy("region")
+            .orderBy("region")
+            .execute();
+
+        expect(rows).toEqual([
+            { region: "east", orders: "3", revenue: "600", max: 300, sellers: "2" },
+            { region: "west", orders: "1", revenue: "50", max: 50, sellers: "1" },
+        ]);
+        expect(executedQueries[0]).toBe(
+            'SELECT "region", COUNT(*) AS "orders", SUM("amount") AS "revenue", MAX("amount") AS "max", COUNT(DISTINCT "seller") AS "sellers" FROM "group_sales" GROUP BY "region" ORDER BY "region" ASC'
+        );
+    });
+
+    it("HAVING은 집계 표현식 조건을 WHERE 파라미터 뒤에 번호를 매김", async () => {
+        const rows = await sales
+            .select(["region", avg("amount")])
+            .where(gte("amount", 100))
+            .groupBy("region")
+            .having(gt(count(), 1))
+            .execute();
+
+        expect(rows).toEqual([{ region: "east", avg: "200.0000000000000000" }]);
+        expect(executedQueries[0]).toBe(
+            'SELECT "region", AVG("amount") AS "avg" FROM "group_sales" WHERE "amount" >= $1 GROUP BY "region" HAVING COUNT(*) > $2'
+        );
+    });
+
+    it("여러 groupBy/having 호출은 누적", async () => {
+        const rows = await sales
+            .select(["region", "seller", arrayAgg("id").as("ids")])
+            .groupBy("region")
+            .groupBy("seller")
+            .having(gt(count(), 0))
+            .having(gt(sum("amount"), 100))
+            .orderBy("seller")
+            .execute();
+
+        expect(rows).toEqual([
+            { region: "east", seller: "kim", ids: [1, 2] },
+            { region: "east", seller: "lee", ids: [3] },
+        ]);
+    });
+});
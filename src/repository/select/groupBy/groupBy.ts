@@ -0,0 +1,43 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder, SelectBuilder } from "../select";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+
+/**
+ * GROUP BY 절을 SQL로 변환
+ */
+export function buildGroupByClause(groupByList: string[], quote: ColumnQuoter = quoteColumn): string {
+    if (groupByList.length === 0) {
+        return "";
+    }
+    return `GROUP BY ${groupByList.map((column) => quote(column)).join(", ")}`;
+}
+
+/**
+ * GROUP BY 추가
+ */
+export function addGroupBy<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    columns: string[]
+): ISelectBuilder<TEntity> {
+    if (builder instanceof SelectBuilder) {
+        const groupByList = (builder as any).getGroupByList();
+        groupByList.push(...columns);
+        (builder as any).setGroupByList(groupByList);
+    }
+    return builder;
+}
+
+/**
+ * SelectBuilder에 groupBy 메서드 추가
+ */
+export function extendSelectBuilderWithGroupBy<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>
+): ISelectBuilder<TEntity> & { groupBy(...columns: string[]): ISelectBuilder<TEntity> } {
+    const extended = builder as any;
+    if (!extended.groupBy) {
+        extended.groupBy = function (...columns: string[]) {
+            return addGroupBy(this, columns);
+        };
+    }
+    return extended;
+}
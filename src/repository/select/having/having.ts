@@ -0,0 +1,58 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder, SelectBuilder } from "../select";
+import { buildConditionClause, mergeWhereInput, WhereInput } from "../where/where";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+
+/**
+ * HAVING 절을 SQL로 변환
+ * WHERE와 같은 ConditionNode 빌더를 사용하므로 파라미터 번호가 이어집니다
+ * @param having HAVING 조건 입력 (집계 표현식을 필드로 사용 가능)
+ * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+ * @param quote 컬럼 식별자 변환 함수
+ */
+export function buildHavingClause(
+    having: WhereInput,
+    startIndex: number = 1,
+    quote: ColumnQuoter = quoteColumn
+): { sql: string; params: any[] } {
+    const built = buildConditionClause(having, startIndex, quote);
+
+    if (!built.sql) {
+        return { sql: "", params: [] };
+    }
+
+    return {
+        sql: `HAVING ${built.sql}`,
+        params: built.params,
+    };
+}
+
+/**
+ * HAVING 조건 추가
+ */
+export function addHavingCondition<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    conditions: WhereInput
+): ISelectBuilder<TEntity> {
+    if (builder instanceof SelectBuilder) {
+        // 기존 조건과 병합
+        const existingConditions = (builder as any).getHavingConditions();
+        (builder as any).setHavingConditions(mergeWhereInput(existingConditions, conditions));
+    }
+    return builder;
+}
+
+/**
+ * SelectBuilder에 having 메서드 추가
+ */
+export function extendSelectBuilderWithHaving<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>
+): ISelectBuilder<TEntity> & { having(conditions: WhereInput): ISelectBuilder<TEntity> } {
+    const extended = builder as any;
+    if (!extended.having) {
+        extended.having = function (conditions: WhereInput) {
+            return addHavingCondition(this, conditions);
+        };
+    }
+    return extended;
+}
@@ -1 +1,9 @@
 export * from "./select";
+export * from "./where";
+export * from "./join";
+export * from "./aggregate";
+export * from "./groupBy";
+export * from "./having";
+export * from "./search";
+export * from "./window";
+export * from "./lock";
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder } from "../select";
+import { addJoin, JoinCondition, JoinTarget } from "./join";
+
+/**
+ * FULL JOIN 추가
+ */
+export function addFullJoin<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    target: JoinTarget,
+    on: JoinCondition
+): ISelectBuilder<TEntity> {
+    return addJoin(builder, "FULL", target, on);
+}
+
+/**
+ * SelectBuilder에 fullJoin 메서드 추가
+ */
+export function extendSelectBuilderWithFullJoin<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>
+): ISelectBuilder<TEntity> & { fullJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity> } {
+    const extended = builder as any;
+    if (!extended.fullJoin) {
+        extended.fullJoin = function (target: JoinTarget, on: JoinCondition) {
+            return addFullJoin(this, target, on);
+        };
+    }
+    return extended;
+}
@@ -0,0 +1,5 @@
+export * from "./join";
+export * from "./innerJoin";
+export * from "./leftJoin";
+export * from "./rightJoin";
+export * from "./fullJoin";
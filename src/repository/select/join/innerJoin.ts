@@ -0,0 +1,29 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder } from "../select";
+import { addJoin, JoinCondition, JoinTarget } from "./join";
+
+/**
+ * INNER JOIN 추가
+ */
+export function addInnerJoin<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    target: JoinTarget,
+    on: JoinCondition
+): ISelectBuilder<TEntity> {
+    return addJoin(builder, "INNER", target, on);
+}
+
+/**
+ * SelectBuilder에 innerJoin 메서드 추가
+ */
+export function extendSelectBuilderWithInnerJoin<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>
+): ISelectBuilder<TEntity> & { innerJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity> } {
+    const extended = builder as any;
+    if (!extended.innerJoin) {
+        extended.innerJoin = function (target: JoinTarget, on: JoinCondition) {
+            return addInnerJoin(this, target, on);
+        };
+    }
+    return extended;
+}
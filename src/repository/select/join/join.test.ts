@@ -0,0 +1,91 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../createRepository";
+import { and } from "../where/conditions";
+import { col, eq } from "../where/operators";
+
+const users = createRepository<any>({ tableName: "join_users", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE join_users (id INT PRIMARY KEY, name TEXT NOT NULL);
+        CREATE TABLE join_orders (id INT PRIMARY KEY, user_id INT, amount INT NOT NULL);
+        INSERT INTO join_users VALUES (1, 'kim'), (2, 'lee');
+        INSERT INTO join_orders VALUES (10, 1, 100), (11, 1, 300), (12, NULL, 50);
+    `);
+});
+
+describe("SelectBuilder JOIN", () => {
+    it("innerJoin은 별칭과 컬럼 = 컬럼 조건으로 연결", async () => {
+        const rows = await users
+            .select(["u.name", "o.amount"])
+            .as("u")
+            .innerJoin({ table: "join_orders", alias: "o" }, { "o.user_id": "u.id" })
+            .orderBy("o.amount")
+            .execute();
+
+        expect(rows).toEqual([
+            { name: "kim", amount: 100 },
+            { name: "kim", amount: 300 },
+        ]);
+        expect(executedQueries).toEqual([
+            'SELECT "u"."name", "o"."amount" FROM "join_users" AS "u" INNER JOIN "join_orders" AS "o" ON "o"."user_id" = "u"."id" ORDER BY "o"."amount" ASC',
+        ]);
+    });
+
+    it("leftJoin은 짝이 없는 행도 NULL로 포함", async () => {
+        const rows = await users
+            .select(["join_users.name", "join_orders.amount"])
+            .leftJoin("join_orders", { "join_orders.user_id": "join_users.id" })
+            .orderBy("join_users.id")
+            .orderBy("join_orders.amount")
+            .execute();
+
+        expect(rows).toEqual([
+            { name: "kim", amount: 100 },
+            { name: "kim", amount: 300 },
+            { name: "lee", amount: null },
+        ]);
+    });
+
+    it("rightJoin과 fullJoin", async () => {
+        const right = await users
+            .select(["u.name", "o.id"])
+            .as("u")
+            .rightJoin({ table: "join_orders", alias: "o" }, { "o.user_id": "u.id" })
+            .orderBy("o.id")
+            .execute();
+        const full = await users
+            .select(["u.name", "o.id"])
+            .as("u")
+            .fullJoin({ table: "join_orders", alias: "o" }, { "o.user_id": "u.id" })
+            .orderBy("o.id")
+            .execute();
+
+        expect(right).toEqual([
+            { name: "kim", id: 10 },
+            { name: "kim", id: 11 },
+            { name: null, id: 12 },
+        ]);
+        expect(full).toHaveLength(4);
+        expect(full).toContainEqual({ name: "lee", id: null });
+    });
+
+    it("ON 조건의 파라미터가 WHERE 파라미터보다 먼저 번호를 받음", async () => {
+        const rows = await users
+            .select(["u.name", "o.amount"])
+            .as("u")
+            .innerJoin({ table: "join_orders", alias: "o" }, and(eq("o.user_id", col("u.id")), eq("o.amount", 300)))
+            .where({ "u.name": "kim" })
+            .execute();
+
+        expect(rows).toEqual([{ name: "kim", amount: 300 }]);
+        expect(executedQueries[0]).toBe(
+            'SELECT "u"."name", "o"."amount" FROM "join_users" AS "u" INNER JOIN "join_orders" AS "o" ON ("o"."user_id" = "u"."id") AND ("o"."amount" = $1) WHERE "u"."name" = $2'
+        );
+    });
+
+    it("빈 ON 조건은 에러", () => {
+        expect(() => users.select().innerJoin("join_orders", {})).toThrow("Join condition is empty.");
+    });
+});
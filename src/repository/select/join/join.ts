@@ -0,0 +1,130 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder, SelectBuilder } from "../select";
+import { and, ConditionNode } from "../where/conditions";
+import { col, FieldCondition } from "../where/operators";
+import { buildConditionClause, isConditionNode } from "../where/where";
+import { ColumnQuoter, quoteAlias, quoteColumn, quoteQualifiedName } from "../../../utils/identifier";
+
+/**
+ * JOIN 종류
+ */
+export type JoinType = "INNER" | "LEFT" | "RIGHT" | "FULL";
+
+/**
+ * JOIN 대상 테이블
+ * - 문자열: 테이블 이름 (예: "orders")
+ * - 객체: 별칭 지정 (예: { table: "orders", alias: "o" })
+ *   columns를 지정하면 "o.컬럼" 참조를 목록으로 검사합니다 (생략하면 모든 컬럼 허용)
+ */
+export type JoinTarget = string | { table: string; alias: string; columns?: readonly string[] };
+
+/**
+ * JOIN ON 조건
+ * - ConditionNode: and/or/not, 연산자 조합 (컬럼 비교는 col() 사용)
+ * - 단순 객체: 컬럼 = 컬럼 (예: { "o.user_id": "u.id" })
+ */
+export type JoinCondition = ConditionNode | Record<string, string>;
+
+/**
+ * JOIN 정의
+ */
+export interface JoinDefinition {
+    type: JoinType;
+    table: string;
+    alias?: string;
+    columns?: readonly string[];
+    on: ConditionNode;
+}
+
+/**
+ * JOIN ON 조건을 ConditionNode로 변환
+ */
+function toJoinConditionNode(on: JoinCondition): ConditionNode {
+    if (isConditionNode(on)) {
+        return on;
+    }
+
+    const conditions: FieldCondition[] = Object.entries(on).map(([left, right]) => ({
+        field: left,
+        operator: "=",
+        value: col(right),
+    }));
+
+    if (conditions.length === 0) {
+        throw new Error("Join condition is empty.");
+    }
+
+    return conditions.length === 1 ? conditions[0] : and(...conditions);
+}
+
+/**
+ * JOIN 정의 생성
+ */
+export function createJoinDefinition(type: JoinType, target: JoinTarget, on: JoinCondition): JoinDefinition {
+    if (typeof target === "string") {
+        return { type, table: target, on: toJoinConditionNode(on) };
+    }
+    const { table, alias, columns } = target;
+    return { type, table, alias, columns, on: toJoinConditionNode(on) };
+}
+
+/**
+ * JOIN 대상별 허용 컬럼 목록 (ColumnQuoter.withQualifiers에 전달)
+ * 별칭이 없으면 테이블 이름으로 한정하며, columns를 지정하지 않은 대상은 모든 컬럼을 허용합니다
+ */
+export function buildJoinQualifiers(joinList: JoinDefinition[]): Record<string, readonly string[] | null> {
+    const qualifiers: Record<string, readonly string[] | null> = {};
+    for (const join of joinList) {
+        qualifiers[join.alias ?? join.table] = join.columns ?? null;
+    }
+    return qualifiers;
+}
+
+/**
+ * JOIN 절을 SQL로 변환
+ * @param joinList JOIN 정의 목록
+ * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+ * @param quote ON 조건의 컬럼 식별자 변환 함수
+ */
+export function buildJoinClause(
+    joinList: JoinDefinition[],
+    startIndex: number = 1,
+    quote: ColumnQuoter = quoteColumn
+): { sql: string; params: any[] } {
+    const parts: string[] = [];
+    let params: any[] = [];
+    let currentIndex = startIndex;
+
+    for (const join of joinList) {
+        const { sql: onSql, params: onParams } = buildConditionClause(join.on, currentIndex, quote);
+        if (!onSql) {
+            throw new Error(`Join condition for ${join.table} is empty.`);
+        }
+
+        const table = join.alias
+            ? `${quoteQualifiedName(join.table)} AS ${quoteAlias(join.alias)}`
+            : quoteQualifiedName(join.table);
+        parts.push(`${join.type} JOIN ${table} ON ${onSql}`);
+        params = params.concat(onParams);
+        currentIndex += onParams.length;
+    }
+
+    return { sql: parts.join(" "), params };
+}
+
+/**
+ * JOIN 추가
+ */
+export function addJoin<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    type: JoinType,
+    target: JoinTarget,
+    on: JoinCondition
+): ISelectBuilder<TEntity> {
+    if (builder instanceof SelectBuilder) {
+        const joinList = (builder as any).getJoinList();
+        joinList.push(createJoinDefinition(type, target, on));
+        (builder as any).setJoinList(joinList);
+    }
+    return builder;
+}
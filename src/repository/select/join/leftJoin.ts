@@ -0,0 +1,29 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder } from "../select";
+import { addJoin, JoinCondition, JoinTarget } from "./join";
+
+/**
+ * LEFT JOIN 추가
+ */
+export function addLeftJoin<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    target: JoinTarget,
+    on: JoinCondition
+): ISelectBuilder<TEntity> {
+    return addJoin(builder, "LEFT", target, on);
+}
+
+/**
+ * SelectBuilder에 leftJoin 메서드 추가
+ */
+export function extendSelectBuilderWithLeftJoin<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>
+): ISelectBuilder<TEntity> & { leftJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity> } {
+    const extended = builder as any;
+    if (!extended.leftJoin) {
+        extended.leftJoin = function (target: JoinTarget, on: JoinCondition) {
+            return addLeftJoin(this, target, on);
+        };
+    }
+    return extended;
+}
@@ -0,0 +1,29 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder } from "../select";
+import { addJoin, JoinCondition, JoinTarget } from "./join";
+
+/**
+ * RIGHT JOIN 추가
+ */
+export function addRightJoin<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    target: JoinTarget,
+    on: JoinCondition
+): ISelectBuilder<TEntity> {
+    return addJoin(builder, "RIGHT", target, on);
+}
+
+/**
+ * SelectBuilder에 rightJoin 메서드 추가
+ */
+export function extendSelectBuilderWithRightJoin<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>
+): ISelectBuilder<TEntity> & { rightJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity> } {
+    const extended = builder as any;
+    if (!extended.rightJoin) {
+        extended.rightJoin = function (target: JoinTarget, on: JoinCondition) {
+            return addRightJoin(this, target, on);
+        };
+    }
+    return extended;
+}
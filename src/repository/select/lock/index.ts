@@ -0,0 +1 @@
+export * from "./lock";
\ No newline at end of file
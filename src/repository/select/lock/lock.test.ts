@@ -0,0 +1,47 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { transaction } from "../../../middleware/transaction";
+import { createRepository } from "../../createRepository";
+
+const inventory = createRepository<{ id: number; reserved: number }>({ tableName: "lock_inventory", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE lock_inventory (id INT PRIMARY KEY, reserved INT NOT NULL);
+        INSERT INTO lock_inventory VALUES (1, 0);
+    `);
+});
+
+describe("row locking", () => {
+    it("transaction() 밖의 잠금은 실행 전에 거부", async () => {
+        await expect(inventory.select().where({ id: 1 }).forUpdate().execute()).rejects.toThrow(
+            "FOR UPDATE requires a transaction"
+        );
+        await expect(inventory.select().forUpdate().skipLocked().cursorPaginate({ first: 1 })).rejects.toThrow(
+            "FOR UPDATE requires a transaction"
+        );
+        expect(() => inventory.select().forShare().stream()).toThrow("FOR SHARE requires a transaction");
+
+        expect(executedQueries.some((sql) => sql.includes("FOR "))).toBe(false);
+    });
+
+    it("selectOne의 기본 useTransaction으로는 잠금을 허용하지 않음", async () => {
+        await expect(inventory.selectOne().where({ id: 1 }).forUpdate().execute()).rejects.toThrow(
+            "FOR UPDATE requires a transaction"
+        );
+        await expect(
+            inventory.selectOne().where({ id: 1 }).forUpdate().execute({ useTransaction: true })
+        ).rejects.toThrow("FOR UPDATE requires a transaction");
+    });
+
+    it("transaction() 안에서는 조회 후 수정까지 잠금 유지", async () => {
+        await transaction(async () => {
+            const item = await inventory.selectOne().where({ id: 1 }).forUpdate().execute();
+            await inventory.update().set({ reserved: item!.reserved + 1 }).where({ id: 1 }).execute();
+        });
+
+        expect(executedQueries).toContain('SELECT * FROM "lock_inventory" WHERE "id" = $1 FOR UPDATE');
+        const { rows } = await getTestDatabase().query("SELECT reserved FROM lock_inventory WHERE id = 1");
+        expect(rows).toEqual([{ reserved: 1 }]);
+    });
+});
@@ -0,0 +1,146 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder, SelectBuilder } from "../select";
+import { quoteAlias } from "../../../utils/identifier";
+import { getTransactionConnection } from "../../../middleware/connection";
+
+/**
+ * 행 잠금 강도
+ */
+export type LockStrength = "UPDATE" | "NO KEY UPDATE" | "SHARE" | "KEY SHARE";
+
+/**
+ * 잠긴 행을 만났을 때의 동작
+ * - SKIP LOCKED: 잠긴 행을 건너뜀 (작업 큐 등)
+ * - NOWAIT: 기다리지 않고 즉시 에러 (SQLSTATE 55P03)
+ */
+export type LockWaitPolicy = "SKIP LOCKED" | "NOWAIT";
+
+/**
+ * 행 잠금 정의 (FOR UPDATE OF t SKIP LOCKED 등)
+ */
+export interface LockDefinition {
+    strength: LockStrength;
+
+    /**
+     * 잠글 테이블 이름 또는 별칭 (비어 있으면 FROM/JOIN의 모든 테이블)
+     */
+    of: string[];
+
+    wait?: LockWaitPolicy;
+}
+
+/**
+ * 잠금 목록에 잠금 절 추가
+ */
+export function appendLock(lockList: LockDefinition[], strength: LockStrength, tables: string[] = []): LockDefinition[] {
+    return [...lockList, { strength, of: tables }];
+}
+
+/**
+ * 마지막 잠금 절에 대기 방식 설정
+ */
+export function applyLockWaitPolicy(lockList: LockDefinition[], wait: LockWaitPolicy): LockDefinition[] {
+    if (lockList.length === 0) {
+        throw new Error(`${wait} requires a locking clause. Call forUpdate(), forShare() or similar first.`);
+    }
+    const last = lockList[lockList.length - 1];
+    return [...lockList.slice(0, -1), { ...last, wait }];
+}
+
+/**
+ * 잠금 절을 SQL로 변환
+ * @example buildLockClause([{ strength: "UPDATE", of: ["o"], wait: "SKIP LOCKED" }]) // FOR UPDATE OF "o" SKIP LOCKED
+ */
+export function buildLockClause(lockList: LockDefinition[]): string {
+    return lockList
+        .map((lock) => {
+            const parts = [`FOR ${lock.strength}`];
+            if (lock.of.length > 0) {
+                parts.push(`OF ${lock.of.map((table) => quoteAlias(table)).join(", ")}`);
+            }
+            if (lock.wait) {
+                parts.push(lock.wait);
+            }
+            return parts.join(" ");
+        })
+        .join(" ");
+}
+
+/**
+ * 잠금 절이 transaction() 안에서 실행되는지 확인
+ * 잠금은 트랜잭션이 끝날 때 풀리므로, 쿼리 하나만 감싸는 useTransaction으로는 조회 후 수정까지 잠금이 유지되지 않습니다
+ * @param lockList 잠금 목록
+ */
+export function assertLockInTransaction(lockList: LockDefinition[]): void {
+    if (lockList.length === 0 || getTransactionConnection() !== null) {
+        return;
+    }
+    throw new Error(`FOR ${lockList[0].strength} requires a transaction. Run the query inside transaction().`);
+}
+
+/**
+ * 행 잠금 추가
+ */
+export function addLock<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    strength: LockStrength,
+    tables: string[]
+): ISelectBuilder<TEntity> {
+    if (builder instanceof SelectBuilder) {
+        (builder as any).setLockList(appendLock((builder as any).getLockList(), strength, tables));
+    }
+    return builder;
+}
+
+/**
+ * 마지막 행 잠금의 대기 방식 설정
+ */
+export function setLockWaitPolicy<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    wait: LockWaitPolicy
+): ISelectBuilder<TEntity> {
+    if (builder instanceof SelectBuilder) {
+        (builder as any).setLockList(applyLockWaitPolicy((builder as any).getLockList(), wait));
+    }
+    return builder;
+}
+
+/**
+ * SelectBuilder에 forUpdate, forNoKeyUpdate, forShare, forKeyShare, skipLocked, noWait 메서드 추가
+ */
+export function extendSelectBuilderWithLock<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>
+): ISelectBuilder<TEntity> & {
+    forUpdate(...tables: string[]): ISelectBuilder<TEntity>;
+    forNoKeyUpdate(...tables: string[]): ISelectBuilder<TEntity>;
+    forShare(...tables: string[]): ISelectBuilder<TEntity>;
+    forKeyShare(...tables: string[]): ISelectBuilder<TEntity>;
+    skipLocked(): ISelectBuilder<TEntity>;
+    noWait(): ISelectBuilder<TEntity>;
+} {
+    const extended = builder as any;
+    const strengths: Record<string, LockStrength> = {
+        forUpdate: "UPDATE",
+        forNoKeyUpdate: "NO KEY UPDATE",
+        forShare: "SHARE",
+        forKeyShare: "KEY SHARE",
+    };
+    for (const [method, strength] of Object.entries(strengths)) {
+        if (!extended[method]) {
+            extended[method] = function (...tables: string[]) {
+                return addLock(this, strength, tables);
+            };
+        }
+    }
+    if (!extended.skipLocked) {
+        extended.skipLocked = function () {
+            return setLockWaitPolicy(this, "SKIP LOCKED");
+        };
+    }
+    if (!extended.noWait) {
+        extended.noWait = function () {
+            return setLockWaitPolicy(this, "NOWAIT");
+        };
+    }
+    return extended;
+}
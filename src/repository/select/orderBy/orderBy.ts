@@ -1,15 +1,45 @@
 import { QueryResultRow } from "pg";
 import { ISelectBuilder, SelectBuilder } from "../select";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+import { isSqlFragment, SqlFragment } from "../../../extensions/features/raw/raw";
 
 /**
- * ORDER BY 절을 SQL로 변환
+ * 정렬 항목 (컬럼 참조 또는 SQL 조각)
  */
-export function buildOrderByClause(orderByList: { column: string; order: "ASC" | "DESC" }[]): string {
+export interface OrderByItem {
+    column: string | SqlFragment<any, any>;
+    order: "ASC" | "DESC";
+}
+
+/**
+ * ORDER BY 절을 SQL과 파라미터로 변환
+ * @param orderByList 정렬 항목 목록
+ * @param quote 컬럼 식별자 변환 함수
+ * @param startIndex SQL 조각 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+ */
+export function buildOrderByClause(
+    orderByList: OrderByItem[],
+    quote: ColumnQuoter = quoteColumn,
+    startIndex: number = 1
+): { sql: string; params: any[] } {
     if (orderByList.length === 0) {
-        return "";
+        return { sql: "", params: [] };
     }
-    const orderByParts = orderByList.map((item) => `${item.column} ${item.order}`);
-    return `ORDER BY ${orderByParts.join(", ")}`;
+    const params: any[] = [];
+    const orderByParts = orderByList.map((item) => {
+        // 정렬 방향도 외부 입력일 수 있으므로 런타임에 검사
+        const order = String(item.order).toUpperCase();
+        if (order !== "ASC" && order !== "DESC") {
+            throw new Error(`Invalid sort order: ${item.order}. Use "ASC" or "DESC".`);
+        }
+        if (isSqlFragment(item.column)) {
+            const built = item.column.buildQuery(startIndex + params.length);
+            params.push(...built.params);
+            return `${built.sql} ${order}`;
+        }
+        return `${quote(item.column)} ${order}`;
+    });
+    return { sql: `ORDER BY ${orderByParts.join(", ")}`, params };
 }
 
 /**
@@ -17,12 +47,12 @@ export function buildOrderByClause(orderByList: { column: string; order: "ASC" |
  */
 export function addOrderBy<TEntity extends QueryResultRow = any>(
     builder: ISelectBuilder<TEntity>,
-    columnOrOptions: string | { column: string; order?: "ASC" | "DESC" },
+    columnOrOptions: string | SqlFragment<any, any> | { column: string | SqlFragment<any, any>; order?: "ASC" | "DESC" },
     order?: "ASC" | "DESC"
 ): ISelectBuilder<TEntity> {
     if (builder instanceof SelectBuilder) {
         const orderByList = (builder as any).getOrderByList();
-        if (typeof columnOrOptions === "string") {
+        if (typeof columnOrOptions === "string" || isSqlFragment(columnOrOptions)) {
             orderByList.push({ column: columnOrOptions, order: order || "ASC" });
         } else {
             orderByList.push({ column: columnOrOptions.column, order: columnOrOptions.order || "ASC" });
@@ -38,13 +68,13 @@ export function addOrderBy<TEntity extends QueryResultRow = any>(
 export function extendSelectBuilderWithOrderBy<TEntity extends QueryResultRow = any>(
     builder: ISelectBuilder<TEntity>
 ): ISelectBuilder<TEntity> & {
-    orderBy(column: string, order?: "ASC" | "DESC"): ISelectBuilder<TEntity>;
-    orderBy(options: { column: string; order?: "ASC" | "DESC" }): ISelectBuilder<TEntity>;
+    orderBy(column: string | SqlFragment<any, any>, order?: "ASC" | "DESC"): ISelectBuilder<TEntity>;
+    orderBy(options: { column: string | SqlFragment<any, any>; order?: "ASC" | "DESC" }): ISelectBuilder<TEntity>;
 } {
     const extended = builder as any;
     if (!extended.orderBy) {
         extended.orderBy = function (
-            columnOrOptions: string | { column: string; order?: "ASC" | "DESC" },
+            columnOrOptions: string | SqlFragment<any, any> | { column: string | SqlFragment<any, any>; order?: "ASC" | "DESC" },
             order?: "ASC" | "DESC"
         ) {
             return addOrderBy(this, columnOrOptions, order);
@@ -0,0 +1 @@
+export * from "./search";
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../createRepository";
+
+const articles = createRepository<any>({ tableName: "search_articles", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE search_articles (
+            id INT PRIMARY KEY,
+            title TEXT NOT NULL,
+            body TEXT,
+            document TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', title || ' ' || coalesce(body, ''))) STORED
+        );
+        INSERT INTO search_articles (id, title, body) VALUES
+            (1, 'Postgres indexing', 'Indexes make postgres queries fast'),
+            (2, 'MySQL tuning', 'Postgres is mentioned once'),
+            (3, 'Cooking pasta', NULL),
+            (4, 'Postgres replication', 'Streaming replication with mysql migration notes');
+    `);
+});
+
+describe("SelectBuilder.search", () => {
+    it("websearch 검색어는 파라미터 하나로 전달하고 WHERE 조건과 AND로 결합", async () => {
+        const rows = await articles
+            .select(["id"])
+            .where({ id: [1, 2, 4] })
+            .search(["title", "body"], "postgres -mysql", { config: "english" })
+            .orderBy("id")
+            .execute();
+
+        expect(rows).toEqual([{ id: 1 }]);
+        expect(executedQueries[0]).toBe(
+            'SELECT "id" FROM "search_articles" WHERE ("id" IN ($1, $2, $3)) AND ' +
+                "to_tsvector('english', coalesce(\"title\", '') || ' ' || coalesce(\"body\", '')) @@ websearch_to_tsquery('english', $4) " +
+                'ORDER BY "id" ASC'
+        );
+    });
+
+    it("tsvector 컬럼과 순위/스니펫", async () => {
+        const rows = await articles
+            .select(["id"])
+            .search("document", "postgres replication", {
+                config: "english",
+                vector: true,
+                rank: "ts_rank_cd",
+                headline: { column: "title", alias: "snippet", options: "StartSel=[, StopSel=]" },
+            })
+            .execute();
+
+        expect(rows).toEqual([{ id: 4, rank: expect.any(Number), snippet: "[Postgres] [replication]" }]);
+        expect(executedQueries[0]).toContain(
+            `ts_headline('english', "title", websearch_to_tsquery('english', $1), $2) AS "snippet"`
+        );
+        expect(executedQueries[0]).toContain(
+            `ORDER BY ts_rank_cd("document", websearch_to_tsquery('english', $1)) DESC`
+        );
+    });
+
+    it("rank를 지정하면 순위 내림차순 뒤에 기존 정렬을 적용", async () => {
+        const rows = await articles
+            .select(["id"])
+            .search(["title", "body"], "postgres", { config: "english", parser: "plain", rank: true })
+            .orderBy("id", "DESC")
+            .execute();
+
+        expect(rows!.map((row) => row.id)).toEqual([1, 4, 2]);
+        expect(rows![0].rank).toBeGreaterThan(rows![2].rank);
+    });
+
+    it("phrase 검색은 단어 순서를 유지", async () => {
+        const matched = await articles.select(["id"]).search("title", "cooking pasta", { parser: "phrase" }).execute();
+        const reversed = await articles.select(["id"]).search("title", "pasta cooking", { parser: "phrase" }).execute();
+
+        expect(matched).toEqual([{ id: 3 }]);
+        expect(reversed).toEqual([]);
+    });
+
+    it("잘못된 검색 설정 이름은 에러", async () => {
+        await expect(
+            articles.select().search("title", "x", { config: "english'); DROP TABLE x; --" }).execute()
+        ).rejects.toThrow("Invalid text search config");
+        expect(() => articles.select().search([], "x")).toThrow("Search requires at least one column.");
+    });
+});
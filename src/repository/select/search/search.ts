@@ -0,0 +1,253 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder, SelectBuilder } from "../select";
+import { ColumnQuoter, quoteAlias, quoteColumn } from "../../../utils/identifier";
+
+/**
+ * 검색어를 tsquery로 변환하는 방식
+ * - websearch: websearch_to_tsquery ("quoted phrase", -exclude, or 지원)
+ * - plain: plainto_tsquery (모든 단어 AND)
+ * - phrase: phraseto_tsquery (단어 순서 유지)
+ */
+export type SearchParser = "websearch" | "plain" | "phrase";
+
+/**
+ * 순위 함수
+ */
+export type SearchRankFunction = "ts_rank" | "ts_rank_cd";
+
+/**
+ * 검색 결과 스니펫 옵션
+ */
+export interface SearchHeadlineOptions {
+    /**
+     * 스니펫을 만들 텍스트 컬럼
+     */
+    column: string;
+
+    /**
+     * 결과 키 이름
+     * @default "headline"
+     */
+    alias?: string;
+
+    /**
+     * ts_headline 옵션 (예: "MaxWords=35, MinWords=15, StartSel=<b>, StopSel=</b>")
+     */
+    options?: string;
+}
+
+/**
+ * 전문 검색 옵션
+ */
+export interface SearchOptions {
+    /**
+     * 텍스트 검색 설정 (예: "english", "simple")
+     * 생략하면 서버의 default_text_search_config를 사용합니다
+     * 표현식 인덱스를 사용하려면 인덱스와 같은 설정을 지정하세요
+     */
+    config?: string;
+
+    /**
+     * 검색어 변환 방식
+     * @default "websearch"
+     */
+    parser?: SearchParser;
+
+    /**
+     * 대상 컬럼이 이미 tsvector 컬럼인지 여부 (생성 컬럼 등)
+     * @default false (텍스트 컬럼을 to_tsvector로 변환)
+     */
+    vector?: boolean;
+
+    /**
+     * 순위를 결과에 포함 (true면 ts_rank)
+     */
+    rank?: boolean | SearchRankFunction;
+
+    /**
+     * 순위 결과 키 이름
+     * @default "rank"
+     */
+    rankAlias?: string;
+
+    /**
+     * 순위 내림차순 정렬 (기존 orderBy보다 먼저 적용)
+     * @default rank를 지정하면 true
+     */
+    orderByRank?: boolean;
+
+    /**
+     * 검색어가 강조된 스니펫을 결과에 포함 (문자열이면 컬럼 이름)
+     */
+    headline?: string | SearchHeadlineOptions;
+}
+
+/**
+ * 검색 옵션에 따라 결과 행에 추가되는 필드
+ */
+export type SearchFields<TOptions extends SearchOptions> = (TOptions extends { rank: true | SearchRankFunction }
+    ? { [K in TOptions extends { rankAlias: infer TAlias extends string } ? TAlias : "rank"]: number }
+    : {}) &
+    (TOptions extends { headline: string | SearchHeadlineOptions }
+        ? {
+              [K in TOptions extends { headline: { alias: infer TAlias extends string } }
+                  ? TAlias
+                  : "headline"]: string;
+          }
+        : {});
+
+/**
+ * 전문 검색 정의
+ */
+export interface SearchDefinition {
+    columns: string[];
+    query: string;
+    options: SearchOptions;
+}
+
+/**
+ * 검색 SQL 조각
+ */
+export interface SearchClause {
+    /**
+     * WHERE에 AND로 결합할 조건
+     */
+    condition: string;
+
+    /**
+     * SELECT 목록에 추가할 컬럼 (순위, 스니펫)
+     */
+    columns: string[];
+
+    /**
+     * ORDER BY 앞에 추가할 정렬 (없으면 빈 문자열)
+     */
+    orderBy: string;
+
+    params: any[];
+}
+
+const PARSER_FUNCTIONS: Record<SearchParser, string> = {
+    websearch: "websearch_to_tsquery",
+    plain: "plainto_tsquery",
+    phrase: "phraseto_tsquery",
+};
+
+/**
+ * 텍스트 검색 설정 이름을 SQL 리터럴로 변환
+ */
+function buildConfigArgument(config?: string): string {
+    if (config === undefined) {
+        return "";
+    }
+    if (!/^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?$/i.test(config)) {
+        throw new Error(`Invalid text search config: ${config}`);
+    }
+    return `'${config}', `;
+}
+
+/**
+ * 전문 검색 정의 생성
+ */
+export function createSearchDefinition(
+    columns: string | string[],
+    query: string,
+    options: SearchOptions = {}
+): SearchDefinition {
+    const columnList = Array.isArray(columns) ? columns : [columns];
+    if (columnList.length === 0) {
+        throw new Error("Search requires at least one column.");
+    }
+    return { columns: columnList, query, options };
+}
+
+/**
+ * 전문 검색을 SQL 조각으로 변환
+ * 검색어는 파라미터 하나로 전달하고 조건/순위/스니펫에서 같은 번호를 재사용합니다
+ * @param definition 검색 정의
+ * @param startIndex 파라미터 플레이스홀더 시작 인덱스
+ * @param quote 컬럼 식별자 변환 함수
+ */
+export function buildSearchClause(
+    definition: SearchDefinition,
+    startIndex: number,
+    quote: ColumnQuoter = quoteColumn
+): SearchClause {
+    const { columns, query, options } = definition;
+    const config = buildConfigArgument(options.config);
+    const params: any[] = [query];
+    let paramIndex = startIndex + 1;
+
+    // 단일 컬럼은 표현식 인덱스와 일치하도록 coalesce 없이 변환
+    let document: string;
+    if (options.vector) {
+        document = columns.map((column) => quote(column)).join(" || ");
+    } else if (columns.length === 1) {
+        document = `to_tsvector(${config}${quote(columns[0])})`;
+    } else {
+        const text = columns.map((column) => `coalesce(${quote(column)}, '')`).join(" || ' ' || ");
+        document = `to_tsvector(${config}${text})`;
+    }
+
+    const tsquery = `${PARSER_FUNCTIONS[options.parser ?? "websearch"]}(${config}$${startIndex})`;
+    const selectColumns: string[] = [];
+
+    const rankFunction: SearchRankFunction | null =
+        options.rank === true ? "ts_rank" : options.rank ? options.rank : null;
+    const rankSql = `${rankFunction ?? "ts_rank"}(${document}, ${tsquery})`;
+    if (rankFunction) {
+        selectColumns.push(`${rankSql} AS ${quoteAlias(options.rankAlias ?? "rank")}`);
+    }
+
+    if (options.headline !== undefined) {
+        const headline =
+            typeof options.headline === "string" ? { column: options.headline } : options.headline;
+        let headlineArgs = `${config}${quote(headline.column)}, ${tsquery}`;
+        if (headline.options !== undefined) {
+            headlineArgs += `, $${paramIndex++}`;
+            params.push(headline.options);
+        }
+        selectColumns.push(`ts_headline(${headlineArgs}) AS ${quoteAlias(headline.alias ?? "headline")}`);
+    }
+
+    const orderByRank = options.orderByRank ?? rankFunction !== null;
+
+    return {
+        condition: `${document} @@ ${tsquery}`,
+        columns: selectColumns,
+        orderBy: orderByRank ? `${rankSql} DESC` : "",
+        params,
+    };
+}
+
+/**
+ * 전문 검색 설정
+ */
+export function addSearch<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    columns: string | string[],
+    query: string,
+    options?: SearchOptions
+): ISelectBuilder<TEntity> {
+    if (builder instanceof SelectBuilder) {
+        (builder as any).setSearchDefinition(createSearchDefinition(columns, query, options));
+    }
+    return builder;
+}
+
+/**
+ * SelectBuilder에 search 메서드 추가
+ */
+export function extendSelectBuilderWithSearch<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>
+): ISelectBuilder<TEntity> & {
+    search(columns: string | string[], query: string, options?: SearchOptions): ISelectBuilder<TEntity>;
+} {
+    const extended = builder as any;
+    if (!extended.search) {
+        extended.search = function (columns: string | string[], query: string, options?: SearchOptions) {
+            return addSearch(this, columns, query, options);
+        };
+    }
+    return extended;
+}
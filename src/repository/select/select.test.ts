@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { createRepository } from "../createRepository";
+import { sql } from "../../extensions/features/raw/raw";
+import { IdentifierError } from "../../interfaces/IdentifierError";
+import { count, sum } from "./aggregate/aggregate";
+import { rowNumber } from "./window/window";
+import { and, or } from "./where/conditions";
+import { col, eq, eqAny, exists, gt, inArray, isNull, like, lte } from "./where/operators";
+
+const orders = createRepository<any>({ tableName: "select_orders", keys: ["id"] });
+const users = createRepository<any>({ tableName: "select_users", keys: ["id"] });
+
+describe("SelectBuilder.toSQL", () => {
+    it("컬럼, WHERE, ORDER BY, LIMIT/OFFSET", () => {
+        const query = orders
+            .select(["id", "status"])
+            .where({ status: "paid" })
+            .orderBy("id", "DESC")
+            .limit(10)
+            .offset(20)
+            .toSQL();
+
+        expect(query).toEqual({
+            text: 'SELECT "id", "status" FROM "select_orders" WHERE "status" = $1 ORDER BY "id" DESC LIMIT 10 OFFSET 20',
+            values: ["paid"],
+        });
+    });
+
+    it("and/or 조건 조합", () => {
+        const query = orders
+            .select()
+            .where(and(gt("amount", 100), or(eq("status", "paid"), like("note", "vip%"))))
+            .toSQL();
+
+        expect(query).toEqual({
+            text: 'SELECT * FROM "select_orders" WHERE ("amount" > $1) AND (("status" = $2) OR ("note" LIKE $3))',
+            values: [100, "paid", "vip%"],
+        });
+    });
+
+    it("여러 where 호출은 AND로 병합", () => {
+        const query = orders.select().where(isNull("deleted_at")).where(eqAny("status", ["a", "b"])).toSQL();
+
+        expect(query).toEqual({
+            text: 'SELECT * FROM "select_orders" WHERE ("deleted_at" IS NULL) AND ("status" = ANY($1))',
+            values: [["a", "b"]],
+        });
+    });
+
+    it("별칭과 JOIN", () => {
+        const query = users
+            .select(["u.id", "o.amount"])
+            .as("u")
+            .innerJoin({ table: "select_orders", alias: "o" }, { "o.user_id": "u.id" })
+            .leftJoin("profiles", { "profiles.user_id": "u.id" })
+            .toSQL();
+
+        expect(query.text).toBe(
+            'SELECT "u"."id", "o"."amount" FROM "select_users" AS "u" ' +
+                'INNER JOIN "select_orders" AS "o" ON "o"."user_id" = "u"."id" ' +
+                'LEFT JOIN "profiles" ON "profiles"."user_id" = "u"."id"'
+        );
+    });
+
+    it("집계, GROUP BY, HAVING", () => {
+        const query = orders
+            .select(["status", count().as("total"), sum("amount").as("revenue")])
+            .groupBy("status")
+            .having({ status: "paid" })
+            .toSQL();
+
+        expect(query).toEqual({
+            text: 'SELECT "status", COUNT(*) AS "total", SUM("amount") AS "revenue" FROM "select_orders" GROUP BY "status" HAVING "status" = $1',
+            values: ["paid"],
+        });
+    });
+
+    it("윈도우 함수와 QUALIFY", () => {
+        const query = orders
+            .select(["id", rowNumber().over({ partitionBy: "user_id", orderBy: "created_at" }).as("rn")])
+            .qualify(lte("rn", 3))
+            .toSQL();
+
+        expect(query).toEqual({
+            text: 'SELECT * FROM (SELECT "id", ROW_NUMBER() OVER (PARTITION BY "user_id" ORDER BY "created_at" ASC) AS "rn" FROM "select_orders") AS "qualified" WHERE "rn" <= $1',
+            values: [3],
+        });
+    });
+
+    it("서브쿼리와 EXISTS", () => {
+        const inQuery = users.select().where(inArray("id", orders.select(["user_id"]).where({ status: "paid" }))).toSQL();
+        const existsQuery = users
+            .select()
+            .where(exists(orders.select(["id"]).where({ user_id: col("select_users.id") })))
+            .toSQL();
+
+        expect(inQuery).toEqual({
+            text: 'SELECT * FROM "select_users" WHERE "id" IN (SELECT "user_id" FROM "select_orders" WHERE "status" = $1)',
+            values: ["paid"],
+        });
+        expect(existsQuery.text).toBe(
+            'SELECT * FROM "select_users" WHERE EXISTS (SELECT "id" FROM "select_orders" WHERE "user_id" = "select_users"."id")'
+        );
+    });
+
+    it("CTE와 sql 조각의 파라미터 번호를 이어서 부여", () => {
+        const query = orders
+            .select()
+            .with("recent", orders.select(["id"]).where({ status: "new" }))
+            .where(sql`"amount" > ${50}`)
+            .toSQL();
+
+        expect(query).toEqual({
+            text: 'WITH "recent" AS (SELECT "id" FROM "select_orders" WHERE "status" = $1) SELECT * FROM "select_orders" WHERE "amount" > $2',
+            values: ["new", 50],
+        });
+    });
+
+    it("전문 검색", () => {
+        expect(orders.select().search(["title"], "hello").toSQL()).toEqual({
+            text: 'SELECT * FROM "select_orders" WHERE to_tsvector("title") @@ websearch_to_tsquery($1)',
+            values: ["hello"],
+        });
+    });
+
+    it("잠금 절은 LIMIT 뒤에 생성", () => {
+        const query = orders.select().where({ id: 1 }).limit(1).forUpdate().skipLocked().forShare("select_orders").noWait().toSQL();
+
+        expect(query.text).toBe(
+            'SELECT * FROM "select_orders" WHERE "id" = $1 LIMIT 1 FOR UPDATE SKIP LOCKED FOR SHARE OF "select_orders" NOWAIT'
+        );
+    });
+
+    it("식별자의 큰따옴표를 이스케이프", () => {
+        expect(orders.select(['na"me']).toSQL().text).toBe('SELECT "na""me" FROM "select_orders"');
+    });
+
+    it("허용 목록에 없는 컬럼은 IdentifierError", () => {
+        const restricted = createRepository<any>({ tableName: "select_restricted", columns: ["id", "name"] });
+
+        expect(restricted.select(["id"]).orderBy("name").toSQL().text).toBe(
+            'SELECT "id" FROM "select_restricted" ORDER BY "name" ASC'
+        );
+        expect(() => restricted.select().orderBy("password").toSQL()).toThrow(IdentifierError);
+    });
+});
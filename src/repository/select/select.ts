@@ -1,76 +1,564 @@
 import { PoolClient, QueryResultRow } from "pg";
 import { handler } from "../../utils/transaction";
 import { HandlerOption } from "../../interfaces/HandlerOption";
+import { CompiledQuery } from "../../interfaces/CompiledQuery";
+import { ExplainOptions, ExplainResult, explainQuery } from "../../utils/explain";
 import { Logger } from "../../utils/logger";
-import { buildWhereClause, extendSelectBuilderWithWhere } from "./where/where";
+import { ColumnQuoter, quoteAlias, quoteColumn, quoteQualifiedName, quoteSelectColumn } from "../../utils/identifier";
+import { buildConditionClause, extendSelectBuilderWithWhere, mergeWhereInput, WhereInput } from "./where/where";
 import { buildLimitClause, buildOffsetClause, extendSelectBuilderWithLimit } from "./limit/limit";
-import { buildOrderByClause, extendSelectBuilderWithOrderBy } from "./orderBy/orderBy";
+import { buildOrderByClause, extendSelectBuilderWithOrderBy, OrderByItem } from "./orderBy/orderBy";
+import {
+    buildJoinClause,
+    buildJoinQualifiers,
+    createJoinDefinition,
+    extendSelectBuilderWithFullJoin,
+    extendSelectBuilderWithInnerJoin,
+    extendSelectBuilderWithLeftJoin,
+    extendSelectBuilderWithRightJoin,
+    JoinCondition,
+    JoinDefinition,
+    JoinTarget,
+} from "./join";
+import { buildGroupByClause, extendSelectBuilderWithGroupBy } from "./groupBy/groupBy";
+import { buildHavingClause, extendSelectBuilderWithHaving } from "./having/having";
+import {
+    appendLock,
+    applyLockWaitPolicy,
+    assertLockInTransaction,
+    buildLockClause,
+    extendSelectBuilderWithLock,
+    LockDefinition,
+} from "./lock/lock";
+import { AggregateExpression, buildAggregateColumn } from "./aggregate/aggregate";
+import {
+    buildQualifyClause,
+    buildWindowClause,
+    buildWindowColumn,
+    extendSelectBuilderWithWindow,
+    isWindowExpression,
+    WindowExpression,
+    WindowSpec,
+} from "./window/window";
+import {
+    appendCteDefinition,
+    buildWithClause,
+    createCteDefinition,
+    createRecursiveCteDefinition,
+    CteDefinition,
+    CteOptions,
+    RecursiveCteOptions,
+} from "../cte/cte";
+import { Subquery } from "./where/operators";
+import { isSqlFragment, SqlFragment } from "../../extensions/features/raw/raw";
+import {
+    buildSearchClause,
+    createSearchDefinition,
+    extendSelectBuilderWithSearch,
+    SearchDefinition,
+    SearchFields,
+    SearchOptions,
+} from "./search/search";
+import { PaginatedResult, PaginationOptions, paginateSelect } from "../../extensions/features/pagination/pagination";
+import { SelectStream, StreamOptions, streamSelect } from "../../extensions/features/stream/stream";
+import {
+    CursorPaginatedResult,
+    CursorPaginationOptions,
+    cursorPaginateSelect,
+} from "../../extensions/features/pagination/cursor";
+
+/**
+ * 엔티티 컬럼 이름
+ */
+export type ColumnName<TEntity> = Extract<keyof TEntity, string>;
+
+/**
+ * 컬럼 참조
+ * - 엔티티 컬럼 이름 (오타는 컴파일 에러)
+ * - 별칭으로 한정된 컬럼 (예: "u.id", JOIN 대상 테이블 컬럼은 검사하지 않음)
+ */
+export type ColumnRef<TEntity> = ColumnName<TEntity> | `${string}.${string}`;
+
+/**
+ * 정렬 컬럼 (엔티티 컬럼 참조, 결과 컬럼 별칭 또는 SQL 조각)
+ */
+export type OrderByColumn<TEntity, TResult = TEntity> = ColumnRef<TEntity> | ColumnName<TResult> | SqlFragment<any, any>;
+
+/**
+ * SELECT 컬럼
+ * - 컬럼 참조 또는 "*"
+ * - 별칭 지정 (예: "u.name AS author")
+ * - 집계 표현식
+ * - 윈도우 함수 표현식
+ * - SQL 조각 (예: sql<number>`length(${sql.identifier("name")})`.as("name_length"))
+ */
+export type SelectColumn<TEntity = any> =
+    | ColumnRef<TEntity>
+    | "*"
+    | `${ColumnRef<TEntity>} AS ${string}`
+    | AggregateExpression<string, any>
+    | WindowExpression<string, any>
+    | SqlFragment<any, string>;
+
+type UnionToIntersection<U> = (U extends any ? (value: U) => void : never) extends (value: infer I) => void
+    ? I
+    : never;
+
+/**
+ * 한정된 컬럼 이름에서 결과 키 추출 ("u.name" -> "name")
+ */
+type ColumnKey<TColumn extends string> = TColumn extends `${string}.${infer TRest}` ? ColumnKey<TRest> : TColumn;
+
+/**
+ * 컬럼 참조의 값 타입 (엔티티에 없는 컬럼은 any)
+ */
+type ColumnValue<TEntity, TColumn extends string> =
+    ColumnKey<TColumn> extends keyof TEntity ? TEntity[ColumnKey<TColumn>] : any;
+
+/**
+ * SELECT 컬럼 하나가 결과 행에 기여하는 형태
+ */
+type ColumnShape<TEntity, TColumn> = TColumn extends AggregateExpression<infer TAlias, infer TValue>
+    ? { [K in TAlias]: TValue }
+    : TColumn extends WindowExpression<infer TAlias, infer TValue>
+      ? { [K in TAlias]: TValue }
+      : TColumn extends SqlFragment<infer TValue, infer TAlias>
+        ? { [K in TAlias]: TValue }
+        : TColumn extends `${infer TSource} AS ${infer TAlias}`
+          ? { [K in TAlias]: ColumnValue<TEntity, TSource> }
+          : TColumn extends "*"
+            ? TEntity
+            : TColumn extends `${string}.*`
+              ? Record<string, any>
+              : TColumn extends string
+                ? { [K in ColumnKey<TColumn>]: ColumnValue<TEntity, TColumn> }
+                : never;
+
+/**
+ * 엔티티 컬럼 이름만으로는 표현되지 않는 SELECT 컬럼 (별칭, 한정된 이름, 집계, 윈도우 함수 등)
+ */
+type ProjectedColumn =
+    | AggregateExpression<any, any>
+    | WindowExpression<any, any>
+    | SqlFragment<any, any>
+    | "*"
+    | `${string}.${string}`
+    | `${string} AS ${string}`;
+
+/**
+ * SELECT 결과 행 타입
+ * - 컬럼을 지정하지 않으면 TEntity
+ * - 엔티티 컬럼만 지정하면 Pick<TEntity, ...>
+ * - 별칭/집계 표현식이 있으면 컬럼/별칭으로 구성된 형태
+ */
+export type SelectResult<TEntity, TColumns extends readonly SelectColumn<any>[]> = [TColumns[number]] extends [never]
+    ? TEntity
+    : [Extract<TColumns[number], ProjectedColumn>] extends [never]
+      ? Pick<TEntity, Extract<TColumns[number], keyof TEntity>>
+      : UnionToIntersection<ColumnShape<TEntity, TColumns[number]>> extends infer TShape
+        ? { [K in keyof TShape]: TShape[K] }
+        : never;
+
+/**
+ * SELECT 컬럼 목록을 SQL로 변환 (식별자 인용, 허용 목록 검사)
+ * @param startIndex SQL 조각 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+ */
+export function buildSelectColumns(
+    columns: readonly SelectColumn[],
+    quote: ColumnQuoter = quoteColumn,
+    startIndex: number = 1
+): { columns: string[]; params: any[] } {
+    const params: any[] = [];
+    const rendered = columns.map((column) => {
+        if (typeof column === "string") {
+            return quoteSelectColumn(column, quote);
+        }
+        if (isWindowExpression(column)) {
+            return buildWindowColumn(column, quote);
+        }
+        if (isSqlFragment(column)) {
+            const built = column.buildQuery(startIndex + params.length);
+            params.push(...built.params);
+            return column.alias ? `${built.sql} AS ${quoteAlias(column.alias)}` : built.sql;
+        }
+        return buildAggregateColumn(column, quote);
+    });
+    return { columns: rendered, params };
+}
 
 /**
  * SelectBuilder 인터페이스
  */
-export interface ISelectBuilder<TEntity extends QueryResultRow = any> {
+export interface ISelectBuilder<TEntity extends QueryResultRow = any, TResult = TEntity> {
     /**
-     * WHERE 조건 추가
+     * WHERE 조건 추가 (객체 또는 ConditionNode)
+     * JOIN 사용 시 "u.id"처럼 별칭으로 한정된 컬럼을 사용할 수 있습니다
+     */
+    where(conditions: WhereInput<TEntity>): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 기준 테이블 별칭 설정 (FROM users AS u)
+     */
+    as(alias: string): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * CTE 추가 (WITH name AS (...))
+     * RETURNING을 지정한 INSERT/UPDATE/DELETE 빌더도 사용할 수 있습니다
+     */
+    with(name: string, query: Subquery, options?: CteOptions): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 재귀 CTE 추가 (WITH RECURSIVE name AS (anchor UNION ALL recursive))
+     * @example
+     * .withRecursive("tree", categories.select().where({ id: 1 }),
+     *     categories.select(["c.*"]).as("c").innerJoin({ table: "tree", alias: "t" }, { "c.parent_id": "t.id" }))
+     * .from("tree")
+     */
+    withRecursive(
+        name: string,
+        anchor: Subquery,
+        recursive: Subquery,
+        options?: RecursiveCteOptions
+    ): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * FROM 대상을 Repository 테이블 대신 CTE 등 다른 이름으로 변경
+     */
+    from(source: string): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * INNER JOIN 추가
+     * @example .innerJoin({ table: "orders", alias: "o" }, { "o.user_id": "u.id" })
+     */
+    innerJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * LEFT JOIN 추가
+     */
+    leftJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * RIGHT JOIN 추가
+     */
+    rightJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * FULL JOIN 추가
+     */
+    fullJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * GROUP BY 추가
+     */
+    groupBy(...columns: ColumnRef<TEntity>[]): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * HAVING 조건 추가 (집계 표현식을 필드로 사용 가능)
+     * @example .having(gt(count("*"), 10))
+     */
+    having(conditions: WhereInput): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 전문 검색 조건 추가 (WHERE에 AND로 결합)
+     * rank/headline 옵션으로 순위와 스니펫을 결과에 포함할 수 있습니다
+     * @example .search(["title", "body"], "postgres -mysql", { config: "english", rank: true })
+     */
+    search<const TOptions extends SearchOptions = {}>(
+        columns: ColumnRef<TEntity> | ColumnRef<TEntity>[],
+        query: string,
+        options?: TOptions
+    ): ISelectBuilder<TEntity, TResult & SearchFields<TOptions>>;
+
+    /**
+     * 이름 있는 윈도우 추가 (WINDOW w AS (...))
+     * 윈도우 함수에서 over("w")로 참조합니다
      */
-    where(conditions: Record<string, any>): ISelectBuilder<TEntity>;
+    window(name: string, spec: WindowSpec): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 윈도우 함수 결과로 행 필터링 (그룹별 상위 N개 등)
+     * 쿼리를 서브쿼리로 감싸 바깥 WHERE로 적용하며, 조건과 orderBy는 결과 컬럼 이름을 사용합니다
+     * @example
+     * .select(["id", "category_id", rowNumber().over({ partitionBy: "category_id", orderBy: "price" }).as("rn")])
+     * .qualify(lte("rn", 3))
+     */
+    qualify(conditions: WhereInput<TResult>): ISelectBuilder<TEntity, TResult>;
 
     /**
      * LIMIT 설정
      */
-    limit(count: number): ISelectBuilder<TEntity>;
+    limit(count: number): ISelectBuilder<TEntity, TResult>;
 
     /**
      * OFFSET 설정
      */
-    offset(count: number): ISelectBuilder<TEntity>;
+    offset(count: number): ISelectBuilder<TEntity, TResult>;
 
     /**
      * ORDER BY 설정
      */
-    orderBy(column: string, order?: "ASC" | "DESC"): ISelectBuilder<TEntity>;
+    orderBy(column: OrderByColumn<TEntity, TResult>, order?: "ASC" | "DESC"): ISelectBuilder<TEntity, TResult>;
     /**
      * ORDER BY 설정 (객체 형태)
      */
-    orderBy(options: { column: string; order?: "ASC" | "DESC" }): ISelectBuilder<TEntity>;
+    orderBy(options: {
+        column: OrderByColumn<TEntity, TResult>;
+        order?: "ASC" | "DESC";
+    }): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 조회한 행을 수정용으로 잠금 (FOR UPDATE [OF ...])
+     * transaction() 안에서만 사용할 수 있으며, 잠금은 트랜잭션이 끝날 때 풀립니다
+     * @param tables 잠글 테이블 이름 또는 별칭 (생략하면 모든 테이블)
+     * @example
+     * await transaction(async () => {
+     *     const [item] = await inventory.select().where({ id }).forUpdate().execute();
+     *     await inventory.update().set({ reserved: item.reserved + 1 }).where({ id }).execute();
+     * });
+     */
+    forUpdate(...tables: string[]): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 키 컬럼 외의 수정용 잠금 (FOR NO KEY UPDATE, 외래 키 참조와 충돌하지 않음)
+     */
+    forNoKeyUpdate(...tables: string[]): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 공유 잠금 (FOR SHARE, 다른 트랜잭션의 수정/삭제를 막음)
+     */
+    forShare(...tables: string[]): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 키 공유 잠금 (FOR KEY SHARE, 키 변경과 삭제만 막음)
+     */
+    forKeyShare(...tables: string[]): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 마지막 잠금 절에서 다른 트랜잭션이 잠근 행을 건너뜀 (SKIP LOCKED)
+     */
+    skipLocked(): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 마지막 잠금 절에서 잠긴 행을 기다리지 않고 즉시 에러 (NOWAIT)
+     */
+    noWait(): ISelectBuilder<TEntity, TResult>;
+
+    /**
+     * 페이지 단위로 쿼리 실행
+     * 데이터와 전체 개수를 한 번의 쿼리로 조회합니다 (COUNT(*) OVER())
+     */
+    paginate(pagination?: PaginationOptions, options?: HandlerOption): Promise<PaginatedResult<TResult> | null>;
+
+    /**
+     * 키셋(커서) 방식으로 페이지 단위 쿼리 실행
+     * 결과는 Relay Connection 형태({ edges, pageInfo })입니다
+     */
+    cursorPaginate(
+        pagination?: CursorPaginationOptions,
+        options?: HandlerOption
+    ): Promise<CursorPaginatedResult<TResult> | null>;
+
+    /**
+     * SQL과 파라미터 생성 (서브쿼리로 사용할 때 바깥 쿼리의 파라미터 번호에 이어서 생성)
+     */
+    buildQuery(startIndex?: number): { sql: string; params: any[] };
+
+    /**
+     * 실행하지 않고 SQL과 파라미터 생성 (생성된 SQL 확인, 테스트용)
+     */
+    toSQL(): CompiledQuery;
+
+    /**
+     * 실행 계획 조회 (EXPLAIN, 기본 형식은 파싱된 JSON)
+     * analyze를 사용해도 트랜잭션을 롤백하므로 데이터는 변경되지 않습니다
+     */
+    explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null>;
+
+    /**
+     * 서버 측 커서로 결과를 batchSize 단위로 읽는 스트림 (대용량 내보내기 등)
+     * 중간에 break 하거나 destroy() 하면 트랜잭션을 롤백하고 연결을 반환합니다
+     * @example for await (const row of repository.select().stream({ batchSize: 500 })) { ... }
+     */
+    stream(options?: StreamOptions): SelectStream<TResult>;
 
     /**
      * 쿼리 실행
      */
-    execute(options?: HandlerOption): Promise<TEntity[] | null>;
+    execute(options?: HandlerOption): Promise<TResult[] | null>;
 }
 
 /**
  * SelectBuilder 클래스
  */
-export class SelectBuilder<TEntity extends QueryResultRow = any> implements ISelectBuilder<TEntity> {
+export class SelectBuilder<TEntity extends QueryResultRow = any, TResult = TEntity>
+    implements ISelectBuilder<TEntity, TResult>
+{
     private tableName: string;
     private logger: Logger;
-    private columns: string[] = [];
-    private whereConditions: Record<string, any> = {};
+    private keys: string[];
+    private quote: ColumnQuoter;
+    private alias?: string;
+    private source?: string;
+    private cteList: CteDefinition[] = [];
+    private columns: SelectColumn[] = [];
+    private joinList: JoinDefinition[] = [];
+    private whereConditions: WhereInput = null;
+    private groupByList: string[] = [];
+    private havingConditions: WhereInput = null;
+    private searchDefinition?: SearchDefinition;
     private limitCount?: number;
     private offsetCount?: number;
-    private orderByList: { column: string; order: "ASC" | "DESC" }[] = [];
+    private orderByList: OrderByItem[] = [];
+    private windows: Record<string, WindowSpec> = {};
+    private qualifyConditions: WhereInput = null;
+    private lockList: LockDefinition[] = [];
 
-    constructor(tableName: string, logger: Logger, columns?: string[]) {
+    constructor(
+        tableName: string,
+        logger: Logger,
+        columns?: readonly SelectColumn[],
+        keys: string[] = [],
+        quote: ColumnQuoter = quoteColumn
+    ) {
         this.tableName = tableName;
         this.logger = logger;
-        this.columns = columns || [];
+        this.columns = columns ? [...columns] : [];
+        this.keys = keys;
+        this.quote = quote;
     }
 
     /**
      * WHERE 조건 추가
      */
-    where(conditions: Record<string, any>): ISelectBuilder<TEntity> {
+    where(conditions: WhereInput<TEntity>): ISelectBuilder<TEntity, TResult> {
         // 기존 조건과 병합
-        this.whereConditions = { ...this.whereConditions, ...conditions };
+        this.whereConditions = mergeWhereInput(this.whereConditions, conditions);
+        return this;
+    }
+
+    /**
+     * 기준 테이블 별칭 설정
+     */
+    as(alias: string): ISelectBuilder<TEntity, TResult> {
+        this.alias = alias;
+        return this;
+    }
+
+    /**
+     * CTE 추가
+     */
+    with(name: string, query: Subquery, options?: CteOptions): ISelectBuilder<TEntity, TResult> {
+        this.cteList = appendCteDefinition(this.cteList, createCteDefinition(name, query, options));
+        return this;
+    }
+
+    /**
+     * 재귀 CTE 추가
+     */
+    withRecursive(
+        name: string,
+        anchor: Subquery,
+        recursive: Subquery,
+        options?: RecursiveCteOptions
+    ): ISelectBuilder<TEntity, TResult> {
+        this.cteList = appendCteDefinition(
+            this.cteList,
+            createRecursiveCteDefinition(name, anchor, recursive, options)
+        );
+        return this;
+    }
+
+    /**
+     * FROM 대상 변경
+     */
+    from(source: string): ISelectBuilder<TEntity, TResult> {
+        this.source = source;
+        return this;
+    }
+
+    /**
+     * INNER JOIN 추가
+     */
+    innerJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity, TResult> {
+        this.joinList.push(createJoinDefinition("INNER", target, on));
+        return this;
+    }
+
+    /**
+     * LEFT JOIN 추가
+     */
+    leftJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity, TResult> {
+        this.joinList.push(createJoinDefinition("LEFT", target, on));
+        return this;
+    }
+
+    /**
+     * RIGHT JOIN 추가
+     */
+    rightJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity, TResult> {
+        this.joinList.push(createJoinDefinition("RIGHT", target, on));
+        return this;
+    }
+
+    /**
+     * FULL JOIN 추가
+     */
+    fullJoin(target: JoinTarget, on: JoinCondition): ISelectBuilder<TEntity, TResult> {
+        this.joinList.push(createJoinDefinition("FULL", target, on));
+        return this;
+    }
+
+    /**
+     * GROUP BY 추가
+     */
+    groupBy(...columns: ColumnRef<TEntity>[]): ISelectBuilder<TEntity, TResult> {
+        this.groupByList.push(...columns);
+        return this;
+    }
+
+    /**
+     * HAVING 조건 추가
+     */
+    having(conditions: WhereInput): ISelectBuilder<TEntity, TResult> {
+        this.havingConditions = mergeWhereInput(this.havingConditions, conditions);
+        return this;
+    }
+
+    /**
+     * 전문 검색 조건 추가
+     */
+    search<const TOptions extends SearchOptions = {}>(
+        columns: ColumnRef<TEntity> | ColumnRef<TEntity>[],
+        query: string,
+        options?: TOptions
+    ): ISelectBuilder<TEntity, TResult & SearchFields<TOptions>> {
+        this.searchDefinition = createSearchDefinition(columns, query, options);
+        return this as unknown as ISelectBuilder<TEntity, TResult & SearchFields<TOptions>>;
+    }
+
+    /**
+     * 이름 있는 윈도우 추가
+     */
+    window(name: string, spec: WindowSpec): ISelectBuilder<TEntity, TResult> {
+        this.windows = { ...this.windows, [name]: spec };
+        return this;
+    }
+
+    /**
+     * QUALIFY 조건 추가
+     */
+    qualify(conditions: WhereInput<TResult>): ISelectBuilder<TEntity, TResult> {
+        this.qualifyConditions = mergeWhereInput(this.qualifyConditions, conditions);
         return this;
     }
 
     /**
      * LIMIT 설정
      */
-    limit(count: number): ISelectBuilder<TEntity> {
+    limit(count: number): ISelectBuilder<TEntity, TResult> {
         this.limitCount = count;
         return this;
     }
@@ -78,7 +566,7 @@ export class SelectBuilder<TEntity extends QueryResultRow = any> implements ISel
     /**
      * OFFSET 설정
      */
-    offset(count: number): ISelectBuilder<TEntity> {
+    offset(count: number): ISelectBuilder<TEntity, TResult> {
         this.offsetCount = count;
         return this;
     }
@@ -86,8 +574,13 @@ export class SelectBuilder<TEntity extends QueryResultRow = any> implements ISel
     /**
      * ORDER BY 설정
      */
-    orderBy(columnOrOptions: string | { column: string; order?: "ASC" | "DESC" }, order?: "ASC" | "DESC"): ISelectBuilder<TEntity> {
-        if (typeof columnOrOptions === "string") {
+    orderBy(
+        columnOrOptions:
+            | OrderByColumn<TEntity, TResult>
+            | { column: OrderByColumn<TEntity, TResult>; order?: "ASC" | "DESC" },
+        order?: "ASC" | "DESC"
+    ): ISelectBuilder<TEntity, TResult> {
+        if (typeof columnOrOptions === "string" || isSqlFragment(columnOrOptions)) {
             this.orderByList.push({ column: columnOrOptions, order: order || "ASC" });
         } else {
             this.orderByList.push({ column: columnOrOptions.column, order: columnOrOptions.order || "ASC" });
@@ -95,17 +588,113 @@ export class SelectBuilder<TEntity extends QueryResultRow = any> implements ISel
         return this;
     }
 
+    /**
+     * FOR UPDATE 잠금 추가
+     */
+    forUpdate(...tables: string[]): ISelectBuilder<TEntity, TResult> {
+        this.lockList = appendLock(this.lockList, "UPDATE", tables);
+        return this;
+    }
+
+    /**
+     * FOR NO KEY UPDATE 잠금 추가
+     */
+    forNoKeyUpdate(...tables: string[]): ISelectBuilder<TEntity, TResult> {
+        this.lockList = appendLock(this.lockList, "NO KEY UPDATE", tables);
+        return this;
+    }
+
+    /**
+     * FOR SHARE 잠금 추가
+     */
+    forShare(...tables: string[]): ISelectBuilder<TEntity, TResult> {
+        this.lockList = appendLock(this.lockList, "SHARE", tables);
+        return this;
+    }
+
+    /**
+     * FOR KEY SHARE 잠금 추가
+     */
+    forKeyShare(...tables: string[]): ISelectBuilder<TEntity, TResult> {
+        this.lockList = appendLock(this.lockList, "KEY SHARE", tables);
+        return this;
+    }
+
+    /**
+     * SKIP LOCKED 설정
+     */
+    skipLocked(): ISelectBuilder<TEntity, TResult> {
+        this.lockList = applyLockWaitPolicy(this.lockList, "SKIP LOCKED");
+        return this;
+    }
+
+    /**
+     * NOWAIT 설정
+     */
+    noWait(): ISelectBuilder<TEntity, TResult> {
+        this.lockList = applyLockWaitPolicy(this.lockList, "NOWAIT");
+        return this;
+    }
+
     /**
      * 내부 상태 접근 메서드 (각 모듈에서 사용)
      */
-    getWhereConditions(): Record<string, any> {
+    getWhereConditions(): WhereInput {
         return this.whereConditions;
     }
 
-    setWhereConditions(conditions: Record<string, any>): void {
+    setWhereConditions(conditions: WhereInput): void {
         this.whereConditions = conditions;
     }
 
+    getJoinList(): JoinDefinition[] {
+        return this.joinList;
+    }
+
+    setJoinList(list: JoinDefinition[]): void {
+        this.joinList = list;
+    }
+
+    getGroupByList(): string[] {
+        return this.groupByList;
+    }
+
+    setGroupByList(list: string[]): void {
+        this.groupByList = list;
+    }
+
+    getHavingConditions(): WhereInput {
+        return this.havingConditions;
+    }
+
+    setHavingConditions(conditions: WhereInput): void {
+        this.havingConditions = conditions;
+    }
+
+    getSearchDefinition(): SearchDefinition | undefined {
+        return this.searchDefinition;
+    }
+
+    setSearchDefinition(definition: SearchDefinition | undefined): void {
+        this.searchDefinition = definition;
+    }
+
+    getWindows(): Record<string, WindowSpec> {
+        return this.windows;
+    }
+
+    setWindows(windows: Record<string, WindowSpec>): void {
+        this.windows = windows;
+    }
+
+    getQualifyConditions(): WhereInput {
+        return this.qualifyConditions;
+    }
+
+    setQualifyConditions(conditions: WhereInput): void {
+        this.qualifyConditions = conditions;
+    }
+
     getLimitCount(): number | undefined {
         return this.limitCount;
     }
@@ -122,53 +711,229 @@ export class SelectBuilder<TEntity extends QueryResultRow = any> implements ISel
         this.offsetCount = count;
     }
 
-    getOrderByList(): { column: string; order: "ASC" | "DESC" }[] {
+    getOrderByList(): OrderByItem[] {
         return this.orderByList;
     }
 
-    setOrderByList(list: { column: string; order: "ASC" | "DESC" }[]): void {
+    setOrderByList(list: OrderByItem[]): void {
         this.orderByList = list;
     }
 
+    getLockList(): LockDefinition[] {
+        return this.lockList;
+    }
+
+    setLockList(list: LockDefinition[]): void {
+        this.lockList = list;
+    }
+
     /**
-     * 쿼리 실행
+     * 현재 상태를 복사한 새 빌더 (페이지네이션 등 내부 용도)
+     * 복사본의 조건, 정렬, LIMIT을 바꿔도 원래 빌더에는 영향이 없습니다
      */
-    async execute(options?: HandlerOption): Promise<TEntity[] | null> {
-        return await handler(
-            async (connection: PoolClient) => {
-                // SELECT 컬럼
-                const selectColumns = this.columns.length > 0 ? this.columns.join(", ") : "*";
+    clone(): SelectBuilder<TEntity, TResult> {
+        const copy = new SelectBuilder<TEntity, TResult>(this.tableName, this.logger, this.columns, this.keys, this.quote);
+        copy.alias = this.alias;
+        copy.source = this.source;
+        copy.cteList = [...this.cteList];
+        copy.joinList = [...this.joinList];
+        copy.whereConditions = this.whereConditions;
+        copy.groupByList = [...this.groupByList];
+        copy.havingConditions = this.havingConditions;
+        copy.searchDefinition = this.searchDefinition;
+        copy.limitCount = this.limitCount;
+        copy.offsetCount = this.offsetCount;
+        copy.orderByList = [...this.orderByList];
+        copy.windows = { ...this.windows };
+        copy.qualifyConditions = this.qualifyConditions;
+        copy.lockList = [...this.lockList];
+        return copy;
+    }
+
+    /**
+     * SELECT 쿼리를 SQL과 파라미터로 변환
+     * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+     * @param extraColumns 컬럼 목록 뒤에 덧붙일 표현식 (페이지네이션 등 내부 용도)
+     */
+    buildQuery(startIndex: number = 1, extraColumns: string[] = []): { sql: string; params: any[] } {
+        // 각 절의 파라미터를 SQL에 나타나는 순서대로 모으고, 번호는 앞 절에 이어서 붙입니다
+        const params: any[] = [];
+        const nextIndex = () => startIndex + params.length;
 
-                // WHERE 절 (where 모듈 사용)
-                const { sql: whereClause, params } = buildWhereClause(this.whereConditions);
+        // WITH 절 (cte 모듈 사용)
+        const withBuilt = buildWithClause(this.cteList, nextIndex());
+        params.push(...withBuilt.params);
 
-                // ORDER BY 절 (orderBy 모듈 사용)
-                const orderByClause = buildOrderByClause(this.orderByList);
+        // FROM 별칭과 JOIN 대상으로 한정한 컬럼도 각자의 허용 목록으로 검사합니다
+        const quote = this.quote.withQualifiers(
+            [this.alias, this.source].filter((name): name is string => name !== undefined),
+            buildJoinQualifiers(this.joinList)
+        );
+
+        // SELECT 컬럼 (식별자 인용, 허용 목록 검사)
+        const columnsBuilt = buildSelectColumns(this.columns, quote, nextIndex());
+        params.push(...columnsBuilt.params);
+
+        // FROM 절 (별칭 포함)
+        const tableName = quoteQualifiedName(this.source ?? this.tableName);
+        const fromClause = this.alias ? `FROM ${tableName} AS ${quoteAlias(this.alias)}` : `FROM ${tableName}`;
 
-                // LIMIT 절 (limit 모듈 사용)
-                const limitClause = buildLimitClause(this.limitCount);
+        // JOIN 절 (join 모듈 사용)
+        const joinBuilt = buildJoinClause(this.joinList, nextIndex(), quote);
+        params.push(...joinBuilt.params);
 
-                // OFFSET 절 (limit 모듈 사용)
-                const offsetClause = buildOffsetClause(this.offsetCount);
+        // WHERE 조건 (where 모듈 사용)
+        const whereBuilt = buildConditionClause(this.whereConditions, nextIndex(), quote);
+        params.push(...whereBuilt.params);
+
+        // 전문 검색 (search 모듈 사용, WHERE 조건과 AND로 결합)
+        const search = this.searchDefinition ? buildSearchClause(this.searchDefinition, nextIndex(), quote) : null;
+        if (search) {
+            params.push(...search.params);
+        }
+        const whereParts = [whereBuilt.sql, search ? search.condition : ""].filter((part) => part !== "");
+        const whereClause =
+            whereParts.length === 0
+                ? ""
+                : whereParts.length === 1
+                  ? `WHERE ${whereParts[0]}`
+                  : `WHERE (${whereParts[0]}) AND ${whereParts[1]}`;
 
-                // 최종 쿼리 구성
-                const queryParts = [
-                    `SELECT ${selectColumns}`,
-                    `FROM ${this.tableName}`,
-                    whereClause,
-                    orderByClause,
-                    limitClause,
-                    offsetClause,
-                ].filter((part) => part !== "");
+        // QUALIFY를 사용하면 추가 컬럼(전체 개수 등)은 필터링 후의 바깥 쿼리에 붙입니다
+        const columnList = columnsBuilt.columns.length > 0 ? columnsBuilt.columns : ["*"];
+        const selectColumns = columnList
+            .concat(search ? search.columns : [], this.qualifyConditions ? [] : extraColumns)
+            .join(", ");
 
-                const query = queryParts.join(" ");
+        // GROUP BY 절 (groupBy 모듈 사용)
+        const groupByClause = buildGroupByClause(this.groupByList, quote);
 
+        // HAVING 절 (having 모듈 사용)
+        const havingBuilt = buildHavingClause(this.havingConditions, nextIndex(), quote);
+        params.push(...havingBuilt.params);
+
+        // WINDOW 절 (window 모듈 사용)
+        const windowClause = buildWindowClause(this.windows, quote);
+
+        const selectParts = [
+            `SELECT ${selectColumns}`,
+            fromClause,
+            joinBuilt.sql,
+            whereClause,
+            groupByClause,
+            havingBuilt.sql,
+            windowClause,
+        ].filter((part) => part !== "");
+
+        // QUALIFY: 윈도우 함수 결과로 거르기 위해 서브쿼리로 감싸고 정렬/LIMIT은 바깥에서 적용
+        let qualifyClause = "";
+        if (this.qualifyConditions) {
+            const qualifyBuilt = buildQualifyClause(this.qualifyConditions, nextIndex());
+            params.push(...qualifyBuilt.params);
+            qualifyClause = qualifyBuilt.sql;
+        }
+
+        // ORDER BY 절 (orderBy 모듈 사용, 검색 순위 정렬이 있으면 먼저 적용)
+        // QUALIFY 사용 시 바깥 쿼리에서 결과 컬럼 이름으로 정렬하므로 허용 목록을 검사하지 않습니다
+        const orderByBuilt = buildOrderByClause(
+            this.orderByList,
+            this.qualifyConditions ? quoteColumn : quote,
+            nextIndex()
+        );
+        params.push(...orderByBuilt.params);
+        const orderByClause =
+            search && search.orderBy
+                ? [`ORDER BY ${search.orderBy}`, orderByBuilt.sql.replace(/^ORDER BY /, "")]
+                      .filter((part) => part !== "")
+                      .join(", ")
+                : orderByBuilt.sql;
+
+        // LIMIT 절 (limit 모듈 사용)
+        const limitClause = buildLimitClause(this.limitCount);
+
+        // OFFSET 절 (limit 모듈 사용)
+        const offsetClause = buildOffsetClause(this.offsetCount);
+
+        // FOR UPDATE 등 잠금 절 (lock 모듈 사용)
+        const lockClause = buildLockClause(this.lockList);
+
+        // 최종 쿼리 구성
+        const queryParts = this.qualifyConditions
+            ? [
+                  withBuilt.sql,
+                  `SELECT ${["*"].concat(extraColumns).join(", ")} FROM (${selectParts.join(" ")}) AS "qualified"`,
+                  qualifyClause,
+              ]
+            : [withBuilt.sql, ...selectParts];
+        queryParts.push(orderByClause, limitClause, offsetClause, lockClause);
+
+        return { sql: queryParts.filter((part) => part !== "").join(" "), params };
+    }
+
+    /**
+     * 페이지 단위로 쿼리 실행
+     */
+    async paginate(
+        pagination?: PaginationOptions,
+        options?: HandlerOption
+    ): Promise<PaginatedResult<TResult> | null> {
+        return await paginateSelect(this, this.logger, pagination, options);
+    }
+
+    /**
+     * 키셋(커서) 방식으로 페이지 단위 쿼리 실행
+     * 정렬 동률 처리를 위해 Repository keys를 정렬 뒤에 추가합니다
+     */
+    async cursorPaginate(
+        pagination?: CursorPaginationOptions,
+        options?: HandlerOption
+    ): Promise<CursorPaginatedResult<TResult> | null> {
+        return await cursorPaginateSelect(this, this.logger, this.keys, pagination, options);
+    }
+
+    /**
+     * 실행하지 않고 SQL과 파라미터 생성
+     */
+    toSQL(): CompiledQuery {
+        const { sql, params } = this.buildQuery();
+        return { text: sql, values: params };
+    }
+
+    /**
+     * 실행 계획 조회
+     */
+    async explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null> {
+        return await explainQuery(this.buildQuery(), this.logger, options, handlerOptions);
+    }
+
+    /**
+     * 서버 측 커서로 스트리밍
+     */
+    stream(options?: StreamOptions): SelectStream<TResult> {
+        assertLockInTransaction(this.lockList);
+        return streamSelect<TResult>(this, this.logger, options);
+    }
+
+    /**
+     * 쿼리 실행
+     */
+    async execute(options?: HandlerOption): Promise<TResult[] | null> {
+        // 식별자 오류와 트랜잭션 밖의 잠금은 연결을 얻기 전에 호출자에게 던집니다
+        const { sql: query, params } = this.buildQuery();
+        assertLockInTransaction(this.lockList);
+        const handlerOptions: HandlerOption = { useTransaction: false, ...options };
+
+        return await handler(
+            async (connection: PoolClient) => {
                 this.logger.debug(`Executing SELECT: ${query}`, params);
 
-                const result = await connection.query<TEntity>(query, params);
+                const result = await connection.query<TResult & QueryResultRow>(query, params);
                 return result.rows;
             },
-            { useTransaction: false, ...options }
+            handlerOptions
         );
     }
 
@@ -177,22 +942,47 @@ export class SelectBuilder<TEntity extends QueryResultRow = any> implements ISel
 /**
  * Select 함수 타입
  */
-export type SelectFunction<TEntity extends QueryResultRow = any> = (
-    columns?: string[]
-) => ISelectBuilder<TEntity>;
+export type SelectFunction<TEntity extends QueryResultRow = any> = <
+    const TColumns extends readonly SelectColumn<TEntity>[] = [],
+>(
+    columns?: TColumns
+) => ISelectBuilder<TEntity, SelectResult<TEntity, TColumns>>;
 
 /**
  * Select 함수를 생성합니다
  */
 export function createSelectFunction<TEntity extends QueryResultRow = any>(
     tableName: string,
-    logger: Logger
+    logger: Logger,
+    keys: string[] = [],
+    quote: ColumnQuoter = quoteColumn
 ): SelectFunction<TEntity> {
-    return function select(columns?: string[]): ISelectBuilder<TEntity> {
-        const builder = new SelectBuilder<TEntity>(tableName, logger, columns);
-        // 각 모듈의 확장 함수를 체이닝하여 메서드 추가
-        return extendSelectBuilderWithOrderBy(
-            extendSelectBuilderWithLimit(extendSelectBuilderWithWhere(builder))
+    return function select<const TColumns extends readonly SelectColumn<TEntity>[] = []>(
+        columns?: TColumns
+    ): ISelectBuilder<TEntity, SelectResult<TEntity, TColumns>> {
+        const builder = new SelectBuilder<TEntity, SelectResult<TEntity, TColumns>>(
+            tableName,
+            logger,
+            columns,
+            keys,
+            quote
         );
+        // 각 모듈의 확장 함수를 적용하여 메서드 추가
+        const extensions = [
+            extendSelectBuilderWithWhere,
+            extendSelectBuilderWithLimit,
+            extendSelectBuilderWithOrderBy,
+            extendSelectBuilderWithInnerJoin,
+            extendSelectBuilderWithLeftJoin,
+            extendSelectBuilderWithRightJoin,
+            extendSelectBuilderWithFullJoin,
+            extendSelectBuilderWithGroupBy,
+            extendSelectBuilderWithHaving,
+            extendSelectBuilderWithSearch,
+            extendSelectBuilderWithWindow,
+            extendSelectBuilderWithLock,
+        ];
+        extensions.forEach((extend) => extend(builder as ISelectBuilder<any>));
+        return builder;
     };
 }
@@ -0,0 +1,55 @@
+import { describe, expectTypeOf, it } from "vitest";
+import { createRepository } from "../createRepository";
+import { count, sum } from "./aggregate/aggregate";
+
+interface User {
+    id: number;
+    name: string;
+    email: string | null;
+}
+
+interface Order {
+    id: number;
+    user_id: number;
+    amount: number;
+}
+
+const users = createRepository<User>({ tableName: "types_users", keys: ["id"] });
+const orders = createRepository<Order>({ tableName: "types_orders", keys: ["id"] });
+
+/**
+ * 컴파일 시점 타입 검사 (tsc --noEmit으로 검증되며 쿼리는 실행하지 않음)
+ */
+describe("SelectBuilder 타입", () => {
+    it("컬럼을 지정하지 않으면 엔티티 전체 타입", () => {
+        expectTypeOf(users.select().execute).returns.resolves.toEqualTypeOf<User[] | null>();
+    });
+
+    it("엔티티 컬럼만 지정하면 Pick으로 좁혀짐", () => {
+        expectTypeOf(users.select(["id", "name"]).execute).returns.resolves.toEqualTypeOf<
+            Pick<User, "id" | "name">[] | null
+        >();
+    });
+
+    it("별칭과 집계 표현식은 결과 키가 됨", () => {
+        const builder = orders
+            .select(["user_id", "amount AS total", count("*").as("orders"), sum("amount").as("revenue")])
+            .groupBy("user_id", "amount");
+
+        expectTypeOf(builder.execute).returns.resolves.toEqualTypeOf<
+            { user_id: number; total: number; orders: string; revenue: string }[] | null
+        >();
+    });
+
+    it("엔티티에 없는 컬럼 이름은 컴파일 에러", () => {
+        // @ts-expect-error - 존재하지 않는 컬럼
+        users.select(["id", "nmae"]);
+        // @ts-expect-error - 존재하지 않는 WHERE 컬럼
+        users.select().where({ nmae: "kim" });
+        // @ts-expect-error - 존재하지 않는 ORDER BY 컬럼
+        users.select().orderBy("created_at");
+
+        // 별칭으로 한정된 컬럼은 JOIN 대상일 수 있으므로 허용
+        users.select(["u.id", "o.amount"]).as("u").where({ "o.amount": 1 });
+    });
+});
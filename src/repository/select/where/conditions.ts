@@ -1,4 +1,5 @@
-import { FieldCondition } from "./operators";
+import { ExistsCondition, FieldCondition, RowValueCondition } from "./operators";
+import { SqlFragment } from "../../../extensions/features/raw/raw";
 
 /**
  * 논리 연산자 타입
@@ -15,8 +16,9 @@ export interface LogicalCondition {
 
 /**
  * WHERE 조건 트리의 루트 타입
+ * sql`...` 조각은 그 자체로 조건이 됩니다
  */
-export type ConditionNode = FieldCondition | LogicalCondition;
+export type ConditionNode = FieldCondition | RowValueCondition | ExistsCondition | SqlFragment<any, any> | LogicalCondition;
 
 /**
  * AND 조합
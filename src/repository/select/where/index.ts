@@ -1 +1,3 @@
 export * from "./where";
+export * from "./conditions";
+export * from "./operators";
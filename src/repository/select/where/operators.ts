@@ -1,19 +1,155 @@
+import { AggregateExpression } from "../aggregate/aggregate";
+import { SqlFragment } from "../../../extensions/features/raw/raw";
+import { assertCastType, ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+
 /**
  * 연산자 타입 정의
  * =, !=, >, <, >=, <=, LIKE, IN, NOT IN, BETWEEN 등을 지원합니다.
  */
 export type ComparisonOperator = "=" | "!=" | ">" | "<" | ">=" | "<=" | "LIKE";
 
+/**
+ * 패턴 매칭 연산자 (LIKE 계열, 정규식)
+ */
+export type PatternOperator = "NOT LIKE" | "ILIKE" | "NOT ILIKE" | "~" | "~*" | "!~" | "!~*";
+
+/**
+ * NULL을 값으로 비교하는 연산자
+ */
+export type DistinctOperator = "IS DISTINCT FROM" | "IS NOT DISTINCT FROM";
+
+/**
+ * 배열 / JSONB 포함 연산자
+ * @> 와 <@ 는 배열과 JSONB 모두에 사용됩니다
+ */
+export type ContainmentOperator = "@>" | "<@" | "&&";
+
+/**
+ * JSONB 키 존재 연산자
+ */
+export type JsonKeyOperator = "?" | "?|" | "?&";
+
+/**
+ * 값을 파라미터 하나로 비교하는 연산자
+ */
+export type ValueOperator = ComparisonOperator | PatternOperator | DistinctOperator | ContainmentOperator | JsonKeyOperator;
+
 export type CollectionOperator = "IN" | "NOT IN" | "BETWEEN";
 
-export type Operator = ComparisonOperator | CollectionOperator;
+export type NullOperator = "IS NULL" | "IS NOT NULL";
+
+/**
+ * 배열 파라미터와 비교할 때의 한정자 (= ANY($1), <> ALL($1))
+ */
+export type Quantifier = "ANY" | "ALL";
+
+export type Operator = ValueOperator | CollectionOperator | NullOperator;
+
+/**
+ * JSON 경로 표현식
+ * 중간 경로는 ->, 마지막 경로는 ->>로 접근하여 텍스트로 비교합니다
+ * @example eq(jsonPath("profile", "address", "city"), "Seoul")
+ */
+export class JsonPathExpression {
+    readonly column: string;
+    readonly path: (string | number)[];
+    readonly castType?: string;
+
+    constructor(column: string, path: (string | number)[], castType?: string) {
+        if (path.length === 0) {
+            throw new Error("JSON path must have at least one element.");
+        }
+        this.column = column;
+        this.path = path;
+        this.castType = castType;
+    }
+
+    /**
+     * 결과를 지정한 타입으로 캐스팅 (예: 숫자 비교 시 "numeric")
+     */
+    cast(type: string): JsonPathExpression {
+        return new JsonPathExpression(this.column, this.path, assertCastType(type));
+    }
+
+    /**
+     * JSON 경로 표현식을 SQL로 변환
+     */
+    toSql(quote: ColumnQuoter = quoteColumn): string {
+        const steps = this.path.map((key, index) => {
+            const arrow = index === this.path.length - 1 ? "->>" : "->";
+            const element = typeof key === "number" ? String(Math.trunc(key)) : `'${key.replace(/'/g, "''")}'`;
+            return `${arrow}${element}`;
+        });
+        const sql = `${quote(this.column)}${steps.join("")}`;
+        return this.castType ? `(${sql})::${this.castType}` : sql;
+    }
+}
+
+/**
+ * JSON 경로 표현식 생성
+ */
+export function jsonPath(column: string, ...path: (string | number)[]): JsonPathExpression {
+    return new JsonPathExpression(column, path);
+}
+
+/**
+ * 조건 대상 필드
+ * - 문자열: 컬럼 이름 (예: "id", "u.id")
+ * - 집계 표현식: HAVING 조건에서 사용 (예: count("*"))
+ * - JSON 경로 표현식: JSONB 내부 값 비교 (예: jsonPath("data", "status"))
+ * - SQL 조각: 임의 표현식 (예: sql`lower(${sql.identifier("email")})`)
+ */
+export type ConditionField = string | AggregateExpression<any, any> | JsonPathExpression | SqlFragment<any, any>;
+
+/**
+ * 컬럼 참조
+ * 값 대신 다른 컬럼과 비교할 때 사용합니다 (예: JOIN ON 조건)
+ */
+export class ColumnReference {
+    readonly name: string;
+
+    constructor(name: string) {
+        this.name = name;
+    }
+}
+
+/**
+ * 컬럼 참조 생성
+ * @example eq("o.user_id", col("u.id"))
+ */
+export function col(name: string): ColumnReference {
+    return new ColumnReference(name);
+}
+
+/**
+ * 값이 컬럼 참조인지 확인
+ */
+export function isColumnReference(value: any): value is ColumnReference {
+    return value instanceof ColumnReference;
+}
+
+/**
+ * 서브쿼리로 사용할 수 있는 빌더 (repository.select() 등)
+ * 바깥 쿼리의 파라미터 번호에 이어서 SQL을 만들 수 있어야 합니다
+ * @example inArray("id", orders.select(["user_id"]).where({ status: "paid" }))
+ */
+export interface Subquery {
+    buildQuery(startIndex?: number): { sql: string; params: any[] };
+}
+
+/**
+ * 값이 서브쿼리인지 확인
+ */
+export function isSubquery(value: any): value is Subquery {
+    return value !== null && typeof value === "object" && typeof value.buildQuery === "function";
+}
 
 /**
  * 단일 값 비교 조건
  */
 export interface SingleValueCondition {
-    field: string;
-    operator: ComparisonOperator;
+    field: ConditionField;
+    operator: ValueOperator;
     value: any;
 }
 
@@ -21,64 +157,265 @@ export interface SingleValueCondition {
  * 컬렉션 (IN / NOT IN) 조건
  */
 export interface InCondition {
-    field: string;
+    field: ConditionField;
     operator: "IN" | "NOT IN";
-    value: any[];
+    value: any[] | Subquery;
 }
 
 /**
  * BETWEEN 조건
  */
 export interface BetweenCondition {
-    field: string;
+    field: ConditionField;
     operator: "BETWEEN";
     value: [any, any];
 }
 
+/**
+ * NULL 검사 조건 (IS NULL / IS NOT NULL)
+ */
+export interface NullCondition {
+    field: ConditionField;
+    operator: NullOperator;
+}
+
+/**
+ * 배열 파라미터 하나와 비교하는 조건 (field = ANY($1), field <> ALL($1))
+ * 값 개수와 관계없이 SQL이 같으므로 문장 캐시에 유리합니다
+ */
+export interface QuantifiedCondition {
+    field: ConditionField;
+    operator: ComparisonOperator | PatternOperator;
+    quantifier: Quantifier;
+    value: any[] | Subquery;
+}
+
+/**
+ * 행 값 비교 조건 ((a, b) > ($1, $2))
+ * 키셋 페이지네이션 등 여러 컬럼을 한 번에 비교할 때 사용합니다
+ */
+export interface RowValueCondition {
+    fields: string[];
+    operator: ">" | "<" | ">=" | "<=";
+    value: any[];
+}
+
+/**
+ * 서브쿼리 존재 조건 (EXISTS / NOT EXISTS)
+ * 바깥 테이블과의 연결은 서브쿼리 안에서 col()로 지정합니다
+ */
+export interface ExistsCondition {
+    operator: "EXISTS" | "NOT EXISTS";
+    subquery: Subquery;
+}
+
 /**
  * 필드 조건 (기본 단위 조건)
  */
-export type FieldCondition = SingleValueCondition | InCondition | BetweenCondition;
+export type FieldCondition =
+    | SingleValueCondition
+    | InCondition
+    | BetweenCondition
+    | NullCondition
+    | QuantifiedCondition;
 
 /**
  * 연산자별 헬퍼
  */
-export function eq(field: string, value: any): SingleValueCondition {
+export function eq(field: ConditionField, value: any): SingleValueCondition {
     return { field, operator: "=", value };
 }
 
-export function ne(field: string, value: any): SingleValueCondition {
+export function ne(field: ConditionField, value: any): SingleValueCondition {
     return { field, operator: "!=", value };
 }
 
-export function gt(field: string, value: any): SingleValueCondition {
+export function gt(field: ConditionField, value: any): SingleValueCondition {
     return { field, operator: ">", value };
 }
 
-export function gte(field: string, value: any): SingleValueCondition {
+export function gte(field: ConditionField, value: any): SingleValueCondition {
     return { field, operator: ">=", value };
 }
 
-export function lt(field: string, value: any): SingleValueCondition {
+export function lt(field: ConditionField, value: any): SingleValueCondition {
     return { field, operator: "<", value };
 }
 
-export function lte(field: string, value: any): SingleValueCondition {
+export function lte(field: ConditionField, value: any): SingleValueCondition {
     return { field, operator: "<=", value };
 }
 
-export function like(field: string, value: any): SingleValueCondition {
+export function like(field: ConditionField, value: any): SingleValueCondition {
     return { field, operator: "LIKE", value };
 }
 
-export function inArray(field: string, value: any[]): InCondition {
+export function inArray(field: ConditionField, value: any[] | Subquery): InCondition {
     return { field, operator: "IN", value };
 }
 
-export function notInArray(field: string, value: any[]): InCondition {
+export function notInArray(field: ConditionField, value: any[] | Subquery): InCondition {
     return { field, operator: "NOT IN", value };
 }
 
-export function between(field: string, from: any, to: any): BetweenCondition {
+export function between(field: ConditionField, from: any, to: any): BetweenCondition {
     return { field, operator: "BETWEEN", value: [from, to] };
 }
+
+export function rowCompare(fields: string[], operator: RowValueCondition["operator"], values: any[]): RowValueCondition {
+    if (fields.length === 0 || fields.length !== values.length) {
+        throw new Error("Row value comparison requires the same number of fields and values.");
+    }
+    return { fields, operator, value: values };
+}
+
+export function ilike(field: ConditionField, value: any): SingleValueCondition {
+    return { field, operator: "ILIKE", value };
+}
+
+export function notLike(field: ConditionField, value: any): SingleValueCondition {
+    return { field, operator: "NOT LIKE", value };
+}
+
+export function notIlike(field: ConditionField, value: any): SingleValueCondition {
+    return { field, operator: "NOT ILIKE", value };
+}
+
+export function isNull(field: ConditionField): NullCondition {
+    return { field, operator: "IS NULL" };
+}
+
+export function isNotNull(field: ConditionField): NullCondition {
+    return { field, operator: "IS NOT NULL" };
+}
+
+/**
+ * 정규식 매칭 (~, 대소문자 무시는 ~*)
+ */
+export function regex(field: ConditionField, pattern: string): SingleValueCondition {
+    return { field, operator: "~", value: pattern };
+}
+
+export function iregex(field: ConditionField, pattern: string): SingleValueCondition {
+    return { field, operator: "~*", value: pattern };
+}
+
+export function notRegex(field: ConditionField, pattern: string): SingleValueCondition {
+    return { field, operator: "!~", value: pattern };
+}
+
+export function notIregex(field: ConditionField, pattern: string): SingleValueCondition {
+    return { field, operator: "!~*", value: pattern };
+}
+
+/**
+ * NULL을 일반 값처럼 비교 (IS DISTINCT FROM)
+ */
+export function isDistinctFrom(field: ConditionField, value: any): SingleValueCondition {
+    return { field, operator: "IS DISTINCT FROM", value };
+}
+
+export function isNotDistinctFrom(field: ConditionField, value: any): SingleValueCondition {
+    return { field, operator: "IS NOT DISTINCT FROM", value };
+}
+
+/**
+ * 배열 파라미터 중 하나라도 만족 (field operator ANY($1))
+ */
+export function anyOf(
+    field: ConditionField,
+    operator: QuantifiedCondition["operator"],
+    values: any[] | Subquery
+): QuantifiedCondition {
+    return { field, operator, quantifier: "ANY", value: values };
+}
+
+/**
+ * 배열 파라미터를 모두 만족 (field operator ALL($1))
+ */
+export function allOf(
+    field: ConditionField,
+    operator: QuantifiedCondition["operator"],
+    values: any[] | Subquery
+): QuantifiedCondition {
+    return { field, operator, quantifier: "ALL", value: values };
+}
+
+/**
+ * field = ANY($1) (IN과 같지만 배열 파라미터 하나만 사용)
+ */
+export function eqAny(field: ConditionField, values: any[]): QuantifiedCondition {
+    return anyOf(field, "=", values);
+}
+
+/**
+ * field <> ALL($1) (NOT IN과 같지만 배열 파라미터 하나만 사용)
+ */
+export function neAll(field: ConditionField, values: any[]): QuantifiedCondition {
+    return allOf(field, "!=", values);
+}
+
+/**
+ * 배열 컬럼이 값을 모두 포함 (@>)
+ */
+export function arrayContains(field: ConditionField, values: any[]): SingleValueCondition {
+    return { field, operator: "@>", value: values };
+}
+
+/**
+ * 배열 컬럼이 값에 모두 포함됨 (<@)
+ */
+export function arrayContainedBy(field: ConditionField, values: any[]): SingleValueCondition {
+    return { field, operator: "<@", value: values };
+}
+
+/**
+ * 배열 컬럼과 값이 하나 이상 겹침 (&&)
+ */
+export function arrayOverlaps(field: ConditionField, values: any[]): SingleValueCondition {
+    return { field, operator: "&&", value: values };
+}
+
+/**
+ * JSONB 컬럼이 값을 포함 (@>)
+ * 배열이 PostgreSQL 배열로 변환되지 않도록 JSON 문자열로 전달합니다
+ */
+export function jsonContains(field: ConditionField, value: any): SingleValueCondition {
+    return { field, operator: "@>", value: JSON.stringify(value) };
+}
+
+/**
+ * JSONB 최상위 키 존재 (?)
+ */
+export function jsonHasKey(field: ConditionField, key: string): SingleValueCondition {
+    return { field, operator: "?", value: key };
+}
+
+/**
+ * JSONB 키 중 하나라도 존재 (?|)
+ */
+export function jsonHasAnyKey(field: ConditionField, keys: string[]): SingleValueCondition {
+    return { field, operator: "?|", value: keys };
+}
+
+/**
+ * JSONB 키가 모두 존재 (?&)
+ */
+export function jsonHasAllKeys(field: ConditionField, keys: string[]): SingleValueCondition {
+    return { field, operator: "?&", value: keys };
+}
+
+/**
+ * 서브쿼리 결과가 하나 이상 존재
+ * @example exists(orders.select(["id"]).as("o").where(eq("o.user_id", col("u.id"))))
+ */
+export function exists(subquery: Subquery): ExistsCondition {
+    return { operator: "EXISTS", subquery };
+}
+
+/**
+ * 서브쿼리 결과가 존재하지 않음
+ */
+export function notExists(subquery: Subquery): ExistsCondition {
+    return { operator: "NOT EXISTS", subquery };
+}
@@ -0,0 +1,164 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../createRepository";
+import { and, or } from "./conditions";
+import { max } from "../aggregate/aggregate";
+import {
+    allOf,
+    anyOf,
+    arrayContainedBy,
+    arrayContains,
+    arrayOverlaps,
+    col,
+    eq,
+    eqAny,
+    exists,
+    gt,
+    gte,
+    ilike,
+    inArray,
+    iregex,
+    isDistinctFrom,
+    isNotDistinctFrom,
+    isNotNull,
+    isNull,
+    jsonContains,
+    jsonHasAllKeys,
+    jsonHasAnyKey,
+    jsonHasKey,
+    jsonPath,
+    ne,
+    neAll,
+    notExists,
+    notIlike,
+    notInArray,
+    notRegex,
+    regex,
+} from "./operators";
+
+const products = createRepository<any>({ tableName: "where_products", keys: ["id"] });
+const reviews = createRepository<any>({ tableName: "where_reviews", keys: ["id"] });
+
+/**
+ * 조건으로 조회한 id 목록 (id 순)
+ */
+async function ids(condition: Parameters<ReturnType<typeof products.select>["where"]>[0]): Promise<number[]> {
+    const rows = await products.select(["id"]).where(condition).orderBy("id").execute({ throwError: true });
+    return rows!.map((row) => row.id);
+}
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE where_products (
+            id INT PRIMARY KEY,
+            name TEXT NOT NULL,
+            sku TEXT,
+            tags TEXT[] NOT NULL DEFAULT '{}',
+            attrs JSONB NOT NULL DEFAULT '{}'
+        );
+        INSERT INTO where_products VALUES
+            (1, 'Red Apple', 'AP-100', '{fruit,red}', '{"color": "red", "stock": {"count": 12}}'),
+            (2, 'green apple', 'AP-200', '{fruit,green}', '{"color": "green", "stock": {"count": 3}}'),
+            (3, 'Banana', NULL, '{fruit}', '{"organic": true}'),
+            (4, 'Carrot', 'VG-1', '{vegetable}', '{}');
+        CREATE TABLE where_reviews (id INT PRIMARY KEY, product_id INT NOT NULL, score INT NOT NULL);
+        INSERT INTO where_reviews VALUES (1, 1, 5), (2, 1, 4), (3, 2, 2), (4, 4, 5);
+    `);
+});
+
+describe("WHERE 연산자", () => {
+    it("ILIKE / NOT ILIKE", async () => {
+        expect(await ids(ilike("name", "%apple"))).toEqual([1, 2]);
+        expect(await ids(notIlike("name", "%apple"))).toEqual([3, 4]);
+        expect(executedQueries[0]).toBe('SELECT "id" FROM "where_products" WHERE "name" ILIKE $1 ORDER BY "id" ASC');
+    });
+
+    it("정규식 연산자", async () => {
+        expect(await ids(regex("sku", "^AP-\\d+$"))).toEqual([1, 2]);
+        expect(await ids(iregex("name", "^carrot$"))).toEqual([4]);
+        expect(await ids(notRegex("sku", "^AP"))).toEqual([4]);
+    });
+
+    it("IS NULL / IS NOT NULL과 ne(field, null)", async () => {
+        expect(await ids(isNull("sku"))).toEqual([3]);
+        expect(await ids(isNotNull("sku"))).toEqual([1, 2, 4]);
+        expect(await ids(ne("sku", null))).toEqual([1, 2, 4]);
+        expect(executedQueries[2]).toBe('SELECT "id" FROM "where_products" WHERE "sku" IS NOT NULL ORDER BY "id" ASC');
+    });
+
+    it("NULL과 비교할 수 없는 연산자는 에러", async () => {
+        await expect(ids(gt("sku", null))).rejects.toThrow("Operator > cannot compare with NULL.");
+    });
+
+    it("IS DISTINCT FROM은 NULL도 값처럼 비교", async () => {
+        expect(await ids(isDistinctFrom("sku", "AP-100"))).toEqual([2, 3, 4]);
+        expect(await ids(isNotDistinctFrom("sku", null))).toEqual([3]);
+    });
+
+    it("ANY/ALL은 값 개수와 관계없이 배열 파라미터 하나", async () => {
+        expect(await ids(eqAny("id", [1, 3]))).toEqual([1, 3]);
+        expect(await ids(neAll("id", [1, 3, 4]))).toEqual([2]);
+        expect(await ids(allOf("id", ">", [1, 2]))).toEqual([3, 4]);
+        expect(executedQueries[0]).toBe('SELECT "id" FROM "where_products" WHERE "id" = ANY($1) ORDER BY "id" ASC');
+        expect(executedQueries[1]).toBe('SELECT "id" FROM "where_products" WHERE "id" != ALL($1) ORDER BY "id" ASC');
+    });
+
+    it("배열 연산자", async () => {
+        expect(await ids(arrayContains("tags", ["fruit", "red"]))).toEqual([1]);
+        expect(await ids(arrayContainedBy("tags", ["fruit", "green", "yellow"]))).toEqual([2, 3]);
+        expect(await ids(arrayOverlaps("tags", ["red", "vegetable"]))).toEqual([1, 4]);
+    });
+
+    it("JSONB 포함과 키 존재", async () => {
+        expect(await ids(jsonContains("attrs", { stock: { count: 3 } }))).toEqual([2]);
+        expect(await ids(jsonHasKey("attrs", "organic"))).toEqual([3]);
+        expect(await ids(jsonHasAnyKey("attrs", ["organic", "color"]))).toEqual([1, 2, 3]);
+        expect(await ids(jsonHasAllKeys("attrs", ["color", "stock"]))).toEqual([1, 2]);
+    });
+
+    it("JSON 경로 값 비교와 캐스팅", async () => {
+        expect(await ids(eq(jsonPath("attrs", "color"), "red"))).toEqual([1]);
+        const stock = jsonPath("attrs", "stock", "count").cast("int");
+        expect(await ids(or(gt(stock, 10), jsonHasKey("attrs", "organic")))).toEqual([1, 3]);
+        expect(executedQueries[1]).toBe(
+            'SELECT "id" FROM "where_products" WHERE (("attrs"->\'stock\'->>\'count\')::int > $1) OR ("attrs" ? $2) ORDER BY "id" ASC'
+        );
+        expect(() => jsonPath("attrs", "count").cast("int; DROP TABLE x")).toThrow("Invalid cast type");
+    });
+});
+
+describe("서브쿼리 조건", () => {
+    it("IN 서브쿼리는 바깥 파라미터 번호에 이어서 번호를 매김", async () => {
+        const rows = await products
+            .select(["id"])
+            .where(and(ilike("name", "%a%"), inArray("id", reviews.select(["product_id"]).where(gte("score", 5)))))
+            .where({ sku: "VG-1" })
+            .execute();
+
+        expect(rows).toEqual([{ id: 4 }]);
+        expect(executedQueries[0]).toBe(
+            'SELECT "id" FROM "where_products" WHERE (("name" ILIKE $1) AND ("id" IN (SELECT "product_id" FROM "where_reviews" WHERE "score" >= $2))) AND ("sku" = $3)'
+        );
+    });
+
+    it("NOT IN 서브쿼리", async () => {
+        expect(await ids(notInArray("id", reviews.select(["product_id"])))).toEqual([3]);
+    });
+
+    it("EXISTS / NOT EXISTS 상관 서브쿼리", async () => {
+        const reviewed = reviews.select(["id"]).as("r").where(eq("r.product_id", col("where_products.id")));
+
+        expect(await ids(exists(reviewed))).toEqual([1, 2, 4]);
+        expect(await ids(notExists(reviewed))).toEqual([3]);
+        expect(executedQueries[0]).toBe(
+            'SELECT "id" FROM "where_products" WHERE EXISTS (SELECT "id" FROM "where_reviews" AS "r" WHERE "r"."product_id" = "where_products"."id") ORDER BY "id" ASC'
+        );
+    });
+
+    it("스칼라 서브쿼리 비교와 ANY 서브쿼리", async () => {
+        const best = reviews.select([max("product_id").as("max")]).where({ score: 5 });
+
+        expect(await ids(eq("id", best))).toEqual([4]);
+        expect(await ids(anyOf("id", "<", reviews.select(["product_id"]).where({ score: 2 })))).toEqual([1]);
+    });
+});
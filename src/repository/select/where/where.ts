@@ -1,14 +1,34 @@
 import { QueryResultRow } from "pg";
-import { ISelectBuilder, SelectBuilder } from "../select";
-import { FieldCondition } from "./operators";
+import { ColumnName, ISelectBuilder, SelectBuilder } from "../select";
+import {
+    ConditionField,
+    ExistsCondition,
+    FieldCondition,
+    isColumnReference,
+    isSubquery,
+    QuantifiedCondition,
+    RowValueCondition,
+    Subquery,
+} from "./operators";
 import { ConditionNode, LogicalCondition, and } from "./conditions";
+import { ColumnQuoter, quoteColumn } from "../../../utils/identifier";
+import { isSqlFragment } from "../../../extensions/features/raw/raw";
+
+/**
+ * 단순 객체 형태의 WHERE 조건
+ * 값은 컬럼 타입과 일치해야 하며, 배열은 IN, null은 IS NULL로 변환됩니다
+ * "u.id"처럼 한정된 컬럼(JOIN)은 타입을 검사하지 않습니다
+ */
+export type WhereRecord<TEntity = any> = {
+    [K in ColumnName<TEntity>]?: TEntity[K] | readonly TEntity[K][] | null;
+} & { [key: `${string}.${string}`]: any };
 
 /**
  * WHERE 절 입력 타입
  * - 단순 객체 형태 (기존 방식): { isValid: true, id: 1 }
  * - 조건 트리 (ConditionNode): and/or/not, 연산자 조합
  */
-export type WhereInput = Record<string, any> | ConditionNode | null | undefined;
+export type WhereInput<TEntity = any> = WhereRecord<TEntity> | ConditionNode | null | undefined;
 
 /**
  * 단순 객체 형태의 where를 ConditionNode로 변환
@@ -47,22 +67,92 @@ function recordToConditionNode(where: Record<string, any>): ConditionNode | null
     return and(...fieldConditions);
 }
 
+/**
+ * 조건 필드를 SQL로 변환 (SQL 조각의 파라미터는 startIndex부터 번호를 붙임)
+ */
+function renderField(field: ConditionField, startIndex: number, quote: ColumnQuoter): { sql: string; params: any[] } {
+    if (typeof field === "string") {
+        return { sql: quote(field), params: [] };
+    }
+    if (isSqlFragment(field)) {
+        return field.buildQuery(startIndex);
+    }
+    return { sql: field.toSql(quote), params: [] };
+}
+
+/**
+ * 서브쿼리를 괄호로 감싼 SQL로 변환 (바깥 쿼리의 파라미터 번호에 이어서)
+ */
+function buildSubquery(subquery: Subquery, startIndex: number): { sql: string; params: any[]; nextIndex: number } {
+    const built = subquery.buildQuery(startIndex);
+    return {
+        sql: `(${built.sql})`,
+        params: built.params,
+        nextIndex: startIndex + built.params.length,
+    };
+}
+
 /**
  * ConditionNode를 SQL과 파라미터로 변환 (재귀적 처리)
  */
 function buildConditionNode(
     node: ConditionNode,
-    startIndex: number
+    startIndex: number,
+    quote: ColumnQuoter
 ): { sql: string; params: any[]; nextIndex: number } {
+    // SQL 조각
+    if (isSqlFragment(node)) {
+        const built = node.buildQuery(startIndex);
+        return { sql: built.sql, params: built.params, nextIndex: startIndex + built.params.length };
+    }
+
+    // RowValueCondition
+    if ("fields" in node) {
+        const rowCond = node as RowValueCondition;
+        let index = startIndex;
+        const placeholders = rowCond.value.map(() => `$${index++}`).join(", ");
+        return {
+            sql: `(${rowCond.fields.map((field) => quote(field)).join(", ")}) ${rowCond.operator} (${placeholders})`,
+            params: [...rowCond.value],
+            nextIndex: index,
+        };
+    }
+
+    // ExistsCondition
+    if ("subquery" in node) {
+        const existsCond = node as ExistsCondition;
+        const built = buildSubquery(existsCond.subquery, startIndex);
+        return { sql: `${existsCond.operator} ${built.sql}`, params: built.params, nextIndex: built.nextIndex };
+    }
+
     // FieldCondition
     if (!("type" in node)) {
         const fieldCond = node as FieldCondition;
-        const { field, operator } = fieldCond;
-        const params: any[] = [];
+        const { operator } = fieldCond;
+        const { sql: field, params } = renderField(fieldCond.field, startIndex, quote);
         let sql = "";
-        let index = startIndex;
+        let index = startIndex + params.length;
 
-        if (operator === "IN" || operator === "NOT IN") {
+        if (operator === "IS NULL" || operator === "IS NOT NULL") {
+            sql = `${field} ${operator}`;
+        } else if ("quantifier" in fieldCond) {
+            // 배열 파라미터 하나로 비교 (값 개수와 관계없이 같은 SQL)
+            const quantified = fieldCond as QuantifiedCondition;
+            if (isSubquery(quantified.value)) {
+                const built = buildSubquery(quantified.value, index);
+                sql = `${field} ${operator} ${quantified.quantifier} ${built.sql}`;
+                params.push(...built.params);
+                index = built.nextIndex;
+            } else {
+                sql = `${field} ${operator} ${quantified.quantifier}($${index++})`;
+                params.push(quantified.value);
+            }
+        } else if ((operator === "IN" || operator === "NOT IN") && isSubquery(fieldCond.value)) {
+            const built = buildSubquery(fieldCond.value, index);
+            sql = `${field} ${operator} ${built.sql}`;
+            params.push(...built.params);
+            index = built.nextIndex;
+        } else if (operator === "IN" || operator === "NOT IN") {
             const values = fieldCond.value || [];
             if (!Array.isArray(values) || values.length === 0) {
                 sql = operator === "IN" ? "1 = 0" : "1 = 1";
@@ -77,8 +167,18 @@ function buildConditionNode(
             params.push(from, to);
         } else {
             const value = (fieldCond as any).value;
-            if (value === null) {
-                sql = `${field} IS NULL`;
+            if (isColumnReference(value)) {
+                sql = `${field} ${operator} ${quote(value.name)}`;
+            } else if (isSubquery(value)) {
+                // 스칼라 서브쿼리 비교
+                const built = buildSubquery(value, index);
+                sql = `${field} ${operator} ${built.sql}`;
+                params.push(...built.params);
+                index = built.nextIndex;
+            } else if (value === null && (operator === "=" || operator === "!=")) {
+                sql = `${field} ${operator === "=" ? "IS NULL" : "IS NOT NULL"}`;
+            } else if (value === null && operator !== "IS DISTINCT FROM" && operator !== "IS NOT DISTINCT FROM") {
+                throw new Error(`Operator ${operator} cannot compare with NULL. Use isNull() or isDistinctFrom().`);
             } else {
                 sql = `${field} ${operator} $${index++}`;
                 params.push(value);
@@ -99,7 +199,7 @@ function buildConditionNode(
             return { sql: "", params: [], nextIndex: currentIndex };
         }
         const child = logical.conditions[0];
-        const built = buildConditionNode(child, currentIndex);
+        const built = buildConditionNode(child, currentIndex, quote);
         if (!built.sql) {
             return { sql: "", params: [], nextIndex: built.nextIndex };
         }
@@ -113,7 +213,7 @@ function buildConditionNode(
     const joiner = logical.type === "AND" ? " AND " : " OR ";
 
     for (const child of logical.conditions || []) {
-        const built = buildConditionNode(child, currentIndex);
+        const built = buildConditionNode(child, currentIndex, quote);
         if (built.sql) {
             parts.push(`(${built.sql})`);
             params = params.concat(built.params);
@@ -126,31 +226,95 @@ function buildConditionNode(
 }
 
 /**
- * WHERE 조건을 SQL로 변환
- * - 단순 객체 또는 ConditionNode 둘 다 지원
- * @param where   WHERE 조건 입력
- * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+ * WHERE 입력이 ConditionNode 형태인지 확인
  */
-export function buildWhereClause(where: WhereInput, startIndex: number = 1): { sql: string; params: any[] } {
+export function isConditionNode(where: WhereInput): where is ConditionNode {
     if (!where) {
-        return { sql: "", params: [] };
+        return false;
+    }
+    if (isSqlFragment(where)) {
+        return true;
+    }
+    const node = where as any;
+    if ((node.field !== undefined || Array.isArray(node.fields)) && typeof node.operator === "string") {
+        return true;
+    }
+    if (isSubquery(node.subquery) && typeof node.operator === "string") {
+        return true;
     }
+    return ["AND", "OR", "NOT"].includes(node.type) && Array.isArray(node.conditions);
+}
 
-    let conditionNode: ConditionNode | null;
+/**
+ * WHERE 입력을 ConditionNode로 변환
+ */
+export function toConditionNode(where: WhereInput): ConditionNode | null {
+    if (!where) {
+        return null;
+    }
+    if (isConditionNode(where)) {
+        return where;
+    }
+    return recordToConditionNode(where as Record<string, any>);
+}
 
-    if ((where as any).type || (where as any).field) {
-        // 이미 ConditionNode 형태
-        conditionNode = where as ConditionNode;
-    } else {
-        // 단순 객체 형태
-        conditionNode = recordToConditionNode(where as Record<string, any>);
+/**
+ * 두 WHERE 입력을 병합
+ * - 둘 다 단순 객체면 키 단위로 병합 (기존 방식)
+ * - 그 외에는 AND로 결합
+ */
+export function mergeWhereInput(current: WhereInput, next: WhereInput): WhereInput {
+    if (!current) {
+        return next;
+    }
+    if (!next) {
+        return current;
+    }
+    if (!isConditionNode(current) && !isConditionNode(next)) {
+        return { ...current, ...next };
     }
 
+    const nodes = [toConditionNode(current), toConditionNode(next)].filter(
+        (node): node is ConditionNode => node !== null
+    );
+    return nodes.length === 1 ? nodes[0] : and(...nodes);
+}
+
+/**
+ * 조건을 SQL과 파라미터로 변환 (WHERE 키워드 없이)
+ * JOIN ON, HAVING 등 WHERE 외의 절에서도 사용합니다
+ * @param where   조건 입력
+ * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+ * @param quote 컬럼 식별자 변환 함수 (허용 목록 검사 포함)
+ */
+export function buildConditionClause(
+    where: WhereInput,
+    startIndex: number = 1,
+    quote: ColumnQuoter = quoteColumn
+): { sql: string; params: any[] } {
+    const conditionNode = toConditionNode(where);
+
     if (!conditionNode) {
         return { sql: "", params: [] };
     }
 
-    const built = buildConditionNode(conditionNode, startIndex);
+    const built = buildConditionNode(conditionNode, startIndex, quote);
+    return { sql: built.sql, params: built.params };
+}
+
+/**
+ * WHERE 조건을 SQL로 변환
+ * - 단순 객체 또는 ConditionNode 둘 다 지원
+ * @param where   WHERE 조건 입력
+ * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+ * @param quote 컬럼 식별자 변환 함수 (허용 목록 검사 포함)
+ */
+export function buildWhereClause(
+    where: WhereInput,
+    startIndex: number = 1,
+    quote: ColumnQuoter = quoteColumn
+): { sql: string; params: any[] } {
+    const built = buildConditionClause(where, startIndex, quote);
 
     if (!built.sql) {
         return { sql: "", params: [] };
@@ -167,12 +331,12 @@ export function buildWhereClause(where: WhereInput, startIndex: number = 1): { s
  */
 export function addWhereCondition<TEntity extends QueryResultRow = any>(
     builder: ISelectBuilder<TEntity>,
-    conditions: Record<string, any>
+    conditions: WhereInput
 ): ISelectBuilder<TEntity> {
     if (builder instanceof SelectBuilder) {
         // 기존 조건과 병합
         const existingConditions = (builder as any).getWhereConditions();
-        const mergedConditions = { ...existingConditions, ...conditions };
+        const mergedConditions = mergeWhereInput(existingConditions, conditions);
         (builder as any).setWhereConditions(mergedConditions);
     }
     return builder;
@@ -183,12 +347,12 @@ export function addWhereCondition<TEntity extends QueryResultRow = any>(
  */
 export function extendSelectBuilderWithWhere<TEntity extends QueryResultRow = any>(
     builder: ISelectBuilder<TEntity>
-): ISelectBuilder<TEntity> & { where(conditions: Record<string, any>): ISelectBuilder<TEntity> } {
+): ISelectBuilder<TEntity> & { where(conditions: WhereInput): ISelectBuilder<TEntity> } {
     const extended = builder as any;
     if (!extended.where) {
-        extended.where = function (conditions: Record<string, any>) {
+        extended.where = function (conditions: WhereInput) {
             return addWhereCondition(this, conditions);
         };
     }
     return extended;
-}
+}
\ No newline at end of file
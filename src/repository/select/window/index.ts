@@ -0,0 +1 @@
+export * from "./window";
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../../../__tests__/database";
+import { createRepository } from "../../createRepository";
+import { sum } from "../aggregate/aggregate";
+import { lte } from "../where/operators";
+import { denseRank, lag, lead, rank, rowNumber } from "./window";
+
+const scores = createRepository<any>({ tableName: "window_scores", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE window_scores (id INT PRIMARY KEY, team TEXT NOT NULL, player TEXT NOT NULL, points INT NOT NULL);
+        INSERT INTO window_scores VALUES
+            (1, 'a', 'kim', 30), (2, 'a', 'lee', 20), (3, 'a', 'park', 20), (4, 'a', 'choi', 10),
+            (5, 'b', 'jung', 50), (6, 'b', 'kang', 40);
+    `);
+});
+
+describe("윈도우 함수", () => {
+    it("순위 함수와 PARTITION BY / ORDER BY", async () => {
+        const rows = await scores
+            .select([
+                "player",
+                rowNumber().over({ partitionBy: "team", orderBy: [{ column: "points", order: "DESC" }, "id"] }).as("rn"),
+                rank().over({ partitionBy: "team", orderBy: { column: "points", order: "DESC" } }),
+                denseRank().over({ partitionBy: "team", orderBy: { column: "points", order: "DESC" } }),
+            ])
+            .where({ team: "a" })
+            .orderBy("id")
+            .execute();
+
+        expect(rows).toEqual([
+            { player: "kim", rn: "1", rank: "1", dense_rank: "1" },
+            { player: "lee", rn: "2", rank: "2", dense_rank: "2" },
+            { player: "park", rn: "3", rank: "2", dense_rank: "2" },
+            { player: "choi", rn: "4", rank: "4", dense_rank: "3" },
+        ]);
+        expect(executedQueries[0]).toContain(
+            'ROW_NUMBER() OVER (PARTITION BY "team" ORDER BY "points" DESC, "id" ASC) AS "rn"'
+        );
+    });
+
+    it("lag/lead와 프레임을 지정한 누적 합계", async () => {
+        const rows = await scores
+            .select([
+                "id",
+                lag("points").over({ orderBy: "id" }).as("prev"),
+                lead("points", 2).over({ orderBy: "id" }).as("next2"),
+                sum<number>("points")
+                    .over({ orderBy: "id", frame: { type: "ROWS", start: { preceding: 1 } } })
+                    .as("pair"),
+            ])
+            .where({ team: "a" })
+            .orderBy("id")
+            .execute();
+
+        expect(rows).toEqual([
+            { id: 1, prev: null, next2: 20, pair: "30" },
+            { id: 2, prev: 30, next2: 10, pair: "50" },
+            { id: 3, prev: 20, next2: null, pair: "40" },
+            { id: 4, prev: 20, next2: null, pair: "30" },
+        ]);
+        expect(executedQueries[0]).toContain(
+            'SUM("points") OVER (ORDER BY "id" ASC ROWS BETWEEN 1 PRECEDING AND CURRENT ROW) AS "pair"'
+        );
+    });
+
+    it("이름 있는 윈도우는 WINDOW 절로 공유", async () => {
+        const rows = await scores
+            .select(["id", rowNumber().over("by_team").as("rn"), sum("points").over("by_team").as("running")])
+            .window("by_team", { partitionBy: "team", orderBy: "id" })
+            .where({ team: "b" })
+            .orderBy("id")
+            .execute();
+
+        expect(rows).toEqual([
+            { id: 5, rn: "1", running: "50" },
+            { id: 6, rn: "2", running: "90" },
+        ]);
+        expect(executedQueries[0]).toBe(
+            'SELECT "id", ROW_NUMBER() OVER "by_team" AS "rn", SUM("points") OVER "by_team" AS "running" ' +
+                'FROM "window_scores" WHERE "team" = $1 WINDOW "by_team" AS (PARTITION BY "team" ORDER BY "id" ASC) ORDER BY "id" ASC'
+        );
+    });
+
+    it("qualify는 서브쿼리로 감싸 윈도우 결과로 거르고 바깥에서 정렬/LIMIT", async () => {
+        const rows = await scores
+            .select(["team", "player", rowNumber().over({ partitionBy: "team", orderBy: "points" }).as("rn")])
+            .where({ team: ["a", "b"] })
+            .qualify(lte("rn", 1))
+            .orderBy("team")
+            .limit(5)
+            .execute();
+
+        expect(rows).toEqual([
+            { team: "a", player: "choi", rn: "1" },
+            { team: "b", player: "kang", rn: "1" },
+        ]);
+        expect(executedQueries[0]).toBe(
+            'SELECT * FROM (SELECT "team", "player", ROW_NUMBER() OVER (PARTITION BY "team" ORDER BY "points" ASC) AS "rn" ' +
+                'FROM "window_scores" WHERE "team" IN ($1, $2)) AS "qualified" WHERE "rn" <= $3 ORDER BY "team" ASC LIMIT 5'
+        );
+    });
+
+    it("qualify 결과도 페이지네이션/커서 페이지네이션 가능", async () => {
+        const builder = scores
+            .select(["id", "team", rank().over({ partitionBy: "team", orderBy: { column: "points", order: "DESC" } })])
+            .qualify(lte("rank", 2));
+
+        const page = await builder.orderBy("id").paginate({ page: 1, pageSize: 2 });
+        const cursor = await builder.cursorPaginate({ first: 3, orderBy: [{ column: "id" }] });
+
+        expect(page!.items.map((row) => row.id)).toEqual([1, 2]);
+        expect(page!.total).toBe(5);
+        expect(cursor!.edges.map((edge) => edge.node.id)).toEqual([1, 2, 3]);
+        expect(cursor!.pageInfo.hasNextPage).toBe(true);
+    });
+
+    it("over()가 없거나 잘못된 프레임은 에러", () => {
+        expect(() => rowNumber().toSql()).toThrow("Window function ROW_NUMBER requires over().");
+        expect(() =>
+            scores
+                .select([sum("points").over({ frame: { type: "ROWS", start: { preceding: -1 } } })])
+                .buildQuery()
+        ).toThrow("Window frame offset must be a non-negative integer: -1");
+    });
+});
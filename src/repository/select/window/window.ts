@@ -0,0 +1,308 @@
+import { QueryResultRow } from "pg";
+import { ISelectBuilder, SelectBuilder } from "../select";
+import type { AggregateFunction } from "../aggregate/aggregate";
+import { buildOrderByClause } from "../orderBy/orderBy";
+import { buildConditionClause, mergeWhereInput, WhereInput } from "../where/where";
+import { ColumnQuoter, quoteAlias, quoteColumn } from "../../../utils/identifier";
+
+/**
+ * 윈도우 전용 함수 종류 (집계 함수도 over()로 윈도우 함수가 됩니다)
+ */
+export type RankingFunction =
+    | "ROW_NUMBER"
+    | "RANK"
+    | "DENSE_RANK"
+    | "PERCENT_RANK"
+    | "CUME_DIST"
+    | "NTILE"
+    | "LAG"
+    | "LEAD"
+    | "FIRST_VALUE"
+    | "LAST_VALUE";
+
+export type WindowFunction = RankingFunction | AggregateFunction;
+
+/**
+ * 윈도우 정렬 항목 (SelectBuilder의 orderBy와 같은 형태, 문자열은 ASC)
+ */
+export type WindowOrderBy = string | { column: string; order?: "ASC" | "DESC" };
+
+/**
+ * 프레임 경계
+ */
+export type WindowFrameBound =
+    | "UNBOUNDED PRECEDING"
+    | "CURRENT ROW"
+    | "UNBOUNDED FOLLOWING"
+    | { preceding: number }
+    | { following: number };
+
+/**
+ * 윈도우 프레임 (ROWS BETWEEN ... AND ...)
+ */
+export interface WindowFrame {
+    type: "ROWS" | "RANGE" | "GROUPS";
+    start: WindowFrameBound;
+    /**
+     * @default "CURRENT ROW"
+     */
+    end?: WindowFrameBound;
+}
+
+/**
+ * 윈도우 정의 (OVER (...) 내용)
+ */
+export interface WindowSpec {
+    partitionBy?: string | string[];
+    orderBy?: WindowOrderBy | WindowOrderBy[];
+    frame?: WindowFrame;
+}
+
+/**
+ * 윈도우 함수 표현식
+ * SELECT 컬럼 목록에서 사용하며, over()로 윈도우 정의 또는 이름 있는 윈도우를 지정합니다
+ * TAlias: 결과 행의 키 이름, TValue: 결과 값 타입
+ */
+export class WindowExpression<TAlias extends string = string, TValue = any> {
+    readonly fn: WindowFunction;
+    readonly column?: string;
+    readonly args: number[];
+    readonly alias: TAlias;
+    readonly window?: WindowSpec | string;
+
+    /**
+     * 결과 타입 추론용 (런타임 값 없음)
+     */
+    declare readonly __value?: TValue;
+
+    constructor(fn: WindowFunction, column: string | undefined, args: number[], alias: TAlias, window?: WindowSpec | string) {
+        for (const arg of args) {
+            if (!Number.isInteger(arg)) {
+                throw new Error(`Window function argument must be an integer: ${arg}`);
+            }
+        }
+        this.fn = fn;
+        this.column = column;
+        this.args = args;
+        this.alias = alias;
+        this.window = window;
+    }
+
+    /**
+     * 윈도우 지정 (정의 객체 또는 window()로 등록한 이름)
+     */
+    over(window: WindowSpec | string = {}): WindowExpression<TAlias, TValue> {
+        return new WindowExpression<TAlias, TValue>(this.fn, this.column, this.args, this.alias, window);
+    }
+
+    /**
+     * 결과 별칭 설정
+     */
+    as<TNewAlias extends string>(alias: TNewAlias): WindowExpression<TNewAlias, TValue> {
+        return new WindowExpression<TNewAlias, TValue>(this.fn, this.column, this.args, alias, this.window);
+    }
+
+    /**
+     * 별칭 없이 윈도우 함수 표현식만 SQL로 변환
+     */
+    toSql(quote: ColumnQuoter = quoteColumn): string {
+        if (this.window === undefined) {
+            throw new Error(`Window function ${this.fn} requires over().`);
+        }
+        const args = (this.column !== undefined ? [quote(this.column)] : []).concat(this.args.map(String));
+        const over = typeof this.window === "string" ? quoteAlias(this.window) : `(${buildWindowSpec(this.window, quote)})`;
+        return `${this.fn}(${args.join(", ")}) OVER ${over}`;
+    }
+}
+
+/**
+ * 값이 윈도우 함수 표현식인지 확인
+ */
+export function isWindowExpression(value: any): value is WindowExpression {
+    return value instanceof WindowExpression;
+}
+
+/**
+ * 프레임 경계를 SQL로 변환
+ */
+function buildFrameBound(bound: WindowFrameBound): string {
+    if (typeof bound === "string") {
+        if (!["UNBOUNDED PRECEDING", "CURRENT ROW", "UNBOUNDED FOLLOWING"].includes(bound)) {
+            throw new Error(`Invalid window frame bound: ${bound}`);
+        }
+        return bound;
+    }
+    const [direction, offset] = "preceding" in bound ? ["PRECEDING", bound.preceding] : ["FOLLOWING", bound.following];
+    if (!Number.isInteger(offset) || offset < 0) {
+        throw new Error(`Window frame offset must be a non-negative integer: ${offset}`);
+    }
+    return `${offset} ${direction}`;
+}
+
+/**
+ * 윈도우 정의를 SQL로 변환 (괄호 제외)
+ */
+export function buildWindowSpec(spec: WindowSpec, quote: ColumnQuoter = quoteColumn): string {
+    const parts: string[] = [];
+
+    if (spec.partitionBy !== undefined) {
+        const partitionBy = Array.isArray(spec.partitionBy) ? spec.partitionBy : [spec.partitionBy];
+        if (partitionBy.length > 0) {
+            parts.push(`PARTITION BY ${partitionBy.map((column) => quote(column)).join(", ")}`);
+        }
+    }
+
+    if (spec.orderBy !== undefined) {
+        const orderBy = Array.isArray(spec.orderBy) ? spec.orderBy : [spec.orderBy];
+        const orderByList = orderBy.map((item) =>
+            typeof item === "string"
+                ? { column: item, order: "ASC" as const }
+                : { column: item.column, order: item.order || ("ASC" as const) }
+        );
+        const orderByClause = buildOrderByClause(orderByList, quote);
+        if (orderByClause.sql) {
+            parts.push(orderByClause.sql);
+        }
+    }
+
+    if (spec.frame) {
+        const { type, start, end = "CURRENT ROW" } = spec.frame;
+        if (!["ROWS", "RANGE", "GROUPS"].includes(type)) {
+            throw new Error(`Invalid window frame type: ${type}`);
+        }
+        parts.push(`${type} BETWEEN ${buildFrameBound(start)} AND ${buildFrameBound(end)}`);
+    }
+
+    return parts.join(" ");
+}
+
+/**
+ * 윈도우 함수 표현식을 SELECT 컬럼으로 변환 (별칭 포함)
+ */
+export function buildWindowColumn(expression: WindowExpression, quote: ColumnQuoter = quoteColumn): string {
+    return `${expression.toSql(quote)} AS ${quoteAlias(expression.alias)}`;
+}
+
+/**
+ * 이름 있는 윈도우 목록을 WINDOW 절로 변환
+ */
+export function buildWindowClause(windows: Record<string, WindowSpec>, quote: ColumnQuoter = quoteColumn): string {
+    const parts = Object.entries(windows).map(
+        ([name, spec]) => `${quoteAlias(name)} AS (${buildWindowSpec(spec, quote)})`
+    );
+    return parts.length > 0 ? `WINDOW ${parts.join(", ")}` : "";
+}
+
+/**
+ * QUALIFY 조건을 바깥 쿼리의 WHERE 절로 변환
+ * 조건은 SELECT 결과 컬럼(별칭 포함)을 기준으로 하므로 허용 목록을 검사하지 않습니다
+ */
+export function buildQualifyClause(qualify: WhereInput, startIndex: number = 1): { sql: string; params: any[] } {
+    const built = buildConditionClause(qualify, startIndex, quoteColumn);
+
+    if (!built.sql) {
+        return { sql: "", params: [] };
+    }
+
+    return {
+        sql: `WHERE ${built.sql}`,
+        params: built.params,
+    };
+}
+
+/**
+ * 윈도우 함수 헬퍼
+ * 결과 별칭 기본값은 함수 이름이며, over() 호출이 필요합니다
+ * @example rowNumber().over({ partitionBy: "category_id", orderBy: { column: "price", order: "DESC" } }).as("rn")
+ */
+export function rowNumber<TValue = string>(): WindowExpression<"row_number", TValue> {
+    return new WindowExpression("ROW_NUMBER", undefined, [], "row_number");
+}
+
+export function rank<TValue = string>(): WindowExpression<"rank", TValue> {
+    return new WindowExpression("RANK", undefined, [], "rank");
+}
+
+export function denseRank<TValue = string>(): WindowExpression<"dense_rank", TValue> {
+    return new WindowExpression("DENSE_RANK", undefined, [], "dense_rank");
+}
+
+export function percentRank<TValue = number>(): WindowExpression<"percent_rank", TValue> {
+    return new WindowExpression("PERCENT_RANK", undefined, [], "percent_rank");
+}
+
+export function cumeDist<TValue = number>(): WindowExpression<"cume_dist", TValue> {
+    return new WindowExpression("CUME_DIST", undefined, [], "cume_dist");
+}
+
+export function ntile<TValue = number>(buckets: number): WindowExpression<"ntile", TValue> {
+    return new WindowExpression("NTILE", undefined, [buckets], "ntile");
+}
+
+export function lag<TValue = any>(column: string, offset: number = 1): WindowExpression<"lag", TValue> {
+    return new WindowExpression("LAG", column, [offset], "lag");
+}
+
+export function lead<TValue = any>(column: string, offset: number = 1): WindowExpression<"lead", TValue> {
+    return new WindowExpression("LEAD", column, [offset], "lead");
+}
+
+export function firstValue<TValue = any>(column: string): WindowExpression<"first_value", TValue> {
+    return new WindowExpression("FIRST_VALUE", column, [], "first_value");
+}
+
+export function lastValue<TValue = any>(column: string): WindowExpression<"last_value", TValue> {
+    return new WindowExpression("LAST_VALUE", column, [], "last_value");
+}
+
+/**
+ * 이름 있는 윈도우 추가
+ */
+export function addWindow<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    name: string,
+    spec: WindowSpec
+): ISelectBuilder<TEntity> {
+    if (builder instanceof SelectBuilder) {
+        const windows = (builder as any).getWindows();
+        (builder as any).setWindows({ ...windows, [name]: spec });
+    }
+    return builder;
+}
+
+/**
+ * QUALIFY 조건 추가
+ */
+export function addQualifyCondition<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>,
+    conditions: WhereInput
+): ISelectBuilder<TEntity> {
+    if (builder instanceof SelectBuilder) {
+        const existingConditions = (builder as any).getQualifyConditions();
+        (builder as any).setQualifyConditions(mergeWhereInput(existingConditions, conditions));
+    }
+    return builder;
+}
+
+/**
+ * SelectBuilder에 window, qualify 메서드 추가
+ */
+export function extendSelectBuilderWithWindow<TEntity extends QueryResultRow = any>(
+    builder: ISelectBuilder<TEntity>
+): ISelectBuilder<TEntity> & {
+    window(name: string, spec: WindowSpec): ISelectBuilder<TEntity>;
+    qualify(conditions: WhereInput): ISelectBuilder<TEntity>;
+} {
+    const extended = builder as any;
+    if (!extended.window) {
+        extended.window = function (name: string, spec: WindowSpec) {
+            return addWindow(this, name, spec);
+        };
+    }
+    if (!extended.qualify) {
+        extended.qualify = function (conditions: WhereInput) {
+            return addQualifyCondition(this, conditions);
+        };
+    }
+    return extended;
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { createRepository } from "../createRepository";
+
+const users = createRepository<any>({ tableName: "select_one_users", keys: ["id"] });
+
+describe("SelectOneBuilder.toSQL", () => {
+    it("WHERE 조건으로 단일 행 조회", () => {
+        expect(users.selectOne(["id", "name"]).where({ id: 1 }).toSQL()).toEqual({
+            text: 'SELECT "id", "name" FROM "select_one_users" WHERE "id" = $1',
+            values: [1],
+        });
+    });
+
+    it("잠금 절", () => {
+        expect(users.selectOne().where({ id: 1 }).forUpdate().noWait().toSQL().text).toBe(
+            'SELECT * FROM "select_one_users" WHERE "id" = $1 FOR UPDATE NOWAIT'
+        );
+    });
+});
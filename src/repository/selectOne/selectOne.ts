@@ -1,56 +1,147 @@
-import { ISelectBuilder } from "../select/select";
+import { buildSelectColumns, ISelectBuilder, SelectColumn, SelectResult } from "../select/select";
 import { PoolClient, QueryResultRow } from "pg";
 import { HandlerOption } from "../../interfaces/HandlerOption";
+import { CompiledQuery } from "../../interfaces/CompiledQuery";
+import { ExplainOptions, ExplainResult, explainQuery } from "../../utils/explain";
 import { Logger } from "../../utils/logger";
-import { buildWhereClause } from "../select/where";
+import { buildWhereClause, WhereRecord } from "../select/where";
 import { handler } from "../../utils/transaction";
+import { ColumnQuoter, quoteColumn, quoteQualifiedName } from "../../utils/identifier";
+import {
+    appendLock,
+    applyLockWaitPolicy,
+    assertLockInTransaction,
+    buildLockClause,
+    LockDefinition,
+} from "../select/lock";
 
-export interface ISelectOneBuilder<TEntity extends QueryResultRow = any> {
-    where(conditions: Record<string, any>): ISelectOneBuilder<TEntity>;
-    execute(options?: HandlerOption): Promise<TEntity | null>;
+export interface ISelectOneBuilder<TEntity extends QueryResultRow = any, TResult = TEntity> {
+    where(conditions: WhereRecord<TEntity>): ISelectOneBuilder<TEntity, TResult>;
+    forUpdate(...tables: string[]): ISelectOneBuilder<TEntity, TResult>;
+    forNoKeyUpdate(...tables: string[]): ISelectOneBuilder<TEntity, TResult>;
+    forShare(...tables: string[]): ISelectOneBuilder<TEntity, TResult>;
+    forKeyShare(...tables: string[]): ISelectOneBuilder<TEntity, TResult>;
+    skipLocked(): ISelectOneBuilder<TEntity, TResult>;
+    noWait(): ISelectOneBuilder<TEntity, TResult>;
+    toSQL(): CompiledQuery;
+    explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null>;
+    execute(options?: HandlerOption): Promise<TResult | null>;
 }
 
-export class SelectOneBuilder<TEntity extends QueryResultRow = any> implements ISelectOneBuilder<TEntity> {
+export class SelectOneBuilder<TEntity extends QueryResultRow = any, TResult = TEntity>
+    implements ISelectOneBuilder<TEntity, TResult>
+{
     private tableName: string;
     private logger: Logger;
-    private columns: string[] = [];
-    private whereConditions: Record<string, any> = {};
+    private quote: ColumnQuoter;
+    private columns: SelectColumn[] = [];
+    private whereConditions: WhereRecord = {};
+    private lockList: LockDefinition[] = [];
 
-    constructor(tableName: string, logger: Logger, columns?: string[]) {
+    constructor(
+        tableName: string,
+        logger: Logger,
+        columns?: readonly SelectColumn[],
+        quote: ColumnQuoter = quoteColumn
+    ) {
         this.tableName = tableName;
         this.logger = logger;
-        this.columns = columns || [];
+        this.columns = columns ? [...columns] : [];
+        this.quote = quote;
     }
 
-    where(conditions: Record<string, any>): ISelectOneBuilder<TEntity> {
+    where(conditions: WhereRecord<TEntity>): ISelectOneBuilder<TEntity, TResult> {
         this.whereConditions = { ...this.whereConditions, ...conditions };
         return this;
     }
 
-    async execute(options?: HandlerOption): Promise<TEntity | null> {
+    forUpdate(...tables: string[]): ISelectOneBuilder<TEntity, TResult> {
+        this.lockList = appendLock(this.lockList, "UPDATE", tables);
+        return this;
+    }
+
+    forNoKeyUpdate(...tables: string[]): ISelectOneBuilder<TEntity, TResult> {
+        this.lockList = appendLock(this.lockList, "NO KEY UPDATE", tables);
+        return this;
+    }
+
+    forShare(...tables: string[]): ISelectOneBuilder<TEntity, TResult> {
+        this.lockList = appendLock(this.lockList, "SHARE", tables);
+        return this;
+    }
+
+    forKeyShare(...tables: string[]): ISelectOneBuilder<TEntity, TResult> {
+        this.lockList = appendLock(this.lockList, "KEY SHARE", tables);
+        return this;
+    }
+
+    skipLocked(): ISelectOneBuilder<TEntity, TResult> {
+        this.lockList = applyLockWaitPolicy(this.lockList, "SKIP LOCKED");
+        return this;
+    }
+
+    noWait(): ISelectOneBuilder<TEntity, TResult> {
+        this.lockList = applyLockWaitPolicy(this.lockList, "NOWAIT");
+        return this;
+    }
+
+    buildQuery(startIndex: number = 1): { sql: string; params: any[] } {
+        const columnsBuilt = buildSelectColumns(this.columns, this.quote, startIndex);
+        const selectColumns = columnsBuilt.columns.length > 0 ? columnsBuilt.columns.join(", ") : "*";
+        const whereBuilt = buildWhereClause(this.whereConditions, startIndex + columnsBuilt.params.length, this.quote);
+        const fromClause = `FROM ${quoteQualifiedName(this.tableName)}`;
+        const lockClause = buildLockClause(this.lockList);
+        const query = [`SELECT ${selectColumns}`, fromClause, whereBuilt.sql, lockClause]
+            .filter((part) => part !== "")
+            .join(" ");
+        return { sql: query, params: [...columnsBuilt.params, ...whereBuilt.params] };
+    }
+
+    toSQL(): CompiledQuery {
+        const { sql, params } = this.buildQuery();
+        return { text: sql, values: params };
+    }
+
+    async explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null> {
+        return await explainQuery(this.buildQuery(), this.logger, options, handlerOptions);
+    }
+
+    async execute(options?: HandlerOption): Promise<TResult | null> {
+        const { sql: query, params } = this.buildQuery();
+        assertLockInTransaction(this.lockList);
+        const handlerOptions: HandlerOption = { useTransaction: true, ...options };
+
         return await handler(
             async (connection: PoolClient) => {
-                const selectColumns = this.columns.length > 0 ? this.columns.join(", ") : "*";
-                const { sql: whereSql, params } = buildWhereClause(this.whereConditions);
-                const query = `SELECT ${selectColumns} FROM ${this.tableName} ${whereSql ? `${whereSql}` : ""}`;
-                console.log(query)
-                const result = await connection.query<TEntity>(query, params);
+                this.logger.debug(`Executing SELECT ONE: ${query}`, params);
+                const result = await connection.query<TResult & QueryResultRow>(query, params);
                 return result.rows.length > 0 ? result.rows[0] : null;
             },
-            { useTransaction: true, ...options }
+            handlerOptions
         );
     }
 }
 
-export type SelectOneFunction<TEntity extends QueryResultRow = any> = (
-    columns?: string[]
-) => ISelectOneBuilder<TEntity>;
+export type SelectOneFunction<TEntity extends QueryResultRow = any> = <
+    const TColumns extends readonly SelectColumn<TEntity>[] = [],
+>(
+    columns?: TColumns
+) => ISelectOneBuilder<TEntity, SelectResult<TEntity, TColumns>>;
 
 export function createSelectOneBuilder<TEntity extends QueryResultRow = any>(
     tableName: string,
-    logger: Logger
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
 ): SelectOneFunction<TEntity> {
-    return function selectOne(columns?: string[]): ISelectOneBuilder<TEntity> {
-        return new SelectOneBuilder<TEntity>(tableName, logger, columns);
+    return function selectOne<const TColumns extends readonly SelectColumn<TEntity>[] = []>(
+        columns?: TColumns
+    ): ISelectOneBuilder<TEntity, SelectResult<TEntity, TColumns>> {
+        return new SelectOneBuilder<TEntity, SelectResult<TEntity, TColumns>>(tableName, logger, columns, quote);
     };
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { createRepository } from "../createRepository";
+
+const users = createRepository<any>({ tableName: "update_users", keys: ["id"] });
+
+describe("UpdateBuilder.toSQL", () => {
+    it("SET 값 뒤에 WHERE 파라미터 번호 부여", () => {
+        expect(users.update().set({ name: "b", age: 2 }).where({ id: 1 }).toSQL()).toEqual({
+            text: 'UPDATE "update_users" SET "name" = $1, "age" = $2 WHERE "id" = $3 RETURNING *',
+            values: ["b", 2, 1],
+        });
+    });
+
+    it("변경할 컬럼이 없으면 에러", () => {
+        expect(() => users.update().set({}).toSQL()).toThrow("No columns to update.");
+    });
+});
@@ -1,7 +1,11 @@
 import { PoolClient, QueryResultRow } from "pg";
 import { handler } from "../../utils/transaction";
 import { HandlerOption } from "../../interfaces/HandlerOption";
+import { CompiledQuery } from "../../interfaces/CompiledQuery";
+import { ExplainOptions, ExplainResult, explainQuery } from "../../utils/explain";
 import { Logger } from "../../utils/logger";
+import { ColumnRef } from "../select/select";
+import { ColumnQuoter, quoteColumn, quoteQualifiedName } from "../../utils/identifier";
 import { buildWhereClause, WhereInput } from "../select/where/where";
 
 /**
@@ -18,12 +22,31 @@ export interface IUpdateBuilder<TEntity extends QueryResultRow = any, TUpdate =
     /**
      * WHERE 절 설정 (객체 또는 ConditionNode)
      */
-    where(where: WhereInput): IUpdateBuilder<TEntity, TUpdate>;
+    where(where: WhereInput<TEntity>): IUpdateBuilder<TEntity, TUpdate>;
 
     /**
      * RETURNING 절 설정 (기본: "*")
      */
-    returning(columns?: (keyof TEntity | string)[]): IUpdateBuilder<TEntity, TUpdate>;
+    returning(columns?: (ColumnRef<TEntity> | "*")[]): IUpdateBuilder<TEntity, TUpdate>;
+
+    /**
+     * SQL과 파라미터 생성 (CTE나 서브쿼리로 사용할 때 바깥 쿼리의 파라미터 번호에 이어서 생성)
+     */
+    buildQuery(startIndex?: number): { sql: string; params: any[] };
+
+    /**
+     * 실행하지 않고 SQL과 파라미터 생성 (생성된 SQL 확인, 테스트용)
+     */
+    toSQL(): CompiledQuery;
+
+    /**
+     * 실행 계획 조회 (EXPLAIN, 기본 형식은 파싱된 JSON)
+     * analyze를 사용해도 트랜잭션을 롤백하므로 데이터는 변경되지 않습니다
+     */
+    explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null>;
 
     /**
      * 쿼리 실행
@@ -39,13 +62,15 @@ export class UpdateBuilder<TEntity extends QueryResultRow = any, TUpdate = Parti
 {
     private tableName: string;
     private logger: Logger;
+    private quote: ColumnQuoter;
     private values: TUpdate | null = null;
     private whereInput: WhereInput = null;
     private returningColumns?: string[];
 
-    constructor(tableName: string, logger: Logger) {
+    constructor(tableName: string, logger: Logger, quote: ColumnQuoter = quoteColumn) {
         this.tableName = tableName;
         this.logger = logger;
+        this.quote = quote;
     }
 
     set(values: TUpdate): IUpdateBuilder<TEntity, TUpdate> {
@@ -53,57 +78,78 @@ export class UpdateBuilder<TEntity extends QueryResultRow = any, TUpdate = Parti
         return this;
     }
 
-    where(where: WhereInput): IUpdateBuilder<TEntity, TUpdate> {
+    where(where: WhereInput<TEntity>): IUpdateBuilder<TEntity, TUpdate> {
         this.whereInput = where;
         return this;
     }
 
-    returning(columns?: (keyof TEntity | string)[]): IUpdateBuilder<TEntity, TUpdate> {
+    returning(columns?: (ColumnRef<TEntity> | "*")[]): IUpdateBuilder<TEntity, TUpdate> {
         this.returningColumns = columns?.map((c) => String(c));
         return this;
     }
 
-    async execute(options?: HandlerOption): Promise<TEntity[] | null> {
+    /**
+     * UPDATE 쿼리를 SQL과 파라미터로 변환
+     * @param startIndex 파라미터 플레이스홀더 시작 인덱스 (기본값: 1)
+     */
+    buildQuery(startIndex: number = 1): { sql: string; params: any[] } {
         if (!this.values) {
             throw new Error("Update values are not set.");
         }
 
-        return await handler(
-            async (connection: PoolClient) => {
-                const data = this.values as Record<string, any>;
-                const entries = Object.entries(data).filter(([, value]) => value !== undefined);
+        const data = this.values as Record<string, any>;
+        const entries = Object.entries(data).filter(([, value]) => value !== undefined);
 
-                if (entries.length === 0) {
-                    throw new Error("No columns to update.");
-                }
+        if (entries.length === 0) {
+            throw new Error("No columns to update.");
+        }
+
+        const setClauses: string[] = [];
+        const params: any[] = [];
+        let paramIndex = startIndex;
 
-                const setClauses: string[] = [];
-                const params: any[] = [];
-                let paramIndex = 1;
+        for (const [column, value] of entries) {
+            setClauses.push(`${this.quote(column)} = $${paramIndex++}`);
+            params.push(value);
+        }
 
-                for (const [column, value] of entries) {
-                    setClauses.push(`${column} = $${paramIndex++}`);
-                    params.push(value);
-                }
+        const setSql = setClauses.join(", ");
 
-                const setSql = setClauses.join(", ");
+        // WHERE 절은 SET 이후의 인덱스부터 시작
+        const { sql: whereSql, params: whereParams } = buildWhereClause(this.whereInput, paramIndex, this.quote);
 
-                // WHERE 절은 SET 이후의 인덱스부터 시작
-                const { sql: whereSql, params: whereParams } = buildWhereClause(this.whereInput, paramIndex);
-                const allParams = params.concat(whereParams);
+        let query = `UPDATE ${quoteQualifiedName(this.tableName)} SET ${setSql}`;
+        if (whereSql) {
+            query += ` ${whereSql}`;
+        }
 
-                let query = `UPDATE ${this.tableName} SET ${setSql}`;
-                if (whereSql) {
-                    query += ` ${whereSql}`;
-                }
+        const returningClause =
+            this.returningColumns && this.returningColumns.length > 0
+                ? ` RETURNING ${this.returningColumns.map((column) => this.quote(column)).join(", ")}`
+                : " RETURNING *";
 
-                const returningClause =
-                    this.returningColumns && this.returningColumns.length > 0
-                        ? ` RETURNING ${this.returningColumns.join(", ")}`
-                        : " RETURNING *";
+        query += returningClause;
 
-                query += returningClause;
+        return { sql: query, params: params.concat(whereParams) };
+    }
+
+    toSQL(): CompiledQuery {
+        const { sql, params } = this.buildQuery();
+        return { text: sql, values: params };
+    }
 
+    async explain<TOptions extends ExplainOptions = {}>(
+        options?: TOptions,
+        handlerOptions?: HandlerOption
+    ): Promise<ExplainResult<TOptions> | null> {
+        return await explainQuery(this.buildQuery(), this.logger, options, handlerOptions);
+    }
+
+    async execute(options?: HandlerOption): Promise<TEntity[] | null> {
+        const { sql: query, params: allParams } = this.buildQuery();
+
+        return await handler(
+            async (connection: PoolClient) => {
                 this.logger.debug(`Executing UPDATE: ${query}`, allParams);
 
                 const result = await connection.query<TEntity>(query, allParams);
@@ -127,10 +173,11 @@ export type UpdateFunction<TEntity extends QueryResultRow = any, TUpdate = Parti
  */
 export function createUpdateFunction<TEntity extends QueryResultRow = any, TUpdate = Partial<TEntity>>(
     tableName: string,
-    logger: Logger
+    logger: Logger,
+    quote: ColumnQuoter = quoteColumn
 ): UpdateFunction<TEntity, TUpdate> {
     return function update(): IUpdateBuilder<TEntity, TUpdate> {
-        return new UpdateBuilder<TEntity, TUpdate>(tableName, logger);
+        return new UpdateBuilder<TEntity, TUpdate>(tableName, logger, quote);
     };
 }
 
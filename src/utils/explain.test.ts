@@ -0,0 +1,47 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../__tests__/database";
+import { createRepository } from "../repository/createRepository";
+import { buildExplainQuery } from "./explain";
+
+const logs = createRepository<any>({ tableName: "explain_logs", keys: ["id"] });
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE explain_logs (id INT PRIMARY KEY, level TEXT NOT NULL);
+        INSERT INTO explain_logs VALUES (1, 'info'), (2, 'error');
+    `);
+});
+
+describe("explain", () => {
+    it("지정한 옵션만 EXPLAIN 옵션 목록에 포함", () => {
+        expect(buildExplainQuery("SELECT 1")).toBe("EXPLAIN (FORMAT JSON) SELECT 1");
+        expect(buildExplainQuery("SELECT 1", { analyze: true, costs: false, format: "text" })).toBe(
+            "EXPLAIN (ANALYZE TRUE, COSTS FALSE, FORMAT TEXT) SELECT 1"
+        );
+        expect(() => buildExplainQuery("SELECT 1", { format: "yaml" as any })).toThrow("Invalid EXPLAIN format");
+    });
+
+    it("JSON 형식은 파싱된 실행 계획을 반환", async () => {
+        const plan = await logs.select(["id"]).where({ level: "error" }).explain();
+
+        expect(plan!.Plan["Node Type"]).toBe("Seq Scan");
+        expect(plan!.Plan["Relation Name"]).toBe("explain_logs");
+        expect(executedQueries).toEqual([
+            'EXPLAIN (FORMAT JSON) SELECT "id" FROM "explain_logs" WHERE "level" = $1',
+        ]);
+    });
+
+    it("analyze는 실제로 실행한 뒤 롤백하여 데이터를 바꾸지 않음", async () => {
+        const plan = await logs.delete().where({ level: "info" }).explain({ analyze: true, format: "text" });
+
+        expect(plan).toContain("Delete on explain_logs");
+        expect(executedQueries).toEqual([
+            "BEGIN",
+            'EXPLAIN (ANALYZE TRUE, FORMAT TEXT) DELETE FROM "explain_logs" WHERE "level" = $1',
+            "ROLLBACK",
+        ]);
+
+        const { rows } = await getTestDatabase().query("SELECT id FROM explain_logs ORDER BY id");
+        expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+});
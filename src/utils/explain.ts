@@ -0,0 +1,136 @@
+import { PoolClient } from "pg";
+import { handler } from "./transaction";
+import { getTransactionConnection } from "../middleware/connection";
+import { Logger } from "./logger";
+import { HandlerOption } from "../interfaces/HandlerOption";
+
+/**
+ * EXPLAIN 옵션
+ */
+export interface ExplainOptions {
+    /**
+     * 쿼리를 실제로 실행하여 실행 시간과 행 수를 측정
+     * INSERT/UPDATE/DELETE도 실행되지만 트랜잭션을 롤백하므로 데이터는 변경되지 않습니다
+     */
+    analyze?: boolean;
+
+    /**
+     * 버퍼 사용량 포함 (analyze와 함께 사용)
+     */
+    buffers?: boolean;
+
+    verbose?: boolean;
+    costs?: boolean;
+    settings?: boolean;
+    wal?: boolean;
+    timing?: boolean;
+    summary?: boolean;
+
+    /**
+     * 결과 형식
+     * @default "json" (파싱된 계획 객체 반환)
+     */
+    format?: "json" | "text";
+}
+
+/**
+ * 실행 계획 노드 (EXPLAIN FORMAT JSON)
+ */
+export interface ExplainPlanNode {
+    "Node Type": string;
+    Plans?: ExplainPlanNode[];
+    [key: string]: any;
+}
+
+/**
+ * 실행 계획 (EXPLAIN FORMAT JSON 결과의 첫 번째 항목)
+ */
+export interface ExplainPlan {
+    Plan: ExplainPlanNode;
+    "Planning Time"?: number;
+    "Execution Time"?: number;
+    [key: string]: any;
+}
+
+/**
+ * 형식에 따른 EXPLAIN 결과 타입 (text 형식은 줄바꿈으로 연결한 문자열)
+ */
+export type ExplainResult<TOptions extends ExplainOptions> = TOptions extends { format: "text" } ? string : ExplainPlan;
+
+const BOOLEAN_OPTIONS: [keyof ExplainOptions, string][] = [
+    ["analyze", "ANALYZE"],
+    ["verbose", "VERBOSE"],
+    ["costs", "COSTS"],
+    ["settings", "SETTINGS"],
+    ["buffers", "BUFFERS"],
+    ["wal", "WAL"],
+    ["timing", "TIMING"],
+    ["summary", "SUMMARY"],
+];
+
+/**
+ * EXPLAIN 쿼리 생성
+ * @example buildExplainQuery("SELECT 1", { analyze: true }) // EXPLAIN (ANALYZE TRUE, FORMAT JSON) SELECT 1
+ */
+export function buildExplainQuery(sql: string, options: ExplainOptions = {}): string {
+    const format = options.format ?? "json";
+    if (format !== "json" && format !== "text") {
+        throw new Error(`Invalid EXPLAIN format: ${format}. Use "json" or "text".`);
+    }
+
+    const parts = BOOLEAN_OPTIONS.filter(([key]) => options[key] !== undefined).map(
+        ([key, keyword]) => `${keyword} ${options[key] ? "TRUE" : "FALSE"}`
+    );
+    parts.push(`FORMAT ${format.toUpperCase()}`);
+
+    return `EXPLAIN (${parts.join(", ")}) ${sql}`;
+}
+
+/**
+ * 빌더가 만든 쿼리의 실행 계획 조회
+ * analyze 사용 시 트랜잭션 안에서 실행한 뒤 항상 롤백합니다
+ * @param query 빌더의 buildQuery() 결과
+ * @param logger 로거
+ * @param options EXPLAIN 옵션
+ * @param handlerOptions 핸들러 옵션 (useTransaction은 무시)
+ */
+export async function explainQuery<TOptions extends ExplainOptions = {}>(
+    query: { sql: string; params: any[] },
+    logger: Logger,
+    options?: TOptions,
+    handlerOptions?: HandlerOption
+): Promise<ExplainResult<TOptions> | null> {
+    const explainSql = buildExplainQuery(query.sql, options);
+    const rollback = options?.analyze === true;
+    // transaction() 안이면 바깥 트랜잭션을 끝내지 않도록 세이브포인트로 되돌립니다
+    const savepoint = getTransactionConnection() !== null;
+
+    return await handler(
+        async (connection: PoolClient) => {
+            logger.debug(`Executing EXPLAIN: ${explainSql}`, query.params);
+
+            if (rollback) {
+                await connection.query(savepoint ? "SAVEPOINT explain_analyze" : "BEGIN");
+            }
+            try {
+                const result = await connection.query<{ "QUERY PLAN": any }>(explainSql, query.params);
+                const plans = result.rows.map((row) => row["QUERY PLAN"]);
+
+                if (options?.format === "text") {
+                    return plans.join("\n") as ExplainResult<TOptions>;
+                }
+                // pg가 json 컬럼을 파싱하므로 첫 번째 행이 [{ Plan, ... }] 배열입니다
+                const plan = typeof plans[0] === "string" ? JSON.parse(plans[0]) : plans[0];
+                return (Array.isArray(plan) ? plan[0] : plan) as ExplainResult<TOptions>;
+            } finally {
+                if (rollback && savepoint) {
+                    await connection.query("ROLLBACK TO SAVEPOINT explain_analyze");
+                    await connection.query("RELEASE SAVEPOINT explain_analyze");
+                } else if (rollback) {
+                    await connection.query("ROLLBACK");
+                }
+            }
+        },
+        { ...handlerOptions, useTransaction: false }
+    );
+}
@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { executedQueries, getTestDatabase } from "../__tests__/database";
+import { createRepository } from "../repository/createRepository";
+import { IdentifierError } from "../interfaces/IdentifierError";
+import { createColumnQuoter, quoteAlias, quoteQualifiedName, quoteSelectColumn } from "./identifier";
+
+const events = createRepository<any>({
+    tableName: "identifier_events",
+    keys: ["id"],
+    columns: ["id", "order", "Name"],
+});
+
+beforeAll(async () => {
+    await getTestDatabase().exec(`
+        CREATE TABLE identifier_events (id INT PRIMARY KEY, "order" INT NOT NULL, "Name" TEXT NOT NULL);
+        INSERT INTO identifier_events VALUES (1, 2, 'b'), (2, 1, 'a');
+    `);
+});
+
+describe("identifier", () => {
+    it("스키마/별칭 한정 이름과 와일드카드, 인용된 식별자를 해석", () => {
+        expect(quoteQualifiedName("public.users")).toBe('"public"."users"');
+        expect(quoteQualifiedName("u.*")).toBe('"u".*');
+        expect(quoteQualifiedName('"a.b"."x""y"')).toBe('"a.b"."x""y"');
+        expect(quoteSelectColumn("u.name as author")).toBe('"u"."name" AS "author"');
+        expect(() => quoteQualifiedName("users..id")).toThrow(IdentifierError);
+        expect(() => quoteAlias("u.name")).toThrow(IdentifierError);
+    });
+
+    it("허용 목록에 없는 컬럼은 IdentifierError", () => {
+        const quote = createColumnQuoter(["id", "name"]);
+
+        expect(quote("id")).toBe('"id"');
+        expect(quote("*")).toBe("*");
+        expect(() => quote("password")).toThrow(IdentifierError);
+        expect(() => quote("id; DROP TABLE users")).toThrow('Unknown column "id; DROP TABLE users".');
+    });
+
+    it("한정된 컬럼은 한정자별 허용 목록으로 검사하고 등록되지 않은 한정자는 거부", () => {
+        const quote = createColumnQuoter(["id", "name"], "public.users").withQualifiers(["u"], {
+            o: ["id", "total"],
+            tags: null,
+        });
+
+        expect(quote("users.id")).toBe('"users"."id"');
+        expect(quote('"public"."users".name')).toBe('"public"."users"."name"');
+        expect(quote("u.*")).toBe('"u".*');
+        expect(quote("o.total")).toBe('"o"."total"');
+        expect(quote("tags.anything")).toBe('"tags"."anything"');
+        expect(() => quote("u.password")).toThrow('Unknown column "password".');
+        expect(() => quote("o.name")).toThrow('Unknown column "name".');
+        expect(() => quote("pg_shadow.name")).toThrow('Unknown table or alias "pg_shadow".');
+        expect(() => createColumnQuoter(["id"])("x.id")).toThrow(IdentifierError);
+        expect(createColumnQuoter()("x.id")).toBe('"x"."id"');
+    });
+
+    it("JOIN 대상의 columns 목록으로 ON/WHERE의 한정된 컬럼을 검사", () => {
+        const logs = { table: "identifier_logs", alias: "l", columns: ["event_id", "note"] };
+        const joined = () => events.select(["e.id", "l.note"]).as("e").leftJoin(logs, { "l.event_id": "e.id" });
+
+        expect(joined().buildQuery().sql).toBe(
+            'SELECT "e"."id", "l"."note" FROM "identifier_events" AS "e" LEFT JOIN "identifier_logs" AS "l" ON "l"."event_id" = "e"."id"'
+        );
+        expect(() => joined().where({ "l.secret": 1 }).buildQuery()).toThrow('Unknown column "secret".');
+        expect(() => joined().where({ "e.secret": 1 }).buildQuery()).toThrow('Unknown column "secret".');
+        expect(() => events.select(["other.secret"]).buildQuery()).toThrow('Unknown table or alias "other".');
+    });
+
+    it("예약어와 대소문자가 섞인 컬럼도 그대로 조회", async () => {
+        const rows = await events.select(["id", "order", "Name"]).orderBy("order").execute();
+
+        expect(rows).toEqual([
+            { id: 2, order: 1, Name: "a" },
+            { id: 1, order: 2, Name: "b" },
+        ]);
+        expect(executedQueries).toEqual([
+            'SELECT "id", "order", "Name" FROM "identifier_events" ORDER BY "order" ASC',
+        ]);
+    });
+
+    it("허용 목록 위반은 쿼리를 실행하기 전에 거부", async () => {
+        await expect(events.select().where({ secret: 1 }).execute()).rejects.toThrow(IdentifierError);
+        await expect(events.update().set({ secret: 1 }).execute()).rejects.toThrow(IdentifierError);
+        expect(executedQueries).toEqual([]);
+    });
+});
@@ -0,0 +1,202 @@
+import { IdentifierError } from "../interfaces/IdentifierError";
+
+/**
+ * 컬럼 식별자 변환 함수 타입
+ * 컬럼 참조("id", "u.name", "u.*")를 인용된 SQL 식별자로 변환합니다
+ */
+export interface ColumnQuoter {
+    (column: string): string;
+
+    /**
+     * 한정자(테이블 별칭, JOIN 대상)를 추가로 등록한 변환 함수를 반환합니다
+     * @param aliases 기본 테이블을 가리키는 별칭 (기본 허용 목록으로 검사)
+     * @param joined JOIN 대상(별칭 또는 테이블 이름)별 허용 컬럼 목록 (null이면 모든 컬럼 허용)
+     */
+    withQualifiers(aliases: readonly string[], joined?: Readonly<Record<string, readonly string[] | null>>): ColumnQuoter;
+}
+
+/**
+ * 식별자를 점(.) 단위로 분리합니다
+ * 큰따옴표로 인용된 부분은 내부의 점과 "" 이스케이프를 그대로 해석합니다
+ * @returns 인용을 벗긴 이름 목록 (와일드카드는 "*" 그대로)
+ */
+function splitIdentifier(identifier: string): string[] {
+    const parts: string[] = [];
+    let index = 0;
+
+    while (index <= identifier.length) {
+        let part = "";
+
+        if (identifier[index] === '"') {
+            index++;
+            while (true) {
+                if (index >= identifier.length) {
+                    throw new IdentifierError(`Unterminated quoted identifier: ${identifier}`, identifier);
+                }
+                if (identifier[index] === '"') {
+                    if (identifier[index + 1] === '"') {
+                        part += '"';
+                        index += 2;
+                        continue;
+                    }
+                    index++;
+                    break;
+                }
+                part += identifier[index++];
+            }
+            if (index < identifier.length && identifier[index] !== ".") {
+                throw new IdentifierError(`Invalid identifier: ${identifier}`, identifier);
+            }
+        } else {
+            const end = identifier.indexOf(".", index);
+            part = identifier.slice(index, end === -1 ? identifier.length : end);
+            index = end === -1 ? identifier.length : end;
+        }
+
+        if (part.length === 0) {
+            throw new IdentifierError(`Invalid identifier: "${identifier}"`, identifier);
+        }
+        parts.push(part);
+        index++;
+    }
+
+    return parts;
+}
+
+/**
+ * 단일 식별자를 큰따옴표로 인용합니다 (예약어, 대소문자 보존)
+ * @example quoteIdentifier("order") // "order"
+ */
+export function quoteIdentifier(name: string): string {
+    if (name.length === 0) {
+        throw new IdentifierError("Identifier must not be empty.", name);
+    }
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * 스키마/별칭으로 한정된 이름을 인용합니다
+ * @example quoteQualifiedName("public.users") // "public"."users"
+ * @example quoteQualifiedName("u.*") // "u".*
+ */
+export function quoteQualifiedName(identifier: string): string {
+    const parts = splitIdentifier(identifier);
+    return parts
+        .map((part, index) => {
+            if (part === "*" && index === parts.length - 1 && !identifier.endsWith('"')) {
+                return part;
+            }
+            return quoteIdentifier(part);
+        })
+        .join(".");
+}
+
+/**
+ * 한정자 이름을 비교용 키로 변환합니다 ("public"."users"와 public.users를 같게 취급)
+ * 스키마를 포함한 테이블 이름은 테이블 이름만으로도 한정할 수 있습니다
+ */
+function qualifierKeys(name: string): string[] {
+    const parts = splitIdentifier(name);
+    return parts.length > 1 ? [parts.join("."), parts[parts.length - 1]] : parts;
+}
+
+/**
+ * 한정자별 허용 컬럼으로 컬럼 식별자 변환 함수를 생성합니다
+ * @param allowed 기본 테이블의 허용 컬럼 (null이면 모든 컬럼 허용)
+ * @param scopes 한정자별 허용 컬럼 (null이면 모든 컬럼 허용)
+ */
+function buildColumnQuoter(
+    allowed: ReadonlySet<string> | null,
+    scopes: ReadonlyMap<string, ReadonlySet<string> | null>
+): ColumnQuoter {
+    const quote = function quote(column: string): string {
+        const quoted = quoteQualifiedName(column);
+        const parts = splitIdentifier(column);
+        const name = parts[parts.length - 1];
+        const isWildcard = name === "*" && quoted.endsWith("*");
+
+        let columns = allowed;
+        if (parts.length > 1) {
+            const qualifier = parts.slice(0, -1).join(".");
+            if (scopes.has(qualifier)) {
+                columns = scopes.get(qualifier)!;
+            } else if (allowed) {
+                // 허용 목록이 있으면 등록되지 않은 한정자로 목록 검사를 우회할 수 없습니다
+                throw new IdentifierError(`Unknown table or alias "${qualifier}".`, column, [...allowed]);
+            }
+        }
+
+        if (columns && !isWildcard && !columns.has(name)) {
+            throw new IdentifierError(`Unknown column "${name}".`, column, [...columns]);
+        }
+        return quoted;
+    } as ColumnQuoter;
+
+    quote.withQualifiers = (aliases, joined = {}) => {
+        const next = new Map(scopes);
+        for (const alias of aliases) {
+            qualifierKeys(alias).forEach((key) => next.set(key, allowed));
+        }
+        for (const [target, columns] of Object.entries(joined)) {
+            const scope = columns ? new Set(columns) : null;
+            qualifierKeys(target).forEach((key) => next.set(key, scope));
+        }
+        return buildColumnQuoter(allowed, next);
+    };
+
+    return quote;
+}
+
+/**
+ * 컬럼 식별자 변환 함수를 생성합니다
+ * 허용 목록을 지정하면 목록에 없는 컬럼을 IdentifierError로 거부합니다
+ * 한정된 이름("u.name")은 한정자에 등록된 목록으로 검사하며, 허용 목록이 있을 때
+ * 기본 테이블이나 withQualifiers()로 등록한 별칭/JOIN 대상이 아닌 한정자는 거부합니다
+ * @param allowedColumns 허용할 컬럼 이름 목록 (생략하면 모든 컬럼 허용)
+ * @param tableName 기본 테이블 이름 (스키마를 포함하면 테이블 이름만으로도 한정 가능)
+ */
+export function createColumnQuoter(allowedColumns?: readonly string[], tableName?: string): ColumnQuoter {
+    const quote = buildColumnQuoter(allowedColumns ? new Set(allowedColumns) : null, new Map());
+    return tableName ? quote.withQualifiers([tableName]) : quote;
+}
+
+/**
+ * 허용 목록 없이 컬럼을 인용하는 기본 변환 함수
+ */
+export const quoteColumn: ColumnQuoter = createColumnQuoter();
+
+/**
+ * 별칭을 포함할 수 있는 SELECT 컬럼을 인용합니다
+ * @example quoteSelectColumn("u.name AS author") // "u"."name" AS "author"
+ */
+export function quoteSelectColumn(column: string, quote: ColumnQuoter = quoteColumn): string {
+    const match = /^(.+?)\s+as\s+(.+)$/i.exec(column.trim());
+    if (!match) {
+        return quote(column.trim());
+    }
+    return `${quote(match[1])} AS ${quoteAlias(match[2])}`;
+}
+
+/**
+ * 별칭을 인용합니다 (이미 인용된 별칭은 그대로 해석)
+ */
+export function quoteAlias(alias: string): string {
+    const parts = splitIdentifier(alias);
+    if (parts.length !== 1) {
+        throw new IdentifierError(`Invalid alias: ${alias}`, alias);
+    }
+    return quoteIdentifier(parts[0]);
+}
+
+/**
+ * 캐스트에 사용할 SQL 타입 이름을 검증합니다 (SQL에 그대로 삽입되므로 허용된 형태만 통과)
+ * @example assertCastType("numeric(10,2)") // "numeric(10,2)"
+ * @example assertCastType("text[]") // "text[]"
+ * @throws {Error} 타입 이름 형식이 아닌 경우
+ */
+export function assertCastType(type: string): string {
+    if (!/^[a-z_][a-z0-9_ ]*(\(\d+(,\s*\d+)?\))?(\[\])?$/i.test(type)) {
+        throw new Error(`Invalid cast type: ${type}`);
+    }
+    return type;
+}
@@ -2,3 +2,5 @@ export * from "./logger";
 export * from "./reader";
 export * from "./connection";
 export * from "./transaction";
+export * from "./identifier";
+export * from "./explain";
\ No newline at end of file
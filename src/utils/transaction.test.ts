@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from "vitest";
+import { assertJoinableTransaction, buildBeginStatement, retryTransaction } from "./transaction";
+import { TransactionRetryInfo } from "../interfaces/HandlerOption";
+import { TransactionContext } from "../middleware/connection";
+
+describe("buildBeginStatement", () => {
+    it("지정한 모드만 BEGIN 뒤에 나열", () => {
+        expect(buildBeginStatement()).toBe("BEGIN");
+        expect(buildBeginStatement({ isolationLevel: "REPEATABLE READ" })).toBe("BEGIN ISOLATION LEVEL REPEATABLE READ");
+        expect(buildBeginStatement({ isolationLevel: "SERIALIZABLE", readOnly: true, deferrable: true })).toBe(
+            "BEGIN ISOLATION LEVEL SERIALIZABLE, READ ONLY, DEFERRABLE"
+        );
+        expect(buildBeginStatement({ readOnly: false, deferrable: false })).toBe("BEGIN READ WRITE, NOT DEFERRABLE");
+    });
+
+    it("알 수 없는 격리 수준은 SQL에 넣지 않고 에러", () => {
+        expect(() => buildBeginStatement({ isolationLevel: "SERIALIZABLE; DROP TABLE x" as any })).toThrow(
+            "Invalid isolation level: SERIALIZABLE; DROP TABLE x"
+        );
+    });
+});
+
+describe("retryTransaction", () => {
+    it("40001/40P01이면 지수 백오프로 다시 실행하고 onRetry 호출", async () => {
+        const retries: TransactionRetryInfo[] = [];
+        const run = vi
+            .fn<() => Promise<string>>()
+            .mockRejectedValueOnce({ code: "40001" })
+            .mockRejectedValueOnce({ code: "40P01" })
+            .mockResolvedValue("done");
+
+        const result = await retryTransaction({ baseDelay: 1, onRetry: (info) => void retries.push(info) }, run);
+
+        expect(result).toBe("done");
+        expect(run).toHaveBeenCalledTimes(3);
+        expect(retries).toEqual([
+            { attempt: 1, maxRetries: 3, delay: 1, error: { code: "40001" } },
+            { attempt: 2, maxRetries: 3, delay: 2, error: { code: "40P01" } },
+        ]);
+    });
+
+    it("대기 시간은 maxDelay를 넘지 않음", async () => {
+        const delays: number[] = [];
+        const run = vi.fn<() => Promise<void>>().mockRejectedValue({ code: "40001" });
+
+        await expect(
+            retryTransaction({ maxRetries: 4, baseDelay: 1, maxDelay: 3, onRetry: ({ delay }) => void delays.push(delay) }, run)
+        ).rejects.toEqual({ code: "40001" });
+        expect(delays).toEqual([1, 2, 3, 3]);
+    });
+
+    it("maxRetries를 모두 쓰면 마지막 에러를 던짐", async () => {
+        const run = vi.fn<() => Promise<void>>().mockRejectedValue({ code: "40001" });
+
+        await expect(retryTransaction({ maxRetries: 2, baseDelay: 1 }, run)).rejects.toEqual({ code: "40001" });
+        expect(run).toHaveBeenCalledTimes(3);
+    });
+
+    it("재시도 대상이 아니거나 retry를 지정하지 않으면 한 번만 실행", async () => {
+        const unique = vi.fn<() => Promise<void>>().mockRejectedValue({ code: "23505" });
+        await expect(retryTransaction(true, unique)).rejects.toEqual({ code: "23505" });
+        expect(unique).toHaveBeenCalledTimes(1);
+
+        const serialization = vi.fn<() => Promise<void>>().mockRejectedValue({ code: "40001" });
+        await expect(retryTransaction(undefined, serialization)).rejects.toEqual({ code: "40001" });
+        expect(serialization).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe("assertJoinableTransaction", () => {
+    const context = { connection: {} as any, depth: 0, options: { isolationLevel: "SERIALIZABLE" } } as TransactionContext;
+
+    it("같은 모드이거나 모드를 지정하지 않으면 참여", () => {
+        expect(() => assertJoinableTransaction(context, {})).not.toThrow();
+        expect(() => assertJoinableTransaction(context, { isolationLevel: "SERIALIZABLE", retry: true })).not.toThrow();
+    });
+
+    it("다른 격리 수준이나 읽기 전용을 요구하면 에러", () => {
+        expect(() => assertJoinableTransaction(context, { isolationLevel: "READ COMMITTED" })).toThrow(
+            "Cannot use isolationLevel READ COMMITTED inside a transaction started with SERIALIZABLE."
+        );
+        expect(() => assertJoinableTransaction(context, { readOnly: true })).toThrow(
+            "Cannot use readOnly true inside a transaction started with undefined."
+        );
+    });
+});
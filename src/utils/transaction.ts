@@ -1,48 +1,100 @@
 import { PoolClient } from "pg";
 import { getConnection } from "./connection";
 import { getLogger } from "./logger";
-import { HandlerOption } from "../interfaces/HandlerOption";
+import { HandlerOption, IsolationLevel, TransactionOptions, TransactionRetryOptions } from "../interfaces/HandlerOption";
 import { DatabaseError, isDbError } from "../interfaces/DbError";
+import { getTransactionContext, TransactionContext } from "../middleware/connection";
 
 const logger = getLogger();
 
+const RETRYABLE_ERROR_CODES = new Set(["40001", "40P01"]);
+
+const ISOLATION_LEVELS: readonly IsolationLevel[] = ["READ COMMITTED", "REPEATABLE READ", "SERIALIZABLE"];
+
 /**
- * 트랜잭션 핸들러
- * @param callback 연결을 사용하는 콜백 함수
- * @param option 핸들러 옵션
- * @returns 콜백 함수의 반환값 또는 null (에러 발생 시)
- * @throws {DatabaseError | Error} option.throwError가 true인 경우
+ * 트랜잭션 옵션으로 BEGIN 문 생성
+ * @example buildBeginStatement({ isolationLevel: "SERIALIZABLE", readOnly: true }) // BEGIN ISOLATION LEVEL SERIALIZABLE, READ ONLY
  */
-export async function handler<T>(
-    callback: (connection: PoolClient) => Promise<T>,
-    option: HandlerOption = {
-        throwError: true,
-        printSqlError: true,
-        rollbackIfError: true,
-        useTransaction: true,
+export function buildBeginStatement(options: TransactionOptions = {}): string {
+    const modes: string[] = [];
+    if (options.isolationLevel !== undefined) {
+        if (!ISOLATION_LEVELS.includes(options.isolationLevel)) {
+            throw new Error(`Invalid isolation level: ${options.isolationLevel}`);
+        }
+        modes.push(`ISOLATION LEVEL ${options.isolationLevel}`);
     }
-): Promise<T | null> {
-    const connection = await getConnection();
-    if (connection === null) {
-        if (option.throwError) {
-            throw new Error("Failed to get database connection");
+    if (options.readOnly !== undefined) {
+        modes.push(options.readOnly ? "READ ONLY" : "READ WRITE");
+    }
+    if (options.deferrable !== undefined) {
+        modes.push(options.deferrable ? "DEFERRABLE" : "NOT DEFERRABLE");
+    }
+    return modes.length > 0 ? `BEGIN ${modes.join(", ")}` : "BEGIN";
+}
+
+/**
+ * 진행 중인 트랜잭션에 참여할 수 있는지 확인
+ * 시작된 트랜잭션의 모드는 바꿀 수 없으므로 다른 모드를 요구하면 에러를 던집니다
+ */
+export function assertJoinableTransaction(context: TransactionContext, options: TransactionOptions): void {
+    const keys = ["isolationLevel", "readOnly", "deferrable"] as const;
+    for (const key of keys) {
+        if (options[key] !== undefined && options[key] !== context.options[key]) {
+            throw new Error(
+                `Cannot use ${key} ${String(options[key])} inside a transaction started with ${String(context.options[key])}.`
+            );
         }
-        return null;
     }
+}
+
+/**
+ * 재시도 가능한 에러인지 확인 (serialization_failure, deadlock_detected)
+ */
+export function isRetryableTransactionError(error: unknown): boolean {
+    return isDbError(error) && error.code !== undefined && RETRYABLE_ERROR_CODES.has(error.code);
+}
+
+/**
+ * 직렬화 실패/교착 상태이면 지수 백오프 후 작업 전체를 다시 실행합니다
+ * @param retry 재시도 옵션 (false/undefined면 한 번만 실행)
+ * @param run 트랜잭션 하나를 처음부터 끝까지 실행하는 함수
+ */
+export async function retryTransaction<T>(
+    retry: boolean | TransactionRetryOptions | undefined,
+    run: () => Promise<T>
+): Promise<T> {
+    const options = retry === true ? {} : retry || null;
+    const maxRetries = options?.maxRetries ?? 3;
+    const baseDelay = options?.baseDelay ?? 50;
+    const maxDelay = options?.maxDelay ?? 2000;
 
-    if (option.useTransaction) {
+    for (let attempt = 1; ; attempt++) {
         try {
-            await connection.query("BEGIN");
-        } catch (beginError) {
-            connection.release();
-            if (option.throwError) {
-                throw beginError;
+            return await run();
+        } catch (e) {
+            if (!options || attempt > maxRetries || !isRetryableTransactionError(e)) {
+                throw e;
             }
-            return null;
+            const delay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
+            await options.onRetry?.({ attempt, maxRetries, delay, error: e });
+            await new Promise((resolve) => setTimeout(resolve, delay));
         }
     }
+}
+
+/**
+ * 새 연결에서 콜백을 한 번 실행 (useTransaction이면 BEGIN/COMMIT, 에러 시 ROLLBACK)
+ */
+async function runHandler<T>(callback: (connection: PoolClient) => Promise<T>, option: HandlerOption): Promise<T> {
+    const connection = await getConnection();
+    if (connection === null) {
+        throw new Error("Failed to get database connection");
+    }
 
     try {
+        if (option.useTransaction) {
+            await connection.query(buildBeginStatement(option));
+        }
         const response = await callback(connection);
         if (option.useTransaction) {
             await connection.query("COMMIT");
@@ -57,46 +109,92 @@ export async function handler<T>(
                 logger.errorWithStack("Rollback error", rollbackError);
             }
         }
+        throw e;
+    } finally {
+        // 연결 반환 시 마지막 사용 시간 업데이트 (idleTimeout 관리용)
+        (connection as any)._lastUse = Date.now();
+        connection.release();
+    }
+}
 
-        if (isDbError(e)) {
-            if (option.printSqlError) {
-                const dbError = e as any;
-                logger.error("SQL Error occurred");
-                if (dbError.code) {
-                    logger.error(`  Code: ${dbError.code}`);
-                }
-                if (dbError.message) {
-                    logger.error(`  Message: ${dbError.message}`);
-                }
-                if (dbError.detail) {
-                    logger.error(`  Detail: ${dbError.detail}`);
-                }
-                if (dbError.hint) {
-                    logger.error(`  Hint: ${dbError.hint}`);
-                }
-                if (dbError.position) {
-                    logger.error(`  Position: ${dbError.position}`);
-                }
-                if (dbError.severity) {
-                    logger.error(`  Severity: ${dbError.severity}`);
-                }
-                if (dbError.where) {
-                    logger.error(`  Where: ${dbError.where}`);
-                }
+/**
+ * 핸들러 에러 처리 (SQL 에러 출력, 옵션에 따라 다시 던지기)
+ * @returns null (에러를 던지지 않는 경우)
+ */
+function reportError(e: unknown, option: HandlerOption): null {
+    if (isDbError(e)) {
+        if (option.printSqlError) {
+            const dbError = e as any;
+            logger.error("SQL Error occurred");
+            if (dbError.code) {
+                logger.error(`  Code: ${dbError.code}`);
+            }
+            if (dbError.message) {
+                logger.error(`  Message: ${dbError.message}`);
+            }
+            if (dbError.detail) {
+                logger.error(`  Detail: ${dbError.detail}`);
+            }
+            if (dbError.hint) {
+                logger.error(`  Hint: ${dbError.hint}`);
+            }
+            if (dbError.position) {
+                logger.error(`  Position: ${dbError.position}`);
+            }
+            if (dbError.severity) {
+                logger.error(`  Severity: ${dbError.severity}`);
             }
-            if (option.throwError) {
-                throw new DatabaseError(e);
+            if (dbError.where) {
+                logger.error(`  Where: ${dbError.where}`);
             }
-            return null;
         }
-
         if (option.throwError) {
-            throw e;
+            throw new DatabaseError(e);
         }
         return null;
-    } finally {
-        // 연결 반환 시 마지막 사용 시간 업데이트 (idleTimeout 관리용)
-        (connection as any)._lastUse = Date.now();
-        connection.release();
+    }
+
+    if (option.throwError) {
+        throw e;
+    }
+    return null;
+}
+
+/**
+ * 트랜잭션 핸들러
+ * transaction() 안에서 호출되면 새 연결 대신 진행 중인 트랜잭션의 연결을 사용합니다 (재시도는 바깥 트랜잭션 몫)
+ * @param callback 연결을 사용하는 콜백 함수
+ * @param option 핸들러 옵션
+ * @returns 콜백 함수의 반환값 또는 null (에러 발생 시)
+ * @throws {DatabaseError | Error} option.throwError가 true인 경우
+ */
+export async function handler<T>(
+    callback: (connection: PoolClient) => Promise<T>,
+    option: HandlerOption = {
+        throwError: true,
+        printSqlError: true,
+        rollbackIfError: true,
+        useTransaction: true,
+    }
+): Promise<T | null> {
+    // transaction() 안에서는 진행 중인 트랜잭션의 연결을 사용하고 BEGIN/COMMIT은 바깥에 맡깁니다
+    const context = getTransactionContext();
+    if (context) {
+        assertJoinableTransaction(context, option);
+        try {
+            return await callback(context.connection);
+        } catch (e) {
+            // 서버가 중단시킨 트랜잭션은 커밋할 수 없으므로 DB 에러만 기록합니다 (실행 전 검증 에러는 트랜잭션에 영향 없음)
+            if (isDbError(e)) {
+                context.error ??= e;
+            }
+            return reportError(e, option);
+        }
+    }
+
+    try {
+        return await retryTransaction(option.retry, () => runHandler(callback, option));
+    } catch (e) {
+        return reportError(e, option);
     }
 }
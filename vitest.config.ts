@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        include: ["src/**/*.test.ts"],
+        setupFiles: ["src/__tests__/setup.ts"],
+        env: {
+            DB_NAME: "test",
+            LOG_LEVEL: "error",
+        },
+    },
+});